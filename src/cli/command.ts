@@ -0,0 +1,120 @@
+import {
+  loadConfig,
+  ConfigError,
+  type CommandOptionSpec,
+  type LoadedConfig,
+} from "../core/config";
+import { ExitCode } from "../types";
+
+export interface CommandContext {
+  loaded: LoadedConfig;
+  /** Positional arguments after the command words. */
+  args: string[];
+}
+
+/**
+ * One CLI command, e.g. `profiles show`. Add new commands to COMMANDS in
+ * src/cli/index.ts; parsing, help and unknown-flag errors come for free.
+ */
+export interface Command {
+  /** Command words, e.g. ["metrics", "export"]. */
+  path: string[];
+  summary: string;
+  /** Full help text shown by `<command> --help`. */
+  help: string;
+  /** Config keys whose flags this command accepts; all when omitted. */
+  configKeys?: string[];
+  options?: CommandOptionSpec[];
+  /** Most positional arguments accepted (default 0). */
+  maxArgs?: number;
+  run(ctx: CommandContext): Promise<number>;
+}
+
+export const PROGRAM = "pnpm run start --";
+
+export function commandName(command: Command): string {
+  return command.path.join(" ");
+}
+
+/**
+ * Matches the leading words of argv against the command list. With no words,
+ * `defaultCommand` is used; a bare group word (e.g. `metrics`) matches nothing
+ * and is reported as `group`.
+ */
+export function resolveCommand(
+  argv: string[],
+  commands: Command[],
+  defaultCommand: Command,
+): { command?: Command; rest: string[]; group?: string } {
+  const first = argv[0];
+  if (first === undefined || first.startsWith("-")) {
+    return { command: defaultCommand, rest: argv };
+  }
+
+  const second = argv[1];
+  const exact = commands.find(
+    (c) => c.path.length === 2 && c.path[0] === first && c.path[1] === second,
+  );
+  if (exact) return { command: exact, rest: argv.slice(2) };
+
+  const single = commands.find(
+    (c) => c.path.length === 1 && c.path[0] === first,
+  );
+  if (single) return { command: single, rest: argv.slice(1) };
+
+  const isGroup = commands.some((c) => c.path[0] === first);
+  return { rest: argv.slice(1), group: isGroup ? first : undefined };
+}
+
+export function formatCommandList(commands: Command[]): string {
+  const width = Math.max(...commands.map((c) => commandName(c).length));
+  return commands
+    .map((c) => `  ${commandName(c).padEnd(width)}  ${c.summary}`)
+    .join("\n");
+}
+
+/**
+ * Parses argv for the matched command and runs it, returning the exit code.
+ * Usage errors (unknown flags, bad values, extra arguments) print a hint and
+ * return ExitCode.Fatal without running anything.
+ */
+export async function executeCommand(
+  command: Command,
+  argv: string[],
+  env?: NodeJS.ProcessEnv,
+): Promise<number> {
+  if (argv.includes("--help") || argv.includes("-h")) {
+    console.log(command.help);
+    return ExitCode.Success;
+  }
+
+  let loaded: LoadedConfig;
+  try {
+    loaded = loadConfig({
+      argv,
+      env,
+      configKeys: command.configKeys,
+      commandOptions: command.options,
+    });
+  } catch (err) {
+    if (err instanceof ConfigError) {
+      console.error(`Error: ${err.message}`);
+      console.error(
+        `Run "${PROGRAM} ${commandName(command)} --help" for usage.`,
+      );
+      return ExitCode.Fatal;
+    }
+    throw err;
+  }
+
+  const maxArgs = command.maxArgs ?? 0;
+  if (loaded.positionals.length > maxArgs) {
+    console.error(
+      `Error: Unexpected argument "${loaded.positionals[maxArgs]}" for "${commandName(command)}".`,
+    );
+    console.error(`Run "${PROGRAM} ${commandName(command)} --help" for usage.`);
+    return ExitCode.Fatal;
+  }
+
+  return command.run({ loaded, args: loaded.positionals });
+}
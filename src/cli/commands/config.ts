@@ -0,0 +1,18 @@
+import { formatConfig } from "../../core/config";
+import { ExitCode } from "../../types";
+import { PROGRAM, type Command } from "../command";
+
+export const configPrintCommand: Command = {
+  path: ["config", "print"],
+  summary: "Show the effective config and where each value came from",
+  help: `
+Usage: ${PROGRAM} config print [options]
+
+Prints every config value with its source (default, file, env or cli).
+Accepts the same options as "run" to preview their effect.
+`,
+  async run({ loaded }) {
+    console.log(formatConfig(loaded));
+    return ExitCode.Success;
+  },
+};
@@ -0,0 +1,220 @@
+import { accessSync, constants, existsSync } from "fs";
+import { AcknowledgementStore } from "../../core/safety";
+import { resolveBatchProfileNames } from "../../core/batch";
+import {
+  resolveBrowserExecutable,
+  BrowserNotFoundError,
+} from "../../utils/browser-executable";
+import {
+  scanEdgeProfiles,
+  resolveProfileByName,
+  getEdgeUserDataDir,
+} from "../../utils/edge-profiles";
+import { getQueryBankPath } from "../../utils/embeddings";
+import { SelectorPackError, loadSelectorPack } from "../../core/selectors";
+import { ExitCode, type ExtendedConfig } from "../../types";
+import { PROGRAM, type Command } from "../command";
+
+export interface DoctorCheck {
+  name: string;
+  status: "ok" | "warn" | "fail";
+  detail: string;
+}
+
+const MIN_NODE_MAJOR = 20;
+
+function isWritable(dir: string): boolean {
+  try {
+    accessSync(dir, constants.W_OK);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Checks everything a run depends on without launching the browser.
+ * Failures would stop a run; warnings only limit some features.
+ */
+export function runDoctorChecks(
+  config: ExtendedConfig,
+  deps: {
+    nodeVersion?: string;
+    exists?: (path: string) => boolean;
+    writable?: (dir: string) => boolean;
+    cwd?: string;
+    acknowledgements?: AcknowledgementStore;
+  } = {},
+): DoctorCheck[] {
+  const exists = deps.exists ?? existsSync;
+  const checks: DoctorCheck[] = [];
+
+  const nodeVersion = deps.nodeVersion ?? process.versions.node;
+  const major = Number(nodeVersion.split(".")[0]);
+  checks.push(
+    major >= MIN_NODE_MAJOR
+      ? { name: "Node.js", status: "ok", detail: `v${nodeVersion}` }
+      : {
+          name: "Node.js",
+          status: "fail",
+          detail: `v${nodeVersion}; ${MIN_NODE_MAJOR} or newer is required`,
+        },
+  );
+
+  try {
+    const target = resolveBrowserExecutable(config, { exists });
+    checks.push({
+      name: "Browser",
+      status: "ok",
+      detail: target.executablePath ?? "bundled Chromium (--channel chromium)",
+    });
+  } catch (err) {
+    if (!(err instanceof BrowserNotFoundError)) throw err;
+    checks.push({
+      name: "Browser",
+      status: "fail",
+      detail: err.message,
+    });
+  }
+
+  const profiles = scanEdgeProfiles();
+  checks.push(
+    profiles.length > 0
+      ? {
+          name: "Edge profiles",
+          status: "ok",
+          detail: `${profiles.length} found`,
+        }
+      : {
+          name: "Edge profiles",
+          status: "warn",
+          detail: `none found at ${getEdgeUserDataDir()} (only needed for --profile)`,
+        },
+  );
+
+  const selected = config.profileName
+    ? [config.profileName]
+    : resolveBatchProfileNames(config);
+  const acknowledgements = deps.acknowledgements ?? new AcknowledgementStore();
+  const ackKeys: [string, string][] =
+    selected.length > 0 ? [] : [["default", "default"]];
+  for (const name of selected) {
+    const resolved = resolveProfileByName(name);
+    if (resolved) {
+      checks.push({
+        name: `Profile "${name}"`,
+        status: "ok",
+        detail: `folder ${resolved.profileDir}`,
+      });
+      ackKeys.push([name, resolved.profileDir]);
+    } else {
+      checks.push({
+        name: `Profile "${name}"`,
+        status: "fail",
+        detail: `not found; run "${PROGRAM} profiles list"`,
+      });
+    }
+  }
+
+  for (const [label, key] of ackKeys) {
+    checks.push(
+      acknowledgements.has(key)
+        ? {
+            name: `TOS notice (${label})`,
+            status: "ok",
+            detail: "acknowledged",
+          }
+        : {
+            name: `TOS notice (${label})`,
+            status: "warn",
+            detail:
+              "not acknowledged; live runs prompt for it and fail when non-interactive",
+          },
+    );
+  }
+
+  checks.push(
+    exists(getQueryBankPath())
+      ? { name: "Query bank", status: "ok", detail: getQueryBankPath() }
+      : {
+          name: "Query bank",
+          status: "warn",
+          detail: `missing; built on first use or with "${PROGRAM} query-bank build"`,
+        },
+  );
+
+  const cwd = deps.cwd ?? process.cwd();
+  try {
+    const pack = loadSelectorPack({ overridePath: config.selectorsFile, cwd });
+    const detail = `v${pack.version}${pack.overrideFile ? ` + ${pack.overrideFile}` : " (built-in)"}`;
+    checks.push(
+      pack.warnings.length > 0
+        ? {
+            name: "Selector pack",
+            status: "warn",
+            detail: [detail, ...pack.warnings].join("\n"),
+          }
+        : { name: "Selector pack", status: "ok", detail },
+    );
+  } catch (err) {
+    if (!(err instanceof SelectorPackError)) throw err;
+    checks.push({ name: "Selector pack", status: "fail", detail: err.message });
+  }
+
+  checks.push(
+    (deps.writable ?? isWritable)(cwd)
+      ? { name: "Data directory", status: "ok", detail: `${cwd} is writable` }
+      : {
+          name: "Data directory",
+          status: "fail",
+          detail: `${cwd} is not writable; metrics and state files cannot be saved`,
+        },
+  );
+
+  return checks;
+}
+
+const ICONS: Record<DoctorCheck["status"], string> = {
+  ok: "✓",
+  warn: "!",
+  fail: "✗",
+};
+
+export const doctorCommand: Command = {
+  path: ["doctor"],
+  summary: "Check Node.js, browser, profiles and data files",
+  help: `
+Usage: ${PROGRAM} doctor [options]
+
+Checks that a run could start: Node.js version, browser install, selected
+profiles, TOS acknowledgement, query bank, selector pack and a writable
+data directory.
+Accepts the same options as "run", so you can check a specific setup.
+Exits non-zero when any check fails.
+
+Example:
+  ${PROGRAM} doctor --profile "Work" --channel msedge-beta
+`,
+  async run({ loaded }) {
+    const checks = runDoctorChecks(loaded.config);
+    const width = Math.max(...checks.map((c) => c.name.length));
+
+    console.log(
+      `\nConfig: ${loaded.configFile ?? "defaults (no config file)"}\n`,
+    );
+    const indent = " ".repeat(width + 6);
+    for (const check of checks) {
+      console.log(
+        `  ${ICONS[check.status]} ${check.name.padEnd(width)}  ${check.detail.replace(/\n/g, `\n${indent}`)}`,
+      );
+    }
+
+    const failed = checks.filter((c) => c.status === "fail").length;
+    console.log(
+      failed > 0
+        ? `\n${failed} check(s) failed.`
+        : "\nAll required checks passed.",
+    );
+    return failed > 0 ? ExitCode.Fatal : ExitCode.Success;
+  },
+};
@@ -0,0 +1,343 @@
+import { writeFileSync } from "fs";
+import { resolveBatchProfileNames } from "../../core/batch";
+import {
+  MetricsStore,
+  namespacedPath,
+  type DailyOffers,
+  type MetricsData,
+} from "../../utils/storage";
+import {
+  formatOffer,
+  summarizeOffers,
+} from "../../handlers/activity-classifier";
+import {
+  ACTIVITY_LEDGER_PATH,
+  ActivityLedger,
+  type LedgerEntry,
+} from "../../core/activity-ledger";
+import { ExitCode } from "../../types";
+import { PROGRAM, type Command } from "../command";
+import { METRICS_PATH, profileNamespace } from "../paths";
+
+function printMetricsSummary(metrics: MetricsStore): void {
+  const summary = metrics.getSummary();
+  console.log(`Total Runs: ${summary.totalRuns}`);
+  console.log(`Today's Points: ${summary.todayPoints}`);
+  for (const [source, points] of Object.entries(
+    metrics.getTodayPointsBySource(),
+  )) {
+    console.log(`  ${source}: ${points}`);
+  }
+  console.log(`Success Rate: ${(summary.successRate * 100).toFixed(1)}%`);
+  console.log(`Avg Duration: ${summary.avgDuration.toFixed(0)}ms`);
+  console.log(`\nBy Handler:`);
+  for (const [handler, stats] of Object.entries(summary.handlerStats)) {
+    console.log(
+      `  ${handler}: ${stats.runs} runs (${(stats.successRate * 100).toFixed(1)}% success), ${stats.points} points`,
+    );
+  }
+}
+
+function csvCell(value: unknown): string {
+  const text =
+    value === undefined
+      ? ""
+      : typeof value === "string"
+        ? value
+        : JSON.stringify(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * One CSV row per recorded handler run; meta is kept as a JSON cell.
+ */
+export function formatMetricsCsv(data: MetricsData): string {
+  const header = [
+    "timestamp",
+    "handler",
+    "status",
+    "durationMs",
+    "attempts",
+    "points",
+    "meta",
+  ];
+  const rows = data.runs.map((r) =>
+    [
+      r.timestamp,
+      r.handler,
+      r.status,
+      r.durationMs,
+      r.attempts,
+      r.points,
+      r.meta,
+    ]
+      .map(csvCell)
+      .join(","),
+  );
+  return [header.join(","), ...rows].join("\n") + "\n";
+}
+
+export const metricsSummaryCommand: Command = {
+  path: ["metrics", "summary"],
+  summary: "Show run statistics per handler",
+  help: `
+Usage: ${PROGRAM} metrics summary [options]
+
+Options:
+  -p, --profile <name>   Show one Edge profile's metrics
+  --profiles <a,b,c>     Show several profiles, one block each
+  --all-profiles         Show every Edge profile found on this machine
+`,
+  configKeys: ["profileName", "profileNames", "allProfiles"],
+  async run({ loaded }) {
+    const config = loaded.config;
+    const batchProfiles = resolveBatchProfileNames(config);
+
+    if (batchProfiles.length > 0) {
+      for (const name of batchProfiles) {
+        console.log(`\n=== Metrics Summary: ${name} ===`);
+        printMetricsSummary(
+          new MetricsStore(
+            namespacedPath(METRICS_PATH, profileNamespace(name)),
+          ),
+        );
+      }
+    } else {
+      console.log("\n=== Metrics Summary ===");
+      printMetricsSummary(
+        new MetricsStore(
+          namespacedPath(METRICS_PATH, profileNamespace(config.profileName)),
+        ),
+      );
+    }
+    return ExitCode.Success;
+  },
+};
+
+export const metricsExportCommand: Command = {
+  path: ["metrics", "export"],
+  summary: "Export recorded runs as JSON or CSV",
+  help: `
+Usage: ${PROGRAM} metrics export [options]
+
+JSON contains every run and the daily points; CSV has one row per run.
+
+Options:
+  -p, --profile <name>   Export one Edge profile's metrics
+  --format <json|csv>    Output format (default: json)
+  -o, --output <path>    Write to a file instead of stdout
+
+Example:
+  ${PROGRAM} metrics export --format csv -o runs.csv
+`,
+  configKeys: ["profileName"],
+  options: [
+    { name: "format", flags: ["--format"], type: "string" },
+    { name: "output", flags: ["--output", "-o"], type: "string" },
+  ],
+  async run({ loaded }) {
+    const format = loaded.options.format ?? "json";
+    if (format !== "json" && format !== "csv") {
+      console.error(
+        `Error: Unknown --format "${String(format)}". Use json or csv.`,
+      );
+      return ExitCode.Fatal;
+    }
+
+    const data = new MetricsStore(
+      namespacedPath(METRICS_PATH, profileNamespace(loaded.config.profileName)),
+    ).export();
+    const text =
+      format === "csv"
+        ? formatMetricsCsv(data)
+        : JSON.stringify(data, null, 2) + "\n";
+
+    const output = loaded.options.output as string | undefined;
+    if (output) {
+      writeFileSync(output, text, "utf-8");
+      console.log(`Exported ${data.runs.length} run(s) to ${output}`);
+    } else {
+      process.stdout.write(text);
+    }
+    return ExitCode.Success;
+  },
+};
+
+const DEFAULT_OFFER_DAYS = 7;
+
+/**
+ * The recorded offers of the last `days` days, newest first, one block per day.
+ */
+export function formatDailyOffers(days: DailyOffers[], limit: number): string {
+  if (days.length === 0) return "No dashboard offers recorded yet.\n";
+  return (
+    days
+      .slice(-limit)
+      .reverse()
+      .map((day) =>
+        [
+          `${day.date}: ${summarizeOffers(day.activities)}`,
+          ...day.activities.map((offer) => `  ${formatOffer(offer)}`),
+        ].join("\n"),
+      )
+      .join("\n\n") + "\n"
+  );
+}
+
+export const metricsOffersCommand: Command = {
+  path: ["metrics", "offers"],
+  summary: "Show what the dashboard offered each day, by activity kind",
+  help: `
+Usage: ${PROGRAM} metrics offers [options]
+
+Every run classifies the dashboard's cards before its handlers start. This
+lists the cards recorded for each day, newest first.
+
+Options:
+  -p, --profile <name>   Show one Edge profile's offers
+  --days <n>             Number of days to show (default: ${DEFAULT_OFFER_DAYS})
+  --json                 Print the recorded days as JSON
+`,
+  configKeys: ["profileName", "json"],
+  options: [{ name: "days", flags: ["--days"], type: "number" }],
+  async run({ loaded }) {
+    const days = loaded.options.days ?? DEFAULT_OFFER_DAYS;
+    if (typeof days !== "number" || !Number.isInteger(days) || days <= 0) {
+      console.error(
+        `Error: Invalid --days value: "${String(days)}". Expected a positive integer.`,
+      );
+      return ExitCode.Fatal;
+    }
+
+    const offers = new MetricsStore(
+      namespacedPath(METRICS_PATH, profileNamespace(loaded.config.profileName)),
+    ).getOffers();
+    process.stdout.write(
+      loaded.config.json
+        ? JSON.stringify(offers.slice(-days), null, 2) + "\n"
+        : formatDailyOffers(offers, days),
+    );
+    return ExitCode.Success;
+  },
+};
+
+const DEFAULT_ACTIVITY_DAYS = 7;
+
+/**
+ * Ledger entries trimmed to the days on or after `since` (YYYY-MM-DD);
+ * cards not attempted in that window are dropped.
+ */
+export function ledgerSince(
+  entries: LedgerEntry[],
+  since: string,
+): LedgerEntry[] {
+  return entries
+    .map((entry) => ({
+      ...entry,
+      days: entry.days.filter((d) => d.date >= since),
+    }))
+    .filter((entry) => entry.days.length > 0);
+}
+
+/**
+ * One row per card: totals over the entries' days, the last outcome, and
+ * whether the card is quarantined today.
+ */
+export function formatActivityLedger(
+  entries: LedgerEntry[],
+  options: { today: string; quarantineAfter: number },
+): string {
+  if (entries.length === 0) return "No activity attempts recorded yet.\n";
+
+  const headers = [
+    "Activity",
+    "Kind",
+    "Last attempt",
+    "Outcome",
+    "Attempts",
+    "Failures",
+    "Today",
+  ];
+  const rows = entries.map((entry) => {
+    const last = entry.days.at(-1)?.outcomes.at(-1);
+    const failuresToday =
+      entry.days.find((d) => d.date === options.today)?.failures ?? 0;
+    return [
+      entry.title,
+      entry.kind,
+      entry.lastAttempt.slice(0, 16).replace("T", " "),
+      last?.status ?? "-",
+      String(entry.days.reduce((sum, d) => sum + d.attempts, 0)),
+      String(entry.days.reduce((sum, d) => sum + d.failures, 0)),
+      failuresToday >= options.quarantineAfter
+        ? "quarantined"
+        : failuresToday > 0
+          ? `${failuresToday} failed`
+          : "-",
+    ];
+  });
+  const widths = headers.map((h, i) =>
+    Math.max(h.length, ...rows.map((r) => r[i]!.length)),
+  );
+  const line = (cells: string[]) =>
+    `  ${cells.map((c, i) => c.padEnd(widths[i]!)).join("  ")}`.trimEnd();
+
+  return (
+    [
+      line(headers),
+      line(widths.map((w) => "-".repeat(w))),
+      ...rows.map(line),
+    ].join("\n") + "\n"
+  );
+}
+
+export const metricsActivitiesCommand: Command = {
+  path: ["metrics", "activities"],
+  summary: "Show attempts and outcomes per dashboard card",
+  help: `
+Usage: ${PROGRAM} metrics activities [options]
+
+Every card a handler acts on is recorded in the activity ledger
+(${ACTIVITY_LEDGER_PATH}) under a stable identity: its offer id, or its link
+plus title. A card that failed --quarantine-after times today is skipped until
+tomorrow; the Today column shows which.
+
+Options:
+  -p, --profile <name>    Show one Edge profile's activities
+  --days <n>              Number of days to include (default: ${DEFAULT_ACTIVITY_DAYS})
+  --quarantine-after <n>  Failures that quarantine a card (default: from config)
+  --json                  Print the ledger entries as JSON
+`,
+  configKeys: ["profileName", "json", "quarantineAfterFailures"],
+  options: [{ name: "days", flags: ["--days"], type: "number" }],
+  async run({ loaded }) {
+    const days = loaded.options.days ?? DEFAULT_ACTIVITY_DAYS;
+    if (typeof days !== "number" || !Number.isInteger(days) || days <= 0) {
+      console.error(
+        `Error: Invalid --days value: "${String(days)}". Expected a positive integer.`,
+      );
+      return ExitCode.Fatal;
+    }
+
+    const config = loaded.config;
+    const ledger = new ActivityLedger({
+      filePath: ACTIVITY_LEDGER_PATH,
+      // The key runs record under: the Edge folder, or the user data dir
+      profileKey: profileNamespace(config.profileName) ?? config.userDataDir,
+    });
+    const now = new Date();
+    const since = new Date(now.getTime() - (days - 1) * 86_400_000)
+      .toISOString()
+      .split("T")[0]!;
+    const entries = ledgerSince(ledger.list(), since);
+    process.stdout.write(
+      config.json
+        ? JSON.stringify(entries, null, 2) + "\n"
+        : formatActivityLedger(entries, {
+            today: now.toISOString().split("T")[0]!,
+            quarantineAfter: config.quarantineAfterFailures,
+          }),
+    );
+    return ExitCode.Success;
+  },
+};
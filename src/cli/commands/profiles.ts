@@ -0,0 +1,94 @@
+import { existsSync } from "fs";
+import { AcknowledgementStore, isTestProfile } from "../../core/safety";
+import { MetricsStore, namespacedPath } from "../../utils/storage";
+import {
+  printProfiles,
+  scanEdgeProfiles,
+  getAgentProfileDir,
+} from "../../utils/edge-profiles";
+import { ExitCode } from "../../types";
+import { PROGRAM, type Command } from "../command";
+import { METRICS_PATH } from "../paths";
+
+export const profilesListCommand: Command = {
+  path: ["profiles", "list"],
+  summary: "List Edge profiles found on this machine",
+  help: `
+Usage: ${PROGRAM} profiles list
+
+Lists the Edge profiles in the system Edge user data directory.
+Use any of the listed names with "run --profile".
+`,
+  configKeys: [],
+  async run() {
+    printProfiles();
+    return ExitCode.Success;
+  },
+};
+
+export const profilesShowCommand: Command = {
+  path: ["profiles", "show"],
+  summary: "Show one profile's details, agent copy and run state",
+  help: `
+Usage: ${PROGRAM} profiles show <name>
+
+Shows an Edge profile (matched by display name, email, account name or folder),
+where the agent keeps its isolated copy, whether the Terms of Service notice was
+acknowledged, and a short metrics summary.
+
+Example:
+  ${PROGRAM} profiles show "Work"
+`,
+  configKeys: ["testProfiles"],
+  maxArgs: 1,
+  async run({ loaded, args }) {
+    const name = args[0];
+    if (!name) {
+      console.error(
+        `Error: Missing profile name. Usage: ${PROGRAM} profiles show <name>`,
+      );
+      return ExitCode.Fatal;
+    }
+
+    const lower = name.toLowerCase();
+    const profile = scanEdgeProfiles().find((p) =>
+      [p.displayName, p.email, p.gaiaName, p.folderName].some(
+        (n) => n.toLowerCase() === lower,
+      ),
+    );
+    if (!profile) {
+      console.error(`Error: No Edge profile found matching "${name}".`);
+      console.error(
+        `Run "${PROGRAM} profiles list" to see available profiles.`,
+      );
+      return ExitCode.Fatal;
+    }
+
+    const agentDir = getAgentProfileDir(profile.folderName);
+    const names = [
+      profile.displayName,
+      profile.email,
+      profile.gaiaName,
+      profile.folderName,
+    ].filter(Boolean);
+    const summary = new MetricsStore(
+      namespacedPath(METRICS_PATH, profile.folderName),
+    ).getSummary();
+
+    console.log(`\nProfile "${profile.displayName || profile.folderName}"\n`);
+    console.log(`  Folder:        ${profile.folderName}`);
+    console.log(`  Email:         ${profile.email || "-"}`);
+    console.log(`  Account Name:  ${profile.gaiaName || "-"}`);
+    console.log(
+      `  Agent Copy:    ${agentDir}${existsSync(agentDir) ? "" : " (not created yet)"}`,
+    );
+    console.log(
+      `  TOS Notice:    ${new AcknowledgementStore().has(profile.folderName) ? "acknowledged" : "not acknowledged"}`,
+    );
+    console.log(
+      `  Test Account:  ${isTestProfile(loaded.config, { key: profile.folderName, names }) ? "yes" : "no"}`,
+    );
+    console.log(`  Runs Recorded: ${summary.totalRuns}`);
+    return ExitCode.Success;
+  },
+};
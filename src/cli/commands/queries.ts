@@ -0,0 +1,82 @@
+import { createQueryGenerator } from "../../utils/query-generator";
+import { QUERY_HISTORY_PATH, QueryHistory } from "../../utils/query-history";
+import { Random } from "../../utils/random";
+import { ExitCode } from "../../types";
+import { PROGRAM, type Command } from "../command";
+import { profileNamespace } from "../paths";
+
+export const queriesPreviewCommand: Command = {
+  path: ["queries", "preview"],
+  summary: "Show the search queries the next run would generate",
+  help: `
+Usage: ${PROGRAM} queries preview [options]
+
+Generates queries the way a run would, from the bundled corpus for the
+configured locale, leaving out queries the profile searched within
+--query-history-days (history: ${QUERY_HISTORY_PATH}). Nothing is searched
+and the history is not changed. With a run's --seed and the same history,
+the list matches that run's desktop searches.
+
+Options:
+  -p, --profile <name>      Use this Edge profile's query history
+  -u, --user-data-dir       Use the query history of this browser user data directory
+  --count <n>               Number of queries to show (default: --searches)
+  --query-generator <g>     Search query generator (default: local)
+  --query-locale <l>        Corpus locale: en-US, en-GB, de-DE, fr-FR, es-ES (default: en-US)
+  --query-history-days <n>  Days before a searched query may repeat (default: 14)
+  --seed <n>                Seed of the run whose desktop queries to show
+  --json                    Print the queries as a JSON array
+
+Example:
+  ${PROGRAM} queries preview --query-locale de-DE --count 5
+`,
+  configKeys: [
+    "profileName",
+    "userDataDir",
+    "json",
+    "randomSeed",
+    "handlers.search.maxSearches",
+    "handlers.search.generator",
+    "handlers.search.locale",
+    "handlers.search.historyDays",
+  ],
+  options: [{ name: "count", flags: ["--count"], type: "number" }],
+  async run({ loaded }) {
+    const config = loaded.config;
+    const search = config.handlers.search;
+    const count = loaded.options.count ?? search.maxSearches;
+    if (typeof count !== "number" || !Number.isInteger(count) || count <= 0) {
+      console.error(
+        `Error: Invalid --count value: "${String(count)}". Expected a positive integer.`,
+      );
+      return ExitCode.Fatal;
+    }
+
+    const history = new QueryHistory({
+      filePath: QUERY_HISTORY_PATH,
+      // The key runs record under: the Edge folder, or the user data dir
+      profileKey: profileNamespace(config.profileName) ?? config.userDataDir,
+      days: search.historyDays,
+    });
+    // The stream the desktop SearchHandler shuffles with (see the registry)
+    const generator = createQueryGenerator(
+      search.generator,
+      new Random(config.randomSeed).derive("search"),
+      { locale: search.locale, history },
+    );
+    const queries = await generator.generate(count);
+
+    if (config.json) {
+      process.stdout.write(JSON.stringify(queries, null, 2) + "\n");
+      return ExitCode.Success;
+    }
+    console.log(
+      `${queries.length} queries from the ${generator.name} generator (${search.locale}); ` +
+        `${history.recent().size} searched in the last ${search.historyDays} days are left out`,
+    );
+    for (const [index, query] of queries.entries()) {
+      console.log(`${String(index + 1).padStart(3, " ")}. ${query}`);
+    }
+    return ExitCode.Success;
+  },
+};
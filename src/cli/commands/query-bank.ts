@@ -0,0 +1,99 @@
+import {
+  buildQueryBank,
+  cosineSimilarity,
+  embed,
+  loadQueryBank,
+} from "../../utils/embeddings";
+import { ExitCode } from "../../types";
+import { PROGRAM, type Command } from "../command";
+
+const DEFAULT_TOP_K = 5;
+
+// Sample phrases used when `query-bank debug` gets no sentences
+const DEFAULT_SENTENCES: string[] = [
+  "translate any word you want",
+  "the meaning of a word you do not understand",
+];
+
+export const queryBankBuildCommand: Command = {
+  path: ["query-bank", "build"],
+  summary: "Regenerate data/query-bank.json from the search intents",
+  help: `
+Usage: ${PROGRAM} query-bank build
+
+Embeds every intent in src/utils/search-intents.ts and writes data/query-bank.json.
+Without it, the bank is built automatically on the first run that needs it.
+`,
+  configKeys: [],
+  async run() {
+    await buildQueryBank();
+    return ExitCode.Success;
+  },
+};
+
+export const queryBankDebugCommand: Command = {
+  path: ["query-bank", "debug"],
+  summary: "Show the closest query-bank matches for sentences",
+  help: `
+Usage: ${PROGRAM} query-bank debug [options] [sentence...]
+
+Ranks query-bank entries by embedding similarity to each sentence.
+Without sentences, a couple of built-in samples are used.
+
+Options:
+  -k, --top <n>          Number of matches to show per sentence (default: ${DEFAULT_TOP_K})
+
+Example:
+  ${PROGRAM} query-bank debug --top 8 "best cheap flights" "latest nfl highlights"
+`,
+  configKeys: [],
+  options: [{ name: "top", flags: ["--top", "-k"], type: "number" }],
+  maxArgs: Infinity,
+  async run({ loaded, args }) {
+    const topK = loaded.options.top ?? DEFAULT_TOP_K;
+    if (typeof topK !== "number" || !Number.isInteger(topK) || topK <= 0) {
+      console.error(
+        `Error: Invalid --top value: "${String(topK)}". Expected a positive integer.`,
+      );
+      return ExitCode.Fatal;
+    }
+    const sentences = args.length > 0 ? args : DEFAULT_SENTENCES;
+
+    const queryBank = await loadQueryBank();
+    if (queryBank.length === 0) {
+      console.error(
+        `Error: Query bank is empty. Rebuild with: ${PROGRAM} query-bank build`,
+      );
+      return ExitCode.Fatal;
+    }
+
+    const limit = Math.min(topK, queryBank.length);
+    console.log(
+      `[QueryBank Debug] Loaded ${queryBank.length} entries. Showing top ${limit}.`,
+    );
+
+    for (const sentence of sentences) {
+      const sentenceEmbedding = await embed(sentence);
+      const rankedMatches = queryBank
+        .map((entry) => ({
+          intent: entry.intent,
+          searchTerm: entry.searchTerm,
+          score: cosineSimilarity(sentenceEmbedding, entry.embedding),
+        }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+
+      console.log(
+        "\n============================================================",
+      );
+      console.log(`Input: ${sentence}`);
+      for (const [index, match] of rankedMatches.entries()) {
+        const rank = String(index + 1).padStart(2, " ");
+        console.log(
+          `${rank}. score=${match.score.toFixed(4)}  searchTerm="${match.searchTerm}"  intent="${match.intent}"`,
+        );
+      }
+    }
+    return ExitCode.Success;
+  },
+};
@@ -0,0 +1,553 @@
+import { BrowserAdapter } from "../../core/browser-adapter";
+import { Controller, type HandlerRunRecord } from "../../core/controller";
+import { Scheduler, runDaemon } from "../../core/scheduler";
+import { RateLimiter } from "../../core/rate-limiter";
+import { QUOTA_PATH, QuotaStore, QuotaTracker } from "../../core/quota";
+import {
+  runBatch,
+  runProfileOnce,
+  resolveBatchProfileNames,
+  formatBatchSummary,
+  type ProfileRunSummary,
+} from "../../core/batch";
+import { ensureLoggedIn } from "../../core/session";
+import { buildRunReport } from "../../core/report";
+import {
+  AcknowledgementStore,
+  SafetyGateError,
+  ensureLiveRunAllowed,
+  liveProfileFor,
+  type LiveProfile,
+} from "../../core/safety";
+import { DEFAULT_CONFIG_FILE, type LoadedConfig } from "../../core/config";
+import {
+  DEFAULT_SELECTORS_FILE,
+  SelectorPackError,
+  loadSelectorPack,
+  type SelectorPack,
+} from "../../core/selectors";
+import { MetricsStore, namespacedPath } from "../../utils/storage";
+import { Random, createSeed } from "../../utils/random";
+import {
+  resolveBrowserExecutable,
+  BrowserNotFoundError,
+  type BrowserLaunchTarget,
+} from "../../utils/browser-executable";
+import { initLogger, Logger } from "../../utils/logger";
+import {
+  resolveProfileByName,
+  copyProfileToIsolated,
+  isEdgeRunning,
+} from "../../utils/edge-profiles";
+import { ExitCode, type ExtendedConfig } from "../../types";
+import { PROGRAM, type Command } from "../command";
+import { METRICS_PATH, LOG_PATH, profileNamespace } from "../paths";
+
+/**
+ * Launches the browser, runs every enabled handler once and prints the summary.
+ * Throws NotLoggedInError for a signed-out profile and rethrows fatal errors.
+ */
+async function runOnce(
+  config: ExtendedConfig,
+  deps: { metrics: MetricsStore; logger: Logger; selectors: SelectorPack },
+): Promise<HandlerRunRecord[]> {
+  const random = new Random(config.randomSeed);
+  const browser = new BrowserAdapter(random, { replayDir: config.replayDir });
+  const limiter = new RateLimiter({
+    maxActionsPerHour: config.maxActionsPerHour,
+    profileKey: config.profileDir ?? config.userDataDir,
+    // Replays spend no real budget
+    filePath: config.replayDir ? undefined : "./.rewards-ratelimit.json",
+    dryRun: config.dryRun,
+  });
+  const quota = new QuotaTracker(
+    new QuotaStore({
+      // A replayed breakdown is not today's progress
+      filePath: config.replayDir ? undefined : QUOTA_PATH,
+      profileKey: config.profileDir ?? config.userDataDir,
+    }),
+  );
+  const controller = new Controller(
+    { browser, config, limiter, random, selectors: deps.selectors, quota },
+    deps,
+  );
+  deps.logger.info("Run started", {
+    meta: { seed: random.seed, profile: config.profileName ?? "default" },
+  });
+
+  try {
+    // Validate handlerOrder before paying for a browser launch
+    controller.getPlan();
+
+    // Initialize browser with the user profile
+    await browser.init(
+      config.userDataDir,
+      config.headless,
+      config.profileDir,
+      resolveBrowserExecutable(config),
+    );
+    const page = browser.getPage();
+    await ensureLoggedIn(page);
+
+    const records = await controller.run(page);
+    controller.printSummary(records);
+    return records;
+  } finally {
+    await browser.close();
+  }
+}
+
+/**
+ * Copies the named Edge profile into its isolated agent directory and returns a
+ * config pointing at the copy. Throws when no profile matches.
+ */
+export function useEdgeProfile(
+  config: ExtendedConfig,
+  name: string,
+): ExtendedConfig {
+  const resolved = resolveProfileByName(name);
+  if (!resolved) {
+    throw new Error(`No Edge profile found matching "${name}".`);
+  }
+
+  // Warn if Edge is running (profile data may be incomplete)
+  if (isEdgeRunning()) {
+    console.log(
+      "Note: Edge is currently running. Profile data will be copied from the latest saved state.",
+    );
+  }
+
+  // Copy profile to an isolated directory to avoid lock conflicts with running Edge
+  console.log(`Using Edge profile: "${name}" (folder: ${resolved.profileDir})`);
+  return {
+    ...config,
+    profileName: name,
+    userDataDir: copyProfileToIsolated(resolved.profileDir),
+    profileDir: resolved.profileDir,
+  };
+}
+
+/**
+ * Gives one run its seed: the --seed value when set, else a fresh one, so
+ * daemon runs and batch profiles never share a random stream.
+ */
+function seedRun(config: ExtendedConfig): {
+  config: ExtendedConfig;
+  seed: number;
+} {
+  const seed = config.randomSeed ?? createSeed();
+  return { config: { ...config, randomSeed: seed }, seed };
+}
+
+/**
+ * Runs the single configured profile, reporting a crash or sign-out the way
+ * batch runs do instead of throwing.
+ */
+async function runSingleOnce(
+  config: ExtendedConfig,
+  deps: { metrics: MetricsStore; logger: Logger; selectors: SelectorPack },
+): Promise<ProfileRunSummary> {
+  const seeded = seedRun(config);
+  const summary: ProfileRunSummary = {
+    ...(await runProfileOnce(config.profileName ?? "default", () =>
+      runOnce(seeded.config, deps),
+    )),
+    seed: seeded.seed,
+  };
+  if (summary.status === "not-logged-in") {
+    console.error(`Error: ${summary.error}`);
+    deps.logger.error("Not logged in", summary.error);
+  } else if (summary.status === "error") {
+    console.error("Fatal Error:", summary.error);
+    deps.logger.error("Fatal error occurred", summary.error);
+  }
+  return summary;
+}
+
+/**
+ * Sends console.log to stderr so stdout carries only the JSON report.
+ * Returns a function that restores it.
+ */
+function redirectConsoleToStderr(): () => void {
+  const original = console.log;
+  console.log = (...args: unknown[]) => console.error(...args);
+  return () => {
+    console.log = original;
+  };
+}
+
+/**
+ * Runs every batch profile in turn, each with its own isolated copy,
+ * metrics file and log file, then prints the combined summary.
+ */
+async function runBatchOnce(
+  config: ExtendedConfig,
+  profiles: string[],
+  logger: Logger,
+  selectors: SelectorPack,
+): Promise<ProfileRunSummary[]> {
+  logger.info("Batch started", { meta: { profiles } });
+  const gapRandom = new Random(config.randomSeed);
+  const seeds = new Map<string, number>();
+  const results = await runBatch(
+    profiles,
+    async (name) => {
+      const seeded = seedRun(config);
+      seeds.set(name, seeded.seed);
+      const profileConfig = useEdgeProfile(seeded.config, name);
+      const profileLogger = new Logger({
+        filePath: namespacedPath(LOG_PATH, profileConfig.profileDir),
+        minLevel: config.dryRun ? "debug" : "info",
+      });
+      try {
+        return await runOnce(profileConfig, {
+          metrics: new MetricsStore(
+            namespacedPath(METRICS_PATH, profileConfig.profileDir),
+          ),
+          logger: profileLogger,
+          selectors,
+        });
+      } finally {
+        profileLogger.close();
+      }
+    },
+    {
+      minGapMs: config.batch.minGapSeconds * 1000,
+      maxGapMs: config.batch.maxGapSeconds * 1000,
+      random: () => gapRandom.next(),
+    },
+  );
+  const summaries = results.map((summary) => ({
+    ...summary,
+    seed: seeds.get(summary.profile),
+  }));
+  console.log(formatBatchSummary(summaries));
+  logger.info("Batch finished", {
+    meta: {
+      profiles: summaries.map(({ profile, status }) => ({ profile, status })),
+    },
+  });
+  return summaries;
+}
+
+/**
+ * What a batch daemon's Scheduler consults to skip a window: it counts as
+ * done once every batch profile's own metrics show a successful run in it.
+ */
+function batchMetrics(
+  profiles: string[],
+): Pick<MetricsStore, "hasSuccessfulRunBetween"> {
+  const stores = profiles.map(
+    (name) =>
+      new MetricsStore(namespacedPath(METRICS_PATH, profileNamespace(name))),
+  );
+  return {
+    hasSuccessfulRunBetween: (fromMs, toMs) =>
+      stores.every((store) => store.hasSuccessfulRunBetween(fromMs, toMs)),
+  };
+}
+
+/**
+ * The run command body: resolves profiles and browser, passes the safety gate,
+ * then runs once or as a daemon. Returns the exit code.
+ */
+async function executeRun(loaded: LoadedConfig): Promise<number> {
+  // Without --seed, every run and batch profile gets its own (see seedRun)
+  let config: ExtendedConfig = loaded.config;
+
+  const batchProfiles = resolveBatchProfileNames(config);
+  if (config.allProfiles && batchProfiles.length === 0) {
+    console.error("Error: --all-profiles found no Edge profiles.");
+    return ExitCode.Fatal;
+  }
+
+  // Resolve --profile to an actual Edge profile directory
+  if (config.profileName) {
+    try {
+      config = useEdgeProfile(config, config.profileName);
+    } catch (err) {
+      console.error(`Error: ${err instanceof Error ? err.message : err}`);
+      console.error(
+        `Run "${PROGRAM} profiles list" to see available profiles.`,
+      );
+      return ExitCode.Fatal;
+    }
+  }
+
+  // Each profile keeps its own metrics and log files; replays keep theirs apart
+  const namespace = config.replayDir
+    ? "replay"
+    : (config.profileDir ?? profileNamespace(config.profileName));
+  const metrics = new MetricsStore(namespacedPath(METRICS_PATH, namespace));
+  const logger = initLogger({
+    filePath: namespacedPath(LOG_PATH, namespace),
+    minLevel: config.dryRun ? "debug" : "info",
+  });
+
+  // A broken override file would silently break every handler, so stop here
+  let selectors: SelectorPack;
+  try {
+    selectors = loadSelectorPack({ overridePath: config.selectorsFile });
+  } catch (err) {
+    if (err instanceof SelectorPackError) {
+      console.error(`Error: ${err.message}`);
+      logger.close();
+      return ExitCode.Fatal;
+    }
+    throw err;
+  }
+
+  // Fail before any profile work when there is no browser to launch
+  let browserTarget: BrowserLaunchTarget;
+  try {
+    browserTarget = resolveBrowserExecutable(config);
+  } catch (err) {
+    if (err instanceof BrowserNotFoundError) {
+      console.error(`Error: ${err.message}`);
+      logger.close();
+      return ExitCode.Fatal;
+    }
+    throw err;
+  }
+
+  console.log("MS Rewards Agent Starting...");
+  console.log(
+    `  Mode: ${config.replayDir ? `REPLAY (${config.replayDir})` : config.dryRun ? "DRY-RUN (no real actions)" : "LIVE"}`,
+  );
+  if (batchProfiles.length > 0) {
+    console.log(`  Batch Profiles: ${batchProfiles.join(", ")}`);
+  } else {
+    console.log(`  User Data: ${config.userDataDir}`);
+  }
+  if (config.profileDir) {
+    console.log(`  Edge Profile: ${config.profileName} (${config.profileDir})`);
+  }
+  console.log(
+    `  Browser: ${browserTarget.executablePath ?? "bundled Chromium"}${config.headless ? " (headless)" : ""}`,
+  );
+  console.log(`  Max Actions/Hour: ${config.maxActionsPerHour}`);
+  console.log(`  Seed: ${config.randomSeed ?? "fresh per run"}`);
+  console.log(`  Skip Clicks: ${config.skipClicks}`);
+  console.log(
+    `  Selectors: v${selectors.version}${selectors.overrideFile ? ` + ${selectors.overrideFile}` : ""}`,
+  );
+  for (const warning of selectors.warnings) {
+    console.log(`  Warning: ${warning}`);
+  }
+  if (loaded.configFile) {
+    console.log(`  Config File: ${loaded.configFile}`);
+  }
+  // A batch daemon runs all its profiles in one job, on the "batch" schedule
+  const scheduleKey =
+    batchProfiles.length > 0 ? "batch" : (config.profileName ?? "default");
+  const windows =
+    config.schedule.profiles[scheduleKey] ?? config.schedule.windows;
+  if (config.daemon) {
+    console.log(`  Daemon: windows ${windows.join(", ")} (${scheduleKey})`);
+  }
+  console.log("");
+
+  if (!config.dryRun && !config.replayDir) {
+    console.log(
+      "⚠️  WARNING: Running in LIVE mode. Actions will be performed.",
+    );
+    console.log("⚠️  Use --dry-run for safe testing.");
+    console.log("");
+  }
+
+  // Live runs need a per-profile TOS acknowledgement and --confirm for real accounts
+  const liveProfiles: LiveProfile[] =
+    batchProfiles.length > 0
+      ? batchProfiles.map((name) => {
+          const folder = profileNamespace(name)!;
+          return { key: folder, names: [name, folder] };
+        })
+      : [liveProfileFor(config)];
+  try {
+    await ensureLiveRunAllowed({
+      config,
+      profiles: liveProfiles,
+      store: new AcknowledgementStore(),
+      interactive: Boolean(process.stdin.isTTY),
+    });
+  } catch (err) {
+    if (err instanceof SafetyGateError) {
+      console.error(`Error: ${err.message}`);
+      logger.close();
+      return err.exitCode;
+    }
+    throw err;
+  }
+
+  const job = async (): Promise<number> => {
+    const startedAt = new Date();
+    const summaries =
+      batchProfiles.length > 0
+        ? await runBatchOnce(config, batchProfiles, logger, selectors)
+        : [await runSingleOnce(config, { metrics, logger, selectors })];
+    const report = buildRunReport(config, summaries, {
+      startedAt,
+      finishedAt: new Date(),
+    });
+    if (config.json) {
+      process.stdout.write(`${JSON.stringify(report)}\n`);
+    }
+    return report.exitCode;
+  };
+
+  if (config.daemon) {
+    let scheduler: Scheduler;
+    try {
+      scheduler = new Scheduler({
+        windows,
+        profileKey: scheduleKey,
+        filePath: "./.rewards-schedule.json",
+        metrics:
+          batchProfiles.length > 0 ? batchMetrics(batchProfiles) : metrics,
+      });
+    } catch (err) {
+      console.error(`Error: ${err instanceof Error ? err.message : err}`);
+      logger.close();
+      return ExitCode.Fatal;
+    }
+
+    const stop = new AbortController();
+    const shutdown = () => {
+      console.log("\n[Daemon] Stopping after the current step...");
+      stop.abort();
+    };
+    process.once("SIGINT", shutdown);
+    process.once("SIGTERM", shutdown);
+
+    logger.info("Daemon started", {
+      meta: {
+        profile: scheduleKey,
+        windows,
+        ...(batchProfiles.length > 0 ? { batchProfiles } : {}),
+      },
+    });
+    await runDaemon(
+      scheduler,
+      async () => {
+        await job();
+      },
+      { signal: stop.signal },
+    );
+    console.log("\nDaemon stopped.");
+    logger.info("Daemon stopped");
+    logger.close();
+    return ExitCode.Success;
+  }
+
+  try {
+    const exitCode = await job();
+
+    // Keep open briefly to inspect
+    await new Promise((r) => setTimeout(r, 3000));
+    return exitCode;
+  } catch (err) {
+    console.error("Fatal Error:", err);
+    logger.error(
+      "Fatal error occurred",
+      err instanceof Error ? err : String(err),
+    );
+    return ExitCode.Fatal;
+  } finally {
+    console.log("\nAgent finished.");
+    logger.info("Agent finished");
+    logger.close();
+  }
+}
+
+export const runCommand: Command = {
+  path: ["run"],
+  summary: "Run the enabled handlers (default when no command is given)",
+  help: `
+Usage: ${PROGRAM} run [options]
+
+Runs every enabled handler once, or on a schedule with --daemon.
+
+Options:
+  -c, --config <path>    Config file (default: ./${DEFAULT_CONFIG_FILE} if present)
+  -d, --dry-run          Log actions without executing (safe mode)
+  -u, --user-data-dir    Path to browser user data directory (default: Edge profile)
+  -p, --profile <name>   Use a specific Edge profile (by display name, email, or account name)
+  --profiles <a,b,c>     Run several Edge profiles one after another
+  --all-profiles         Run every Edge profile found on this machine
+  -m, --max-actions      Maximum actions per hour (default: 30)
+  --max-clicks <n>       Maximum activities clicked per run (default: 20)
+  --searches <n>         Bing searches per run if the search quota is unknown (default: 10)
+  --query-generator <g>  Search query generator (default: local)
+  --query-locale <l>     Query corpus locale: en-US, en-GB, de-DE, fr-FR, es-ES (default: en-US)
+  --query-history-days <n>
+                         Days before a searched query may repeat; 0 keeps no history (default: 14)
+  --mobile               Also search from an emulated phone (mobilesearch handler)
+  --mobile-searches <n>  Mobile searches per run if the quota is unknown (default: 10)
+  --mobile-device <name> Playwright device to emulate (default: "Pixel 7")
+  --engagement[=off]     Read search results: scroll, maybe open a result (default: on)
+  --open-result-chance <p>
+                         Chance (0-1) of opening an organic result (default: 0.3)
+  --discovery <s>        How to find activities: network (dashboard data, falls back
+                         to the page) or dom (default: network)
+  --handlers <ids>       Comma-separated handlers to run, in order (default: quiz,click,punchcard,search,mobilesearch)
+  --skip-clicks          Skip click activities
+  --activity-kinds <k>   Activity kinds handlers may act on (default: all), from
+                         url-reward, search, quiz, poll, this-or-that, punch-card, promotional
+  --quarantine-after <n> Skip a card for the day after n failed attempts (default: 3)
+  --daemon               Stay running and start a run at a random time in each schedule window
+  --schedule <windows>   Daily windows for --daemon, e.g. "08:00-10:00,18:00-20:00" (default: 09:00-11:00)
+  --confirm              Allow a live run on profiles not listed in testProfiles
+  --test-profiles <a,b>  Profiles that are test accounts (live runs need no --confirm)
+  --headless             Run the browser without a window
+  --channel <name>       Browser: msedge, msedge-beta or chromium (default: msedge)
+  --executable-path <p>  Browser binary to launch (overrides --channel detection)
+  --seed <n>             Seed for all random delays and choices, to reproduce a run
+  --json                 Print a JSON run report on stdout (other output goes to stderr)
+  --replay <dir>         Run offline against a snapshot saved by "snapshot"
+  --selectors <path>     Selector override file (default: ./${DEFAULT_SELECTORS_FILE} if present)
+  -h, --help             Show this help message
+
+Environment overrides (CLI flags take precedence):
+  REWARDS_CONFIG, REWARDS_DRY_RUN, REWARDS_USER_DATA_DIR, REWARDS_PROFILE,
+  REWARDS_MAX_ACTIONS, REWARDS_MAX_CLICKS, REWARDS_SKIP_CLICKS, REWARDS_HANDLERS,
+  REWARDS_DAEMON, REWARDS_SCHEDULE, REWARDS_PROFILES, REWARDS_TEST_PROFILES,
+  REWARDS_SEED, REWARDS_HEADLESS, REWARDS_CHANNEL, REWARDS_EXECUTABLE_PATH,
+  REWARDS_JSON, REWARDS_SELECTORS, REWARDS_REPLAY, REWARDS_ACTIVITY_KINDS,
+  REWARDS_QUARANTINE_AFTER, REWARDS_DISCOVERY, REWARDS_SEARCHES,
+  REWARDS_QUERY_GENERATOR, REWARDS_QUERY_LOCALE, REWARDS_QUERY_HISTORY_DAYS,
+  REWARDS_MOBILE, REWARDS_MOBILE_SEARCHES, REWARDS_MOBILE_DEVICE,
+  REWARDS_ENGAGEMENT, REWARDS_OPEN_RESULT_CHANCE
+
+Exit codes:
+  0  every handler succeeded or was skipped
+  1  fatal error (bad options, no browser, every profile crashed)
+  2  partial failure: a handler or a batch profile failed
+  3  TOS notice not acknowledged (non-interactive live run)
+  4  live run on a real account without --confirm
+  5  a profile is not signed in to Microsoft Rewards
+
+Examples:
+  ${PROGRAM} run --dry-run
+  ${PROGRAM} run -u ./my_profile -m 20
+  ${PROGRAM} run --profile "Profile 2" --dry-run
+  ${PROGRAM} run --profile "Work" --confirm
+  ${PROGRAM} run --dry-run --seed 12345
+  ${PROGRAM} run --dry-run --activity-kinds url-reward,search,quiz
+  ${PROGRAM} run --dry-run --headless --channel msedge-beta
+  ${PROGRAM} run --mobile --mobile-device "iPhone 13" --dry-run
+  ${PROGRAM} run --profiles "Work,Personal" --dry-run
+  ${PROGRAM} run --dry-run --json > report.json
+  ${PROGRAM} run --replay ./snapshots/dashboard --headless
+  ${PROGRAM} run --daemon --schedule "07:30-09:00,19:00-21:00"
+`,
+  async run({ loaded }) {
+    const restoreConsole = loaded.config.json
+      ? redirectConsoleToStderr()
+      : undefined;
+    try {
+      return await executeRun(loaded);
+    } finally {
+      restoreConsole?.();
+    }
+  },
+};
@@ -0,0 +1,160 @@
+import { BrowserAdapter } from "../../core/browser-adapter";
+import { NotLoggedInError, ensureLoggedIn } from "../../core/session";
+import {
+  DEFAULT_SELECTORS_FILE,
+  SelectorPackError,
+  checkSelectors,
+  loadSelectorPack,
+  type SelectorConceptCheck,
+  type SelectorPack,
+} from "../../core/selectors";
+import { resolveBrowserExecutable } from "../../utils/browser-executable";
+import { ExitCode, type ExtendedConfig } from "../../types";
+import { PROGRAM, type Command } from "../command";
+import { useEdgeProfile } from "./run";
+
+/**
+ * Renders the check as one block per concept, marking the selector in use.
+ */
+export function formatSelectorChecks(
+  pack: SelectorPack,
+  checks: SelectorConceptCheck[],
+): string {
+  const lines = [
+    `Selector pack: v${pack.version}${pack.overrideFile ? ` + ${pack.overrideFile}` : " (built-in)"}`,
+    ...pack.warnings.map((w) => `Warning: ${w}`),
+    "",
+  ];
+  for (const check of checks) {
+    const icon =
+      check.counts.length === 0
+        ? "-"
+        : check.active
+          ? "✓"
+          : check.required
+            ? "✗"
+            : "!";
+    const notes = [
+      check.source === "built-in" ? "" : "override",
+      check.required ? "required" : "",
+      check.counts.length === 0
+        ? "only on detail pages or dialogs, not checked"
+        : "",
+    ].filter(Boolean);
+    lines.push(
+      `  ${icon} ${check.concept}${notes.length > 0 ? ` (${notes.join(", ")})` : ""}`,
+    );
+    for (const { selector, matches } of check.counts) {
+      const marker = selector === check.active ? "→" : " ";
+      lines.push(`      ${marker} ${String(matches).padStart(4)}  ${selector}`);
+    }
+  }
+  return lines.join("\n");
+}
+
+async function runSelectorCheck(
+  config: ExtendedConfig,
+  pack: SelectorPack,
+): Promise<SelectorConceptCheck[]> {
+  const browser = new BrowserAdapter();
+  try {
+    await browser.init(
+      config.userDataDir,
+      config.headless,
+      config.profileDir,
+      resolveBrowserExecutable(config),
+    );
+    const page = browser.getPage();
+    await ensureLoggedIn(page);
+    return await checkSelectors(page, pack);
+  } finally {
+    await browser.close();
+  }
+}
+
+export const selectorsCheckCommand: Command = {
+  path: ["selectors", "check"],
+  summary: "Report which dashboard selectors match on the live dashboard",
+  help: `
+Usage: ${PROGRAM} selectors check [options]
+
+Opens the Rewards dashboard and counts what each selector in the selector
+pack matches. For every concept (card, completed marker, title, ...) the
+selector the handlers would use is marked with "→". When the dashboard
+changes, fix the broken concepts in an override file; no release needed.
+Exits non-zero when a required concept matches nothing.
+
+Options:
+  -c, --config <path>    Config file (default: ./rewards.config.json if present)
+  --selectors <path>     Selector override file (default: ./${DEFAULT_SELECTORS_FILE} if present)
+  -u, --user-data-dir    Path to browser user data directory
+  -p, --profile <name>   Use a specific Edge profile
+  --headless             Run the browser without a window
+  --channel <name>       Browser: msedge, msedge-beta or chromium (default: msedge)
+  --executable-path <p>  Browser binary to launch
+  --json                 Print the results as JSON
+
+Example:
+  ${PROGRAM} selectors check --profile "Work" --selectors ./my-selectors.json
+`,
+  configKeys: [
+    "selectorsFile",
+    "userDataDir",
+    "profileName",
+    "headless",
+    "channel",
+    "executablePath",
+    "json",
+  ],
+  async run({ loaded }) {
+    let pack: SelectorPack;
+    try {
+      pack = loadSelectorPack({ overridePath: loaded.config.selectorsFile });
+    } catch (err) {
+      if (err instanceof SelectorPackError) {
+        console.error(`Error: ${err.message}`);
+        return ExitCode.Fatal;
+      }
+      throw err;
+    }
+
+    let config = loaded.config;
+    if (config.profileName) {
+      try {
+        config = useEdgeProfile(config, config.profileName);
+      } catch (err) {
+        console.error(`Error: ${err instanceof Error ? err.message : err}`);
+        console.error(
+          `Run "${PROGRAM} profiles list" to see available profiles.`,
+        );
+        return ExitCode.Fatal;
+      }
+    }
+
+    let checks: SelectorConceptCheck[];
+    try {
+      checks = await runSelectorCheck(config, pack);
+    } catch (err) {
+      if (err instanceof NotLoggedInError) {
+        console.error(`Error: ${err.message}`);
+        return ExitCode.NotLoggedIn;
+      }
+      throw err;
+    }
+
+    const broken = checks.filter((c) => c.required && !c.active);
+    if (config.json) {
+      process.stdout.write(
+        `${JSON.stringify({ version: pack.version, overrideFile: pack.overrideFile, checks })}\n`,
+      );
+    } else {
+      console.log(formatSelectorChecks(pack, checks));
+      console.log(
+        broken.length > 0
+          ? `\n${broken.length} required concept(s) matched nothing: ${broken.map((c) => c.concept).join(", ")}`
+          : "\nAll required concepts matched.",
+      );
+    }
+    return broken.length > 0 ? ExitCode.Fatal : ExitCode.Success;
+  },
+};
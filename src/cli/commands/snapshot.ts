@@ -0,0 +1,161 @@
+import { resolve } from "path";
+import { BrowserAdapter } from "../../core/browser-adapter";
+import { RateLimiter } from "../../core/rate-limiter";
+import {
+  AcknowledgementStore,
+  SafetyGateError,
+  ensureLiveRunAllowed,
+  liveProfileFor,
+} from "../../core/safety";
+import { NotLoggedInError } from "../../core/session";
+import {
+  SelectorPackError,
+  loadSelectorPack,
+  type SelectorPack,
+} from "../../core/selectors";
+import { captureSnapshot } from "../../core/snapshot";
+import { resolveBrowserExecutable } from "../../utils/browser-executable";
+import { ExitCode } from "../../types";
+import { PROGRAM, type Command } from "../command";
+import { useEdgeProfile } from "./run";
+
+const DEFAULT_ACTIVITIES = 0;
+
+/** snapshots/2026-03-01T09-30-00 for a capture started at that time. */
+export function defaultSnapshotDir(now: Date = new Date()): string {
+  return `snapshots/${now.toISOString().slice(0, 19).replace(/:/g, "-")}`;
+}
+
+export const snapshotCommand: Command = {
+  path: ["snapshot"],
+  summary: "Save the live dashboard and activity pages for offline replay",
+  help: `
+Usage: ${PROGRAM} snapshot [dir] [options]
+
+Saves the rendered Rewards dashboard, and optionally the pages its first
+activity links open, to a fixtures directory (default: ./snapshots/<timestamp>).
+Scripts, form values, tokens, email addresses and secret URL parameters are
+stripped, so the result can be committed. Replay it with "run --replay <dir>".
+
+Opening an activity page can credit that activity, just like clicking it. So
+--activities passes the same safety gate as a live run (--confirm unless the
+profile is in testProfiles) and each page uses "click" rate-limit budget.
+
+Options:
+  --activities <n>       Activity pages to capture (default: ${DEFAULT_ACTIVITIES}, dashboard only)
+  --confirm              Allow --activities on profiles not listed in testProfiles
+  -m, --max-actions      Hourly action budget, shared with runs (default: 30)
+  --selectors <path>     Selector override file used to find activity cards
+  -u, --user-data-dir    Path to browser user data directory
+  -p, --profile <name>   Use a specific Edge profile
+  --headless             Run the browser without a window
+  --channel <name>       Browser: msedge, msedge-beta or chromium (default: msedge)
+  --executable-path <p>  Browser binary to launch
+
+Examples:
+  ${PROGRAM} snapshot --profile "Work"
+  ${PROGRAM} snapshot tests/fixtures/dashboard --activities 3 --confirm
+`,
+  configKeys: [
+    "selectorsFile",
+    "userDataDir",
+    "profileName",
+    "headless",
+    "channel",
+    "executablePath",
+    "maxActionsPerHour",
+    "confirm",
+    "testProfiles",
+  ],
+  options: [{ name: "activities", flags: ["--activities"], type: "number" }],
+  maxArgs: 1,
+  async run({ loaded, args }) {
+    const maxActivities = loaded.options.activities ?? DEFAULT_ACTIVITIES;
+    if (
+      typeof maxActivities !== "number" ||
+      !Number.isInteger(maxActivities) ||
+      maxActivities < 0
+    ) {
+      console.error(
+        `Error: --activities must be a whole number, got "${maxActivities}".`,
+      );
+      return ExitCode.Fatal;
+    }
+
+    let selectors: SelectorPack;
+    try {
+      selectors = loadSelectorPack({
+        overridePath: loaded.config.selectorsFile,
+      });
+    } catch (err) {
+      if (err instanceof SelectorPackError) {
+        console.error(`Error: ${err.message}`);
+        return ExitCode.Fatal;
+      }
+      throw err;
+    }
+
+    let config = loaded.config;
+    if (config.profileName) {
+      try {
+        config = useEdgeProfile(config, config.profileName);
+      } catch (err) {
+        console.error(`Error: ${err instanceof Error ? err.message : err}`);
+        console.error(
+          `Run "${PROGRAM} profiles list" to see available profiles.`,
+        );
+        return ExitCode.Fatal;
+      }
+    }
+
+    // Activity pages can credit the account, so they need the live-run gate
+    if (maxActivities > 0) {
+      try {
+        await ensureLiveRunAllowed({
+          config,
+          profiles: [liveProfileFor(config)],
+          store: new AcknowledgementStore(),
+          interactive: Boolean(process.stdin.isTTY),
+        });
+      } catch (err) {
+        if (err instanceof SafetyGateError) {
+          console.error(`Error: ${err.message}`);
+          return err.exitCode;
+        }
+        throw err;
+      }
+    }
+    const limiter = new RateLimiter({
+      maxActionsPerHour: config.maxActionsPerHour,
+      profileKey: config.profileDir ?? config.userDataDir,
+      filePath: "./.rewards-ratelimit.json",
+    });
+
+    const dir = resolve(args[0] ?? defaultSnapshotDir());
+    const browser = new BrowserAdapter();
+    try {
+      await browser.init(
+        config.userDataDir,
+        config.headless,
+        config.profileDir,
+        resolveBrowserExecutable(config),
+      );
+      const manifest = await captureSnapshot(browser.getPage(), dir, {
+        selectors: selectors.selectors,
+        maxActivities,
+        limiter,
+      });
+      console.log(`\nSaved ${manifest.pages.length} page(s) to ${dir}`);
+      console.log(`Replay with: ${PROGRAM} run --replay ${dir} --headless`);
+      return ExitCode.Success;
+    } catch (err) {
+      if (err instanceof NotLoggedInError) {
+        console.error(`Error: ${err.message}`);
+        return ExitCode.NotLoggedIn;
+      }
+      throw err;
+    } finally {
+      await browser.close();
+    }
+  },
+};
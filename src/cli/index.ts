@@ -0,0 +1,124 @@
+import {
+  executeCommand,
+  formatCommandList,
+  resolveCommand,
+  PROGRAM,
+  type Command,
+} from "./command";
+import { runCommand } from "./commands/run";
+import { profilesListCommand, profilesShowCommand } from "./commands/profiles";
+import {
+  metricsSummaryCommand,
+  metricsExportCommand,
+  metricsOffersCommand,
+  metricsActivitiesCommand,
+} from "./commands/metrics";
+import {
+  queryBankBuildCommand,
+  queryBankDebugCommand,
+} from "./commands/query-bank";
+import { queriesPreviewCommand } from "./commands/queries";
+import { doctorCommand } from "./commands/doctor";
+import { configPrintCommand } from "./commands/config";
+import { selectorsCheckCommand } from "./commands/selectors";
+import { snapshotCommand } from "./commands/snapshot";
+import { ExitCode } from "../types";
+
+export const COMMANDS: Command[] = [
+  runCommand,
+  profilesListCommand,
+  profilesShowCommand,
+  metricsSummaryCommand,
+  metricsExportCommand,
+  metricsOffersCommand,
+  metricsActivitiesCommand,
+  queryBankBuildCommand,
+  queryBankDebugCommand,
+  queriesPreviewCommand,
+  configPrintCommand,
+  selectorsCheckCommand,
+  snapshotCommand,
+  doctorCommand,
+];
+
+// Action flags from before subcommands existed, still accepted on their own
+const LEGACY_FLAGS: Record<string, string[]> = {
+  "--list-profiles": ["profiles", "list"],
+  "--metrics": ["metrics", "summary"],
+};
+
+function globalHelp(commands: Command[]): string {
+  return `
+MS Rewards Agent - Automated Microsoft Rewards collector
+
+Usage: ${PROGRAM} <command> [options]
+
+Commands:
+${formatCommandList(commands)}
+
+With no command, "run" is assumed, so "${PROGRAM} --dry-run" still works.
+Run "${PROGRAM} <command> --help" for a command's options.
+
+Examples:
+  ${PROGRAM} run --dry-run
+  ${PROGRAM} profiles list
+  ${PROGRAM} metrics summary --profile "Work"
+  ${PROGRAM} doctor
+`;
+}
+
+/**
+ * Entry point for all commands; returns the process exit code.
+ */
+export async function runCli(
+  argv: string[],
+  commands: Command[] = COMMANDS,
+  env?: NodeJS.ProcessEnv,
+): Promise<number> {
+  const legacy = argv.find((arg) => LEGACY_FLAGS[arg]);
+  if (legacy && (argv[0] === undefined || argv[0].startsWith("-"))) {
+    const replacement = LEGACY_FLAGS[legacy]!;
+    console.error(
+      `Note: ${legacy} is deprecated; use "${PROGRAM} ${replacement.join(" ")}".`,
+    );
+    argv = [...replacement, ...argv.filter((arg) => arg !== legacy)];
+  }
+
+  const defaultCommand = commands.find((c) => c.path.join(" ") === "run")!;
+  const isTopLevelHelp =
+    (argv[0] === "--help" || argv[0] === "-h" || argv[0] === "help") &&
+    argv.length === 1;
+  if (isTopLevelHelp) {
+    console.log(globalHelp(commands));
+    return ExitCode.Success;
+  }
+
+  const { command, rest, group } = resolveCommand(
+    argv,
+    commands,
+    defaultCommand,
+  );
+  if (!command) {
+    if (group) {
+      const members = commands.filter((c) => c.path[0] === group);
+      const helpOnly = rest.length === 1 && ["--help", "-h"].includes(rest[0]!);
+      const message = `\nUsage: ${PROGRAM} ${group} <subcommand>\n\nSubcommands:\n${formatCommandList(members)}\n`;
+      if (helpOnly) {
+        console.log(message);
+        return ExitCode.Success;
+      }
+      console.error(
+        rest[0] && !rest[0].startsWith("-")
+          ? `Error: Unknown subcommand "${group} ${rest[0]}".`
+          : `Error: "${group}" needs a subcommand.`,
+      );
+      console.error(message);
+      return ExitCode.Fatal;
+    }
+    console.error(`Error: Unknown command "${argv[0]}".`);
+    console.error(`Run "${PROGRAM} --help" to list commands.`);
+    return ExitCode.Fatal;
+  }
+
+  return executeCommand(command, rest, env);
+}
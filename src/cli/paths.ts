@@ -0,0 +1,13 @@
+import { resolveProfileByName } from "../utils/edge-profiles";
+
+export const METRICS_PATH = "./.rewards-metrics.json";
+export const LOG_PATH = "./.rewards.log";
+
+/**
+ * The namespace a named profile's metrics and log files live under
+ * (its Edge folder), or undefined for the default profile.
+ */
+export function profileNamespace(profileName?: string): string | undefined {
+  if (!profileName) return undefined;
+  return resolveProfileByName(profileName)?.profileDir ?? profileName;
+}
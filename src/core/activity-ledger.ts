@@ -0,0 +1,166 @@
+import { Storage } from "../utils/storage";
+import type { ActivityKind, ActivityOutcome } from "../types";
+import { snapshotKey } from "./snapshot";
+
+/** Outcomes the ledger records; deferred cards were never attempted. */
+export type LedgerStatus = Exclude<ActivityOutcome["status"], "deferred">;
+
+export interface LedgerAttempt {
+  /** When the outcome was recorded (ISO timestamp). */
+  at: string;
+  /** Registry id of the handler that acted on the card, e.g. "click". */
+  handler: string;
+  status: LedgerStatus;
+  /** Clicks spent, including verification retries. */
+  attempts: number;
+  points?: number;
+}
+
+export interface LedgerDay {
+  date: string;
+  attempts: number;
+  /** Outcomes that were "failed" or "not-credited". */
+  failures: number;
+  outcomes: LedgerAttempt[];
+}
+
+export interface LedgerEntry {
+  key: string;
+  title: string;
+  kind: ActivityKind;
+  firstSeen: string;
+  lastAttempt: string;
+  /** One entry per day the card was attempted, oldest first. */
+  days: LedgerDay[];
+}
+
+export interface ActivityLedgerData {
+  profiles: Record<string, Record<string, LedgerEntry>>;
+}
+
+export interface ActivityLedgerOptions {
+  /** Persist to this file; without it the ledger only lives for this process. */
+  filePath?: string;
+  /** Activities are tracked separately per profile. */
+  profileKey?: string;
+  now?: () => Date;
+}
+
+export const ACTIVITY_LEDGER_PATH = "./.rewards-activities.json";
+
+const HISTORY_DAYS = 30;
+
+/**
+ * A card's stable identity: its offer id when the card carries one, otherwise
+ * its link (secrets stripped, parameters sorted) plus its title.
+ */
+export function activityKey(card: {
+  offerId?: string;
+  url?: string;
+  title: string;
+}): string {
+  if (card.offerId) return `offer:${card.offerId}`;
+  const href = card.url ? snapshotKey(card.url) : "";
+  return `link:${href}|${card.title.trim()}`;
+}
+
+export function isLedgerFailure(status: LedgerStatus): boolean {
+  return status === "failed" || status === "not-credited";
+}
+
+/**
+ * Per-profile history of every dashboard card a handler acted on: attempts,
+ * outcomes and timestamps per day. A card that keeps failing today is
+ * quarantined until tomorrow instead of burning the hourly budget on it.
+ */
+export class ActivityLedger {
+  private storage: Storage<ActivityLedgerData> | null;
+  private memory: ActivityLedgerData = { profiles: {} };
+  private profileKey: string;
+  private now: () => Date;
+
+  constructor(options: ActivityLedgerOptions = {}) {
+    this.profileKey = options.profileKey ?? "default";
+    this.now = options.now ?? (() => new Date());
+    this.storage = options.filePath
+      ? new Storage<ActivityLedgerData>(options.filePath, { profiles: {} })
+      : null;
+  }
+
+  private read(): ActivityLedgerData {
+    return this.storage ? this.storage.reload() : this.memory;
+  }
+
+  private today(): string {
+    return this.now().toISOString().split("T")[0]!;
+  }
+
+  get(key: string): LedgerEntry | undefined {
+    return this.read().profiles[this.profileKey]?.[key];
+  }
+
+  /** Every recorded card, most recently attempted first. */
+  list(): LedgerEntry[] {
+    return Object.values(this.read().profiles[this.profileKey] ?? {}).sort(
+      (a, b) => b.lastAttempt.localeCompare(a.lastAttempt),
+    );
+  }
+
+  failuresToday(key: string): number {
+    const today = this.today();
+    return this.get(key)?.days.find((d) => d.date === today)?.failures ?? 0;
+  }
+
+  /** Whether the card failed `maxFailures` or more times today. */
+  isQuarantined(key: string, maxFailures: number): boolean {
+    return this.failuresToday(key) >= maxFailures;
+  }
+
+  /**
+   * Appends one outcome to today's entry for the card and returns the entry.
+   */
+  record(
+    card: { key: string; title: string; kind: ActivityKind },
+    attempt: Omit<LedgerAttempt, "at">,
+  ): LedgerEntry {
+    const at = this.now().toISOString();
+    const today = this.today();
+    const previous = this.get(card.key);
+
+    const days = (previous?.days ?? []).filter((d) => d.date !== today);
+    const current = previous?.days.find((d) => d.date === today);
+    days.push({
+      date: today,
+      attempts: (current?.attempts ?? 0) + attempt.attempts,
+      failures:
+        (current?.failures ?? 0) + (isLedgerFailure(attempt.status) ? 1 : 0),
+      outcomes: [...(current?.outcomes ?? []), { at, ...attempt }],
+    });
+
+    const entry: LedgerEntry = {
+      key: card.key,
+      title: card.title,
+      kind: card.kind,
+      firstSeen: previous?.firstSeen ?? at,
+      lastAttempt: at,
+      days: days.slice(-HISTORY_DAYS),
+    };
+
+    const update = (data: ActivityLedgerData): ActivityLedgerData => ({
+      profiles: {
+        ...data.profiles,
+        [this.profileKey]: {
+          ...data.profiles[this.profileKey],
+          [card.key]: entry,
+        },
+      },
+    });
+    if (this.storage) {
+      this.storage.reload();
+      this.storage.update(update);
+    } else {
+      this.memory = update(this.memory);
+    }
+    return entry;
+  }
+}
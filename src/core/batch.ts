@@ -0,0 +1,130 @@
+import type { ExtendedConfig } from "../types";
+import type { HandlerRunRecord } from "./controller";
+import { scanEdgeProfiles } from "../utils/edge-profiles";
+import { NotLoggedInError } from "./session";
+
+export interface ProfileRunSummary {
+  profile: string;
+  status: "ok" | "failed" | "skipped" | "not-logged-in" | "error";
+  records: HandlerRunRecord[];
+  durationMs: number;
+  /** Seed the profile's run used; pass it to --seed to reproduce the run. */
+  seed?: number;
+  error?: string;
+}
+
+/**
+ * Returns the profile names a batch run should cover, or [] when not in batch mode.
+ */
+export function resolveBatchProfileNames(config: ExtendedConfig): string[] {
+  if (config.allProfiles) {
+    return scanEdgeProfiles().map((p) => p.folderName);
+  }
+  return config.profileNames;
+}
+
+function summarizeStatus(
+  records: HandlerRunRecord[],
+): ProfileRunSummary["status"] {
+  if (records.some((r) => r.result.status === "failed")) return "failed";
+  if (records.some((r) => r.result.status === "ok")) return "ok";
+  return "skipped";
+}
+
+/**
+ * Runs one profile and summarizes it. Never throws: a signed-out profile becomes
+ * "not-logged-in" and any other error becomes "error".
+ */
+export async function runProfileOnce(
+  profile: string,
+  runProfile: (profile: string) => Promise<HandlerRunRecord[]>,
+): Promise<ProfileRunSummary> {
+  const startTime = Date.now();
+  try {
+    const records = await runProfile(profile);
+    return {
+      profile,
+      status: summarizeStatus(records),
+      records,
+      durationMs: Date.now() - startTime,
+    };
+  } catch (err) {
+    return {
+      profile,
+      status: err instanceof NotLoggedInError ? "not-logged-in" : "error",
+      records: [],
+      durationMs: Date.now() - startTime,
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+}
+
+/**
+ * Runs each profile sequentially with a randomized pause in between.
+ * A profile that throws is recorded (see runProfileOnce) and the batch continues.
+ */
+export async function runBatch(
+  profiles: string[],
+  runProfile: (profile: string) => Promise<HandlerRunRecord[]>,
+  options: {
+    minGapMs: number;
+    maxGapMs: number;
+    random?: () => number;
+    sleep?: (ms: number) => Promise<void>;
+  },
+): Promise<ProfileRunSummary[]> {
+  const random = options.random ?? Math.random;
+  const sleep =
+    options.sleep ??
+    ((ms: number) => new Promise<void>((r) => setTimeout(r, ms)));
+  const summaries: ProfileRunSummary[] = [];
+
+  for (const [index, profile] of profiles.entries()) {
+    if (index > 0) {
+      const gap = Math.floor(
+        options.minGapMs + random() * (options.maxGapMs - options.minGapMs),
+      );
+      console.log(
+        `\n[Batch] Waiting ${Math.round(gap / 1000)}s before next profile...`,
+      );
+      await sleep(gap);
+    }
+
+    console.log(
+      `\n[Batch] Profile ${index + 1}/${profiles.length}: "${profile}"`,
+    );
+    const summary = await runProfileOnce(profile, runProfile);
+    if (summary.error) {
+      console.error(`[Batch] Profile "${profile}" failed: ${summary.error}`);
+    }
+    summaries.push(summary);
+  }
+
+  return summaries;
+}
+
+/**
+ * Renders the end-of-batch table, one row per profile.
+ */
+export function formatBatchSummary(summaries: ProfileRunSummary[]): string {
+  const headers = ["Profile", "Status", "Handlers", "Attempts", "Duration"];
+  const rows = summaries.map((s) => [
+    s.profile,
+    s.error ? `${s.status}: ${s.error}` : s.status,
+    s.records.map((r) => `${r.handler}=${r.result.status}`).join(", ") || "-",
+    String(s.records.reduce((sum, r) => sum + r.result.attempts, 0)),
+    `${(s.durationMs / 1000).toFixed(1)}s`,
+  ]);
+  const widths = headers.map((h, i) =>
+    Math.max(h.length, ...rows.map((r) => r[i]!.length)),
+  );
+  const line = (cells: string[]) =>
+    `  ${cells.map((c, i) => c.padEnd(widths[i]!)).join("  ")}`.trimEnd();
+
+  return [
+    "\n=== Batch Summary ===\n",
+    line(headers),
+    line(widths.map((w) => "-".repeat(w))),
+    ...rows.map(line),
+  ].join("\n");
+}
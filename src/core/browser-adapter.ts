@@ -1,31 +1,74 @@
-import { chromium, type BrowserContext, type Page, type Browser } from 'playwright';
+import { chromium, devices, type BrowserContext, type Page, type Browser } from 'playwright';
 import path from 'path';
-import { Humanizer } from '../utils/humanizer';
+import { Humanizer, randomDelay } from '../utils/humanizer';
+import type { Random } from '../utils/random';
+import type { BrowserLaunchTarget } from '../utils/browser-executable';
+import type { EngagementProfile } from '../types';
+import { readSnapshot, replayResponse } from './snapshot';
+import { TabManager } from './tabs';
+
+export interface BrowserAdapterOptions {
+  /** Serve every request from this snapshot directory instead of the network. */
+  replayDir?: string;
+}
+
+/** What engageWithResults did on a results page; handlers log it and keep it in meta. */
+export interface EngagementReport {
+  scrolls: number;
+  /** URL of the organic result that was opened, if any. */
+  openedResult?: string;
+  /** Time spent on the opened result. */
+  dwellMs?: number;
+  error?: string;
+}
+
+// Links of Bing's organic (non-ad) results
+const ORGANIC_RESULT_LINK = '#b_results > li.b_algo h2 a';
 
 export class BrowserAdapter {
   private browser: Browser | null = null;
   private context: BrowserContext | null = null;
   private page: Page | null = null;
+  private mobileBrowser: Browser | null = null;
+  private mobileContext: BrowserContext | null = null;
+  private launch: { headless: boolean; target: BrowserLaunchTarget } = { headless: false, target: {} };
   public humanizer: Humanizer;
+  /** Follows the tabs and navigations each activity click causes. */
+  public tabs: TabManager;
+
+  constructor(
+    random?: Random,
+    private options: BrowserAdapterOptions = {},
+  ) {
+    this.humanizer = new Humanizer(random);
+    this.tabs = new TabManager();
+  }
 
-  constructor() {
-    this.humanizer = new Humanizer();
+  /** Whether requests are answered from a snapshot instead of the network. */
+  get replaying(): boolean {
+    return Boolean(this.options.replayDir);
   }
 
-  async init(userDataDir: string, headless: boolean = false, profileDir?: string) {
+  async init(
+    userDataDir: string,
+    headless: boolean = false,
+    profileDir?: string,
+    target: BrowserLaunchTarget = {},
+  ) {
+    this.launch = { headless, target };
+    if (this.options.replayDir) {
+      return this.initReplay(this.options.replayDir, headless, target);
+    }
+
     const absoluteUserDataDir = path.resolve(userDataDir);
     console.log(`Launching browser with user data: ${absoluteUserDataDir}`);
 
     try {
-        // Standard Playwright Launch (Works on Windows/Mac/Linux)
-        // On Windows, if you want to use the specific Edge executable instead of bundled Chromium,
-        // you can add `executablePath: 'C:\\Program Files (x86)\\Microsoft\\Edge\\Application\\msedge.exe'`
-        // but often the bundled chromium is fine.
-        // HOWEVER, for Rewards, using the real Edge is safer.
-
-        let executablePath: string | undefined = undefined;
-        if (process.platform === 'win32') {
-             executablePath = 'C:\\Program Files (x86)\\Microsoft\\Edge\\Application\\msedge.exe';
+        // Real Edge is safer for Rewards; without an executable path we fall back
+        // to Playwright's bundled Chromium. See resolveBrowserExecutable().
+        const executablePath = target.executablePath;
+        if (executablePath) {
+            console.log(`Using browser executable: ${executablePath}`);
         }
 
         const args = [
@@ -42,7 +85,6 @@ export class BrowserAdapter {
             headless,
             executablePath,
             viewport: { width: 1280, height: 720 },
-            channel: executablePath ? undefined : 'msedge',
             args,
         });
 
@@ -56,7 +98,83 @@ export class BrowserAdapter {
     }
   }
 
+  /**
+   * Launches a fresh, profile-less browser whose every request is answered from
+   * a snapshot (see `snapshot` command). Pages that were not captured get a 404.
+   */
+  private async initReplay(
+    replayDir: string,
+    headless: boolean,
+    target: BrowserLaunchTarget,
+  ) {
+    const manifest = readSnapshot(replayDir);
+    console.log(
+      `Replaying snapshot from ${path.resolve(replayDir)} (${manifest.pages.length} pages, captured ${manifest.capturedAt})`,
+    );
+
+    this.browser = await chromium.launch({
+      headless,
+      executablePath: target.executablePath,
+      args: ['--disable-blink-features=AutomationControlled', '--no-sandbox'],
+    });
+    this.context = await this.browser.newContext({
+      viewport: { width: 1280, height: 720 },
+    });
+    await this.context.route('**/*', (route) => {
+      const response = replayResponse(replayDir, manifest, route.request().url());
+      return route.fulfill(response);
+    });
+    this.page = await this.context.newPage();
+    console.log('BrowserAdapter initialized in replay mode');
+  }
+
+  /**
+   * Opens a page in a second context that emulates a phone: the device's user
+   * agent, viewport, scale factor and touch support. It starts with the main
+   * context's cookies and storage, so it is signed in as the same profile.
+   * Repeated calls open more pages in the same mobile context.
+   */
+  async openMobilePage(deviceName: string): Promise<Page> {
+    if (!this.context) throw new Error('Browser not initialized');
+    const device = devices[deviceName];
+    if (!device) {
+      throw new Error(`Unknown device "${deviceName}" (see Playwright's device list)`);
+    }
+
+    if (!this.mobileContext) {
+      const storageState = await this.context.storageState();
+      // A persistent context cannot host a second context; launch a sibling browser
+      const browser =
+        this.browser ??
+        (this.mobileBrowser = await chromium.launch({
+          headless: this.launch.headless,
+          executablePath: this.launch.target.executablePath,
+          args: ['--disable-blink-features=AutomationControlled', '--no-sandbox'],
+        }));
+      this.mobileContext = await browser.newContext({ ...device, storageState });
+
+      const replayDir = this.options.replayDir;
+      if (replayDir) {
+        const manifest = readSnapshot(replayDir);
+        await this.mobileContext.route('**/*', (route) => {
+          const response = replayResponse(replayDir, manifest, route.request().url());
+          return route.fulfill(response);
+        });
+      }
+      console.log(`Opened mobile context emulating ${deviceName}`);
+    }
+    return this.mobileContext.newPage();
+  }
+
   async close() {
+    if (this.mobileContext) {
+      await this.mobileContext.close().catch(() => {});
+      this.mobileContext = null;
+    }
+    if (this.mobileBrowser) {
+      await this.mobileBrowser.close().catch(() => {});
+      this.mobileBrowser = null;
+    }
     if (this.context) {
       await this.context.close().catch(() => {});
       this.context = null;
@@ -79,4 +197,80 @@ export class BrowserAdapter {
     await page.goto(url, { waitUntil: 'domcontentloaded' });
   }
 
+  /**
+   * Reads a Bing results page like a person would: a few wheel scrolls, then,
+   * with `openResultChance`, one of the top organic results opened and read
+   * for a sampled dwell time before returning to the results. Each step is
+   * logged under `label`. Never throws; a failed step ends the routine and is
+   * reported in `error`.
+   */
+  async engageWithResults(
+    page: Page,
+    engagement: EngagementProfile,
+    label = 'Engagement',
+  ): Promise<EngagementReport> {
+    const { random } = this.humanizer;
+    const report: EngagementReport = { scrolls: 0 };
+    try {
+      await page.waitForSelector(ORGANIC_RESULT_LINK, { timeout: 10_000 }).catch(() => {});
+
+      const scrolls = random.int(engagement.minScrolls, engagement.maxScrolls);
+      for (let i = 0; i < scrolls; i++) {
+        await this.humanizer.scrollWheelHuman(page, random.int(250, 650));
+        report.scrolls++;
+        await randomDelay(800, 2500, random); // Skimming the snippets
+      }
+      console.log(`[${label}] Scrolled the results ${report.scrolls} times`);
+
+      if (random.next() >= engagement.openResultChance) return report;
+      const links = page.locator(ORGANIC_RESULT_LINK);
+      const count = Math.min(await links.count(), 5);
+      if (count === 0) {
+        console.log(`[${label}] No organic result to open`);
+        return report;
+      }
+
+      const link = links.nth(random.int(0, count - 1));
+      await link.scrollIntoViewIfNeeded();
+      await randomDelay(300, 800, random);
+      const tabs = await this.tabs.track(page, () =>
+        this.humanizer.clickLocatorHuman(page, link),
+      );
+      try {
+        const target = tabs.target;
+        const dwellMs = random.int(
+          engagement.minDwellSeconds * 1000,
+          engagement.maxDwellSeconds * 1000,
+        );
+        report.openedResult = target.url();
+        report.dwellMs = dwellMs;
+        console.log(
+          `[${label}] Opened ${report.openedResult}, reading for ${Math.round(dwellMs / 1000)}s`,
+        );
+
+        // Read in a few stretches, scrolling between them
+        const stretches = random.int(1, 3);
+        const stretchMs = Math.round(dwellMs / stretches);
+        for (let i = 0; i < stretches; i++) {
+          await randomDelay(stretchMs, stretchMs, random);
+          if (i < stretches - 1) {
+            await this.humanizer.scrollWheelHuman(target, random.int(200, 500));
+          }
+        }
+      } finally {
+        await tabs.close();
+      }
+
+      // The result opened in the results tab itself
+      if (tabs.navigated) {
+        await page.goBack({ waitUntil: 'domcontentloaded' }).catch(() => {});
+      }
+      console.log(`[${label}] Back on the results`);
+    } catch (error) {
+      report.error = error instanceof Error ? error.message : String(error);
+      console.warn(`[${label}] Engagement stopped: ${report.error}`);
+    }
+    return report;
+  }
+
 }
@@ -0,0 +1,780 @@
+import { existsSync, readFileSync } from "fs";
+import { homedir } from "os";
+import { join, resolve } from "path";
+import { z } from "zod";
+import {
+  ACTIVITY_KINDS,
+  ENGAGEMENT_TASKS,
+  QUERY_GENERATOR_NAMES,
+  QUERY_LOCALES,
+  type EngagementProfile,
+  type EngagementSettings,
+  type EngagementTask,
+  type ExtendedConfig,
+} from "../types";
+
+export const DEFAULT_CONFIG_FILE = "rewards.config.json";
+
+const ClickHandlerSettingsSchema = z
+  .object({
+    enabled: z.boolean(),
+    maxClicks: z.number().int().positive(),
+    discovery: z.enum(["network", "dom"]),
+    verifyRetries: z.number().int().min(0).max(5),
+    retryBackoffMs: z.number().int().min(0),
+  })
+  .strict();
+
+const QuizHandlerSettingsSchema = z
+  .object({
+    enabled: z.boolean(),
+    maxQuizzes: z.number().int().positive(),
+  })
+  .strict();
+
+const PunchCardHandlerSettingsSchema = z
+  .object({
+    enabled: z.boolean(),
+    maxTasks: z.number().int().positive(),
+  })
+  .strict();
+
+const SearchHandlerSettingsSchema = z
+  .object({
+    enabled: z.boolean(),
+    maxSearches: z.number().int().positive(),
+    generator: z.enum(QUERY_GENERATOR_NAMES),
+    locale: z.enum(QUERY_LOCALES),
+    historyDays: z.number().int().nonnegative(),
+  })
+  .strict();
+
+const MobileSearchHandlerSettingsSchema = z
+  .object({
+    enabled: z.boolean(),
+    maxSearches: z.number().int().positive(),
+    device: z.string().min(1),
+  })
+  .strict();
+
+const EngagementProfileSchema = z
+  .object({
+    enabled: z.boolean(),
+    minScrolls: z.number().int().nonnegative(),
+    maxScrolls: z.number().int().nonnegative(),
+    openResultChance: z.number().min(0).max(1),
+    minDwellSeconds: z.number().nonnegative(),
+    maxDwellSeconds: z.number().nonnegative(),
+  })
+  .strict();
+
+const EngagementSettingsSchema = EngagementProfileSchema.extend({
+  tasks: z
+    .object({
+      explore: EngagementProfileSchema.partial().optional(),
+      search: EngagementProfileSchema.partial().optional(),
+    })
+    .strict(),
+}).strict();
+
+const WINDOW_PATTERN = /^\d{1,2}:\d{2}-\d{1,2}:\d{2}$/;
+const WINDOW_MESSAGE = 'Expected a daily window like "08:00-10:30"';
+
+/**
+ * Schema for the effective (merged) configuration.
+ * Strict objects make typos in rewards.config.json fail loudly instead of being ignored.
+ */
+export const ConfigSchema = z
+  .object({
+    userDataDir: z.string().min(1),
+    profileDir: z.string().min(1).optional(),
+    profileName: z.string().min(1).optional(),
+    profileNames: z.array(z.string().min(1)),
+    allProfiles: z.boolean(),
+    batch: z
+      .object({
+        minGapSeconds: z.number().nonnegative(),
+        maxGapSeconds: z.number().nonnegative(),
+      })
+      .strict(),
+    dryRun: z.boolean(),
+    maxActionsPerHour: z.number().int().positive(),
+    randomSeed: z.number().int().min(0).max(0xffffffff).optional(),
+    headless: z.boolean(),
+    channel: z.enum(["msedge", "msedge-beta", "chromium"]),
+    executablePath: z.string().min(1).optional(),
+    skipClicks: z.boolean(),
+    handlerOrder: z.array(z.string().min(1)).min(1),
+    handlers: z
+      .object({
+        click: ClickHandlerSettingsSchema,
+        quiz: QuizHandlerSettingsSchema,
+        punchcard: PunchCardHandlerSettingsSchema,
+        search: SearchHandlerSettingsSchema,
+        mobilesearch: MobileSearchHandlerSettingsSchema,
+      })
+      .strict(),
+    activityKinds: z.array(z.enum(ACTIVITY_KINDS)).min(1),
+    quarantineAfterFailures: z.number().int().positive(),
+    engagement: EngagementSettingsSchema,
+    daemon: z.boolean(),
+    schedule: z
+      .object({
+        windows: z.array(z.string().regex(WINDOW_PATTERN, WINDOW_MESSAGE)),
+        profiles: z.record(
+          z.array(z.string().regex(WINDOW_PATTERN, WINDOW_MESSAGE)).min(1),
+        ),
+      })
+      .strict(),
+    confirm: z.boolean(),
+    testProfiles: z.array(z.string().min(1)),
+    json: z.boolean(),
+    selectorsFile: z.string().min(1).optional(),
+    replayDir: z.string().min(1).optional(),
+  })
+  .strict()
+  .superRefine((config, ctx) => {
+    const batchFlags = config.allProfiles || config.profileNames.length > 0;
+    if (config.profileName && batchFlags) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["profileName"],
+        message: "Use either profileName or profileNames/allProfiles, not both",
+      });
+    }
+    if (config.allProfiles && config.profileNames.length > 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["allProfiles"],
+        message: "Use either profileNames or allProfiles, not both",
+      });
+    }
+    const profileFlags = Boolean(config.profileName) || batchFlags;
+    if (config.replayDir && (profileFlags || config.daemon)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["replayDir"],
+        message:
+          "Replay runs use no browser profile; drop profile, batch and daemon options",
+      });
+    }
+    for (const task of ENGAGEMENT_TASKS) {
+      const engagement = engagementFor(config.engagement, task);
+      for (const [min, max] of [
+        ["minScrolls", "maxScrolls"],
+        ["minDwellSeconds", "maxDwellSeconds"],
+      ] as const) {
+        if (engagement[min] > engagement[max]) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [
+              "engagement",
+              ...(config.engagement.tasks[task] ? ["tasks", task] : []),
+              min,
+            ],
+            message: `Must not be greater than ${max} (task "${task}")`,
+          });
+        }
+      }
+    }
+    if (config.batch.minGapSeconds > config.batch.maxGapSeconds) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["batch", "minGapSeconds"],
+        message: "Must not be greater than batch.maxGapSeconds",
+      });
+    }
+  }) satisfies z.ZodType<ExtendedConfig>;
+
+/** "list" options are comma-separated on the CLI and in env vars. */
+export type OptionType = "boolean" | "number" | "string" | "list";
+
+/**
+ * A config key that can be set from the CLI and/or an environment variable.
+ * `key` is a dot path into ExtendedConfig (e.g. "handlers.click.maxClicks").
+ */
+export interface OptionSpec {
+  key: string;
+  flags: string[];
+  env?: string;
+  type: OptionType;
+}
+
+export const CONFIG_OPTIONS: OptionSpec[] = [
+  {
+    key: "dryRun",
+    flags: ["--dry-run", "-d"],
+    env: "REWARDS_DRY_RUN",
+    type: "boolean",
+  },
+  {
+    key: "userDataDir",
+    flags: ["--user-data-dir", "-u"],
+    env: "REWARDS_USER_DATA_DIR",
+    type: "string",
+  },
+  {
+    key: "profileName",
+    flags: ["--profile", "-p"],
+    env: "REWARDS_PROFILE",
+    type: "string",
+  },
+  {
+    key: "profileNames",
+    flags: ["--profiles"],
+    env: "REWARDS_PROFILES",
+    type: "list",
+  },
+  { key: "allProfiles", flags: ["--all-profiles"], type: "boolean" },
+  {
+    key: "maxActionsPerHour",
+    flags: ["--max-actions", "-m"],
+    env: "REWARDS_MAX_ACTIONS",
+    type: "number",
+  },
+  {
+    key: "headless",
+    flags: ["--headless"],
+    env: "REWARDS_HEADLESS",
+    type: "boolean",
+  },
+  {
+    key: "channel",
+    flags: ["--channel"],
+    env: "REWARDS_CHANNEL",
+    type: "string",
+  },
+  {
+    key: "executablePath",
+    flags: ["--executable-path"],
+    env: "REWARDS_EXECUTABLE_PATH",
+    type: "string",
+  },
+  {
+    key: "randomSeed",
+    flags: ["--seed"],
+    env: "REWARDS_SEED",
+    type: "number",
+  },
+  {
+    key: "skipClicks",
+    flags: ["--skip-clicks"],
+    env: "REWARDS_SKIP_CLICKS",
+    type: "boolean",
+  },
+  {
+    key: "handlerOrder",
+    flags: ["--handlers"],
+    env: "REWARDS_HANDLERS",
+    type: "list",
+  },
+  {
+    key: "handlers.click.maxClicks",
+    flags: ["--max-clicks"],
+    env: "REWARDS_MAX_CLICKS",
+    type: "number",
+  },
+  {
+    key: "handlers.click.discovery",
+    flags: ["--discovery"],
+    env: "REWARDS_DISCOVERY",
+    type: "string",
+  },
+  {
+    key: "handlers.search.maxSearches",
+    flags: ["--searches"],
+    env: "REWARDS_SEARCHES",
+    type: "number",
+  },
+  {
+    key: "handlers.search.generator",
+    flags: ["--query-generator"],
+    env: "REWARDS_QUERY_GENERATOR",
+    type: "string",
+  },
+  {
+    key: "handlers.search.locale",
+    flags: ["--query-locale"],
+    env: "REWARDS_QUERY_LOCALE",
+    type: "string",
+  },
+  {
+    key: "handlers.search.historyDays",
+    flags: ["--query-history-days"],
+    env: "REWARDS_QUERY_HISTORY_DAYS",
+    type: "number",
+  },
+  {
+    key: "handlers.mobilesearch.enabled",
+    flags: ["--mobile"],
+    env: "REWARDS_MOBILE",
+    type: "boolean",
+  },
+  {
+    key: "handlers.mobilesearch.maxSearches",
+    flags: ["--mobile-searches"],
+    env: "REWARDS_MOBILE_SEARCHES",
+    type: "number",
+  },
+  {
+    key: "handlers.mobilesearch.device",
+    flags: ["--mobile-device"],
+    env: "REWARDS_MOBILE_DEVICE",
+    type: "string",
+  },
+  {
+    key: "activityKinds",
+    flags: ["--activity-kinds"],
+    env: "REWARDS_ACTIVITY_KINDS",
+    type: "list",
+  },
+  {
+    key: "quarantineAfterFailures",
+    flags: ["--quarantine-after"],
+    env: "REWARDS_QUARANTINE_AFTER",
+    type: "number",
+  },
+  {
+    key: "engagement.enabled",
+    flags: ["--engagement"],
+    env: "REWARDS_ENGAGEMENT",
+    type: "boolean",
+  },
+  {
+    key: "engagement.openResultChance",
+    flags: ["--open-result-chance"],
+    env: "REWARDS_OPEN_RESULT_CHANCE",
+    type: "number",
+  },
+  {
+    key: "daemon",
+    flags: ["--daemon"],
+    env: "REWARDS_DAEMON",
+    type: "boolean",
+  },
+  {
+    key: "schedule.windows",
+    flags: ["--schedule"],
+    env: "REWARDS_SCHEDULE",
+    type: "list",
+  },
+  {
+    key: "testProfiles",
+    flags: ["--test-profiles"],
+    env: "REWARDS_TEST_PROFILES",
+    type: "list",
+  },
+  { key: "json", flags: ["--json"], env: "REWARDS_JSON", type: "boolean" },
+  {
+    key: "selectorsFile",
+    flags: ["--selectors"],
+    env: "REWARDS_SELECTORS",
+    type: "string",
+  },
+  {
+    key: "replayDir",
+    flags: ["--replay"],
+    env: "REWARDS_REPLAY",
+    type: "string",
+  },
+  // Deliberately CLI-only: consent should not hide in a config file or env var
+  { key: "confirm", flags: ["--confirm"], type: "boolean" },
+];
+
+// Keys the config file may not set; loadConfig rejects them there
+const CLI_ONLY_KEYS = ["confirm"];
+
+/**
+ * A flag that belongs to one CLI command rather than to the config,
+ * e.g. `--top` for `query-bank debug`. Parsed values land in LoadedConfig.options.
+ */
+export interface CommandOptionSpec {
+  name: string;
+  flags: string[];
+  type: OptionType;
+}
+
+export type ConfigSource =
+  | { kind: "default" }
+  | { kind: "file"; path: string }
+  | { kind: "env"; name: string }
+  | { kind: "cli"; flag: string };
+
+export interface LoadedConfig {
+  config: ExtendedConfig;
+  /** Where each leaf value came from, keyed by dot path. */
+  sources: Record<string, ConfigSource>;
+  configFile?: string;
+  /** Non-flag arguments, in order (e.g. ["config", "print"]). */
+  positionals: string[];
+  /** Values of the command's own options, keyed by CommandOptionSpec.name. */
+  options: Record<string, unknown>;
+}
+
+export class ConfigError extends Error {
+  constructor(
+    message: string,
+    public readonly issues: string[] = [],
+  ) {
+    super(issues.length > 0 ? `${message}\n  ${issues.join("\n  ")}` : message);
+    this.name = "ConfigError";
+  }
+}
+
+/**
+ * Get the default Edge user data directory based on OS
+ * Uses a separate profile folder to avoid conflicts with running Edge
+ */
+export function getDefaultEdgeUserDataDir(): string {
+  const home = homedir();
+
+  if (process.platform === "win32") {
+    // Windows: Use a dedicated folder in user's home to avoid Edge conflicts
+    return join(home, ".ms-rewards-agent", "edge-profile");
+  } else if (process.platform === "darwin") {
+    // macOS: ~/Library/Application Support/ms-rewards-agent
+    return join(
+      home,
+      "Library",
+      "Application Support",
+      "ms-rewards-agent",
+      "edge-profile",
+    );
+  } else {
+    // Linux: ~/.ms-rewards-agent/edge-profile
+    return join(home, ".ms-rewards-agent", "edge-profile");
+  }
+}
+
+/**
+ * One task's engagement settings: the shared ones with its overrides applied.
+ */
+export function engagementFor(
+  settings: EngagementSettings,
+  task: EngagementTask,
+): EngagementProfile {
+  const { tasks, ...shared } = settings;
+  return { ...shared, ...tasks[task] };
+}
+
+export function getDefaultConfig(): ExtendedConfig {
+  return {
+    userDataDir: getDefaultEdgeUserDataDir(),
+    dryRun: false,
+    maxActionsPerHour: 30,
+    headless: false,
+    channel: "msedge",
+    skipClicks: false,
+    profileNames: [],
+    allProfiles: false,
+    batch: { minGapSeconds: 30, maxGapSeconds: 180 },
+    handlerOrder: ["quiz", "click", "punchcard", "search", "mobilesearch"],
+    handlers: {
+      click: {
+        enabled: true,
+        maxClicks: 20,
+        discovery: "network",
+        verifyRetries: 2,
+        retryBackoffMs: 3000,
+      },
+      quiz: { enabled: true, maxQuizzes: 5 },
+      punchcard: { enabled: true, maxTasks: 10 },
+      search: {
+        enabled: true,
+        maxSearches: 10,
+        generator: "local",
+        locale: "en-US",
+        historyDays: 14,
+      },
+      mobilesearch: { enabled: false, maxSearches: 10, device: "Pixel 7" },
+    },
+    activityKinds: [...ACTIVITY_KINDS],
+    quarantineAfterFailures: 3,
+    engagement: {
+      enabled: true,
+      minScrolls: 2,
+      maxScrolls: 5,
+      openResultChance: 0.3,
+      minDwellSeconds: 10,
+      maxDwellSeconds: 40,
+      tasks: {},
+    },
+    daemon: false,
+    schedule: {
+      windows: ["09:00-11:00"],
+      profiles: {},
+    },
+    confirm: false,
+    testProfiles: [],
+    json: false,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Dot-path helpers
+// ---------------------------------------------------------------------------
+
+type PlainObject = Record<string, unknown>;
+
+function isPlainObject(value: unknown): value is PlainObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function setPath(target: PlainObject, path: string, value: unknown): void {
+  const parts = path.split(".");
+  let node = target;
+  for (const part of parts.slice(0, -1)) {
+    if (!isPlainObject(node[part])) node[part] = {};
+    node = node[part] as PlainObject;
+  }
+  node[parts[parts.length - 1]!] = value;
+}
+
+/** Lists every leaf (non-object value) of an object as [dotPath, value]. */
+function leaves(obj: PlainObject, prefix = ""): [string, unknown][] {
+  const out: [string, unknown][] = [];
+  for (const [key, value] of Object.entries(obj)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(value)) out.push(...leaves(value, path));
+    else out.push([path, value]);
+  }
+  return out;
+}
+
+// ---------------------------------------------------------------------------
+// Layer parsing
+// ---------------------------------------------------------------------------
+
+/**
+ * Converts a raw string to the option's type. Values that don't convert are
+ * returned unchanged so schema validation reports them with their source.
+ */
+function coerce(raw: string, type: OptionType): unknown {
+  if (type === "number") {
+    const n = Number(raw);
+    return raw.trim() !== "" && Number.isFinite(n) ? n : raw;
+  }
+  if (type === "boolean") {
+    const lower = raw.trim().toLowerCase();
+    if (["1", "true", "yes", "on"].includes(lower)) return true;
+    if (["0", "false", "no", "off"].includes(lower)) return false;
+    return raw;
+  }
+  if (type === "list") {
+    return raw
+      .split(",")
+      .map((item) => item.trim())
+      .filter(Boolean);
+  }
+  return raw;
+}
+
+interface CliLayer {
+  values: [OptionSpec, unknown, string][];
+  configPath?: string;
+  positionals: string[];
+  options: Record<string, unknown>;
+}
+
+function parseCliLayer(
+  argv: string[],
+  configOptions: OptionSpec[],
+  commandOptions: CommandOptionSpec[],
+): CliLayer {
+  const layer: CliLayer = { values: [], positionals: [], options: {} };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]!;
+    if (arg === "--") {
+      layer.positionals.push(...argv.slice(i + 1));
+      break;
+    }
+
+    const eq = arg.startsWith("--") ? arg.indexOf("=") : -1;
+    const flag = eq > 0 ? arg.slice(0, eq) : arg;
+    const inline = eq > 0 ? arg.slice(eq + 1) : undefined;
+
+    const takeValue = (): string => {
+      if (inline !== undefined) return inline;
+      const next = argv[i + 1];
+      if (next === undefined || next.startsWith("-")) {
+        throw new ConfigError(`Missing value for ${flag}`);
+      }
+      i++;
+      return next;
+    };
+
+    if (flag === "--config" || flag === "-c") {
+      layer.configPath = takeValue();
+      continue;
+    }
+
+    const option = configOptions.find((o) => o.flags.includes(flag));
+    if (option) {
+      const value =
+        option.type === "boolean" && inline === undefined
+          ? true
+          : coerce(takeValue(), option.type);
+      layer.values.push([option, value, flag]);
+      continue;
+    }
+
+    const commandOption = commandOptions.find((o) => o.flags.includes(flag));
+    if (commandOption) {
+      layer.options[commandOption.name] =
+        commandOption.type === "boolean" && inline === undefined
+          ? true
+          : coerce(takeValue(), commandOption.type);
+      continue;
+    }
+
+    if (arg.startsWith("-") && arg !== "-") {
+      throw new ConfigError(`Unknown option: ${flag}`);
+    }
+    layer.positionals.push(arg);
+  }
+
+  return layer;
+}
+
+function readConfigFile(path: string): PlainObject {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new ConfigError(`Failed to read config file ${path}: ${reason}`);
+  }
+  if (!isPlainObject(parsed)) {
+    throw new ConfigError(`Config file ${path} must contain a JSON object`);
+  }
+  return parsed;
+}
+
+export function describeSource(source: ConfigSource | undefined): string {
+  switch (source?.kind) {
+    case "file":
+      return `file ${source.path}`;
+    case "env":
+      return `env ${source.name}`;
+    case "cli":
+      return `cli ${source.flag}`;
+    default:
+      return "default";
+  }
+}
+
+/**
+ * Builds the effective config by layering defaults < config file < env < CLI,
+ * then validates the result against ConfigSchema.
+ * `configKeys` limits which config flags the CLI accepts (all by default);
+ * any flag that is neither one of those nor in `commandOptions` is an error.
+ */
+export function loadConfig(options: {
+  argv: string[];
+  env?: NodeJS.ProcessEnv;
+  cwd?: string;
+  defaults?: ExtendedConfig;
+  configKeys?: string[];
+  commandOptions?: CommandOptionSpec[];
+}): LoadedConfig {
+  const env = options.env ?? process.env;
+  const cwd = options.cwd ?? process.cwd();
+  const merged = structuredClone(
+    options.defaults ?? getDefaultConfig(),
+  ) as unknown as PlainObject;
+  const sources: Record<string, ConfigSource> = {};
+
+  for (const [path] of leaves(merged)) {
+    sources[path] = { kind: "default" };
+  }
+
+  const cli = parseCliLayer(
+    options.argv,
+    options.configKeys
+      ? CONFIG_OPTIONS.filter((o) => options.configKeys!.includes(o.key))
+      : CONFIG_OPTIONS,
+    options.commandOptions ?? [],
+  );
+
+  // Config file: --config beats REWARDS_CONFIG beats ./rewards.config.json
+  const explicitPath = cli.configPath ?? env.REWARDS_CONFIG;
+  let configFile: string | undefined;
+  if (explicitPath) {
+    configFile = resolve(cwd, explicitPath);
+    if (!existsSync(configFile)) {
+      throw new ConfigError(`Config file not found: ${configFile}`);
+    }
+  } else if (existsSync(resolve(cwd, DEFAULT_CONFIG_FILE))) {
+    configFile = resolve(cwd, DEFAULT_CONFIG_FILE);
+  }
+
+  if (configFile) {
+    for (const [path, value] of leaves(readConfigFile(configFile))) {
+      if (CLI_ONLY_KEYS.includes(path)) {
+        throw new ConfigError("Invalid configuration:", [
+          `${path}: only accepted on the command line (from ${describeSource({ kind: "file", path: configFile })})`,
+        ]);
+      }
+      setPath(merged, path, value);
+      sources[path] = { kind: "file", path: configFile };
+    }
+  }
+
+  for (const option of CONFIG_OPTIONS) {
+    const raw = option.env ? env[option.env] : undefined;
+    if (raw === undefined || raw === "") continue;
+    setPath(merged, option.key, coerce(raw, option.type));
+    sources[option.key] = { kind: "env", name: option.env! };
+  }
+
+  for (const [option, value, flag] of cli.values) {
+    setPath(merged, option.key, value);
+    sources[option.key] = { kind: "cli", flag };
+  }
+
+  const parsed = ConfigSchema.safeParse(merged);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => {
+      const path = issue.path.join(".");
+      const origin = sources[path]
+        ? ` (from ${describeSource(sources[path])})`
+        : "";
+      return `${path || "<root>"}: ${issue.message}${origin}`;
+    });
+    throw new ConfigError("Invalid configuration:", issues);
+  }
+
+  return {
+    config: parsed.data,
+    sources,
+    configFile,
+    positionals: cli.positionals,
+    options: cli.options,
+  };
+}
+
+/**
+ * Renders the effective config with the origin of every value, for `config print`.
+ */
+export function formatConfig(loaded: LoadedConfig): string {
+  const rows = leaves(loaded.config as unknown as PlainObject).map(
+    ([path, value]) => [
+      path,
+      JSON.stringify(value),
+      describeSource(loaded.sources[path]),
+    ],
+  );
+  const keyWidth = Math.max(...rows.map((r) => r[0]!.length));
+  const valueWidth = Math.max(...rows.map((r) => r[1]!.length));
+
+  const lines = [
+    `Config file: ${loaded.configFile ?? "(none)"}`,
+    "",
+    ...rows.map(
+      ([path, value, source]) =>
+        `  ${path!.padEnd(keyWidth)}  ${value!.padEnd(valueWidth)}  ${source}`,
+    ),
+  ];
+  return lines.join("\n");
+}
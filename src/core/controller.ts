@@ -0,0 +1,305 @@
+import type { Page } from "playwright";
+import type {
+  ActionResult,
+  DashboardOffer,
+  ExtendedConfig,
+  QuotaStatus,
+} from "../types";
+import type { MetricsStore } from "../utils/storage";
+import type { Logger } from "../utils/logger";
+import { PointsTracker, readPointsBalance } from "./points";
+import { formatQuota, readQuotaStatus } from "./quota";
+import { REWARDS_URL } from "./session";
+import { builtInSelectors } from "./selectors";
+import {
+  formatOffer,
+  scanDashboard,
+  summarizeOffers,
+} from "../handlers/activity-classifier";
+import {
+  HANDLER_REGISTRY,
+  type HandlerContext,
+  type HandlerRegistration,
+} from "../handlers/registry";
+
+export interface HandlerRunRecord {
+  id: string;
+  handler: string;
+  result: ActionResult;
+}
+
+function formatPoints(points: number): string {
+  return points >= 0 ? `+${points}` : String(points);
+}
+
+/**
+ * Sums the handler point deltas; null when no handler could read the balance.
+ */
+export function totalPoints(records: HandlerRunRecord[]): number | null {
+  const known = records
+    .map((r) => r.result.points)
+    .filter((p): p is number => p !== undefined);
+  return known.length > 0 ? known.reduce((sum, p) => sum + p, 0) : null;
+}
+
+/**
+ * Orchestrates a run: resolves which registered handlers are enabled, runs them
+ * in the configured order, and records each result in metrics and the log.
+ * The points balance is read before the first handler and after each one, so
+ * every handler is credited with the change it caused. Before the handlers
+ * run, the dashboard's cards are classified, logged and recorded in metrics,
+ * and the points breakdown is read into the context's QuotaTracker.
+ */
+export class Controller {
+  private registry = new Map<string, HandlerRegistration>();
+  private points?: PointsTracker;
+
+  constructor(
+    private ctx: HandlerContext,
+    private deps: {
+      metrics: MetricsStore;
+      logger: Logger;
+      readPoints?: (page: Page) => Promise<number | null>;
+      scanOffers?: (page: Page) => Promise<DashboardOffer[]>;
+      readQuota?: (page: Page) => Promise<QuotaStatus | null>;
+    },
+    registrations: HandlerRegistration[] = HANDLER_REGISTRY,
+  ) {
+    for (const registration of registrations) {
+      this.register(registration);
+    }
+  }
+
+  register(registration: HandlerRegistration): void {
+    if (this.registry.has(registration.id)) {
+      throw new Error(`Handler "${registration.id}" is already registered`);
+    }
+    this.registry.set(registration.id, registration);
+  }
+
+  /**
+   * Returns the registrations to run, in `handlerOrder` order, skipping disabled ones.
+   */
+  getPlan(): HandlerRegistration[] {
+    const { config } = this.ctx;
+    const unknown = config.handlerOrder.filter((id) => !this.registry.has(id));
+    if (unknown.length > 0) {
+      throw new Error(
+        `Unknown handler(s) in handlerOrder: ${unknown.join(", ")}. Available: ${[...this.registry.keys()].join(", ")}`,
+      );
+    }
+
+    return config.handlerOrder
+      .map((id) => this.registry.get(id)!)
+      .filter((registration) => this.isEnabled(registration, config));
+  }
+
+  private isEnabled(
+    registration: HandlerRegistration,
+    config: ExtendedConfig,
+  ): boolean {
+    if (registration.isEnabled) return registration.isEnabled(config);
+    const settings = (
+      config.handlers as Record<string, { enabled?: boolean } | undefined>
+    )[registration.id];
+    return settings?.enabled ?? true;
+  }
+
+  async run(page: Page): Promise<HandlerRunRecord[]> {
+    const { metrics, logger } = this.deps;
+    const records: HandlerRunRecord[] = [];
+    const readPoints =
+      this.deps.readPoints ??
+      ((p: Page) =>
+        readPointsBalance(p, this.ctx.selectors?.selectors.balance, {
+          api: !this.ctx.browser.replaying,
+        }));
+    const points = new PointsTracker(() => readPoints(page));
+    this.points = points;
+    const plan = this.getPlan();
+    if ((await points.read()) === null) {
+      console.log("Points balance unavailable; points will not be tracked");
+    }
+    await this.recordOffers(page);
+    await this.readQuota(page);
+
+    for (const registration of plan) {
+      const handler = registration.create(this.ctx);
+      console.log(`\n=== Running ${handler.name} ===`);
+      logger.info(`Starting ${handler.name}`);
+
+      let result: ActionResult;
+      const startTime = Date.now();
+      try {
+        result = await handler.run(page);
+      } catch (err) {
+        // Handlers are expected to catch their own errors; this keeps one
+        // misbehaving handler from aborting the rest of the run.
+        logger.error(
+          `${handler.name}:crashed`,
+          err instanceof Error ? err : String(err),
+        );
+        result = {
+          type: registration.type,
+          status: "failed",
+          attempts: 0,
+          durationMs: Date.now() - startTime,
+          meta: { error: err instanceof Error ? err.message : String(err) },
+        };
+      }
+
+      const gained = await points.delta();
+      if (gained !== null) {
+        result.points = gained;
+        if (gained > 0) metrics.recordPoints(gained, registration.id);
+      }
+
+      records.push({ id: registration.id, handler: handler.name, result });
+      logger.logResult(handler.name, result);
+      metrics.recordRun(
+        handler.name,
+        result.status,
+        result.durationMs,
+        result.attempts,
+        result.meta,
+        result.points,
+      );
+    }
+
+    return records;
+  }
+
+  /**
+   * Classifies what the dashboard offers today. A failed scan is logged and
+   * never stops the run.
+   */
+  private async recordOffers(page: Page): Promise<void> {
+    const { metrics, logger } = this.deps;
+    const scan =
+      this.deps.scanOffers ??
+      (async (p: Page) => {
+        await this.ctx.browser.goto(REWARDS_URL);
+        return scanDashboard(
+          p,
+          this.ctx.selectors?.selectors ?? builtInSelectors(),
+        );
+      });
+
+    let offers: DashboardOffer[];
+    try {
+      offers = await scan(page);
+    } catch (err) {
+      logger.error(
+        "Dashboard scan failed",
+        err instanceof Error ? err : String(err),
+      );
+      return;
+    }
+    if (offers.length === 0) {
+      console.log("Dashboard offers: no activity cards found");
+      return;
+    }
+
+    const summary = summarizeOffers(offers);
+    console.log(`Dashboard offers: ${summary}`);
+    for (const offer of offers) console.log(`  ${formatOffer(offer)}`);
+    logger.info("Dashboard offers", { meta: { summary, offers } });
+    metrics.recordOffers(offers);
+  }
+
+  /**
+   * Reads today's points breakdown into the context's QuotaTracker, so
+   * handlers know what is left. Does nothing without a tracker. Opening the
+   * breakdown is a click: dry runs skip it and live runs spend click budget on
+   * it; without a fresh reading, today's stored one (if any) stays in use. A
+   * failed read is logged and never stops the run.
+   */
+  private async readQuota(page: Page): Promise<void> {
+    const { quota, browser, config, limiter, selectors } = this.ctx;
+    if (!quota) return;
+    const { logger } = this.deps;
+    const keepEarlier = (reason: string): void => {
+      const earlier = quota.current;
+      console.log(
+        earlier
+          ? `${reason}; using today's earlier reading: ${formatQuota(earlier)}`
+          : `${reason}; handlers use their configured counts`,
+      );
+    };
+
+    if (config.dryRun) {
+      keepEarlier("[DRY-RUN] Would open the points breakdown");
+      return;
+    }
+    if (!limiter.tryAcquire("click")) {
+      keepEarlier("Rate limit reached, points breakdown not opened");
+      return;
+    }
+
+    const read =
+      this.deps.readQuota ??
+      ((p: Page) =>
+        readQuotaStatus(p, {
+          selectors: selectors?.selectors,
+          click: (link) => browser.humanizer.clickLocatorHuman(p, link),
+        }));
+
+    let status: QuotaStatus | null;
+    try {
+      status = await read(page);
+    } catch (err) {
+      logger.error(
+        "Points breakdown read failed",
+        err instanceof Error ? err : String(err),
+      );
+      return;
+    }
+    if (!status) {
+      keepEarlier("Points breakdown unavailable");
+      return;
+    }
+
+    quota.update(status);
+    console.log(`Points breakdown: ${formatQuota(status)}`);
+    logger.info("Points breakdown", { meta: { ...status } });
+  }
+
+  printSummary(records: HandlerRunRecord[]): void {
+    console.log("\n=== Run Summary ===");
+    for (const { handler, result } of records) {
+      console.log(`\n${handler}:`);
+      console.log(`  Status: ${result.status}`);
+      console.log(`  Attempts: ${result.attempts}`);
+      console.log(`  Duration: ${result.durationMs}ms`);
+      if (result.points !== undefined) {
+        console.log(`  Points: ${formatPoints(result.points)}`);
+      }
+      for (const activity of result.activities ?? []) {
+        if (activity.points !== undefined) {
+          console.log(
+            `    ${activity.title}: ${formatPoints(activity.points)}`,
+          );
+        }
+      }
+      if (result.meta) {
+        console.log(`  Meta: ${JSON.stringify(result.meta, null, 2)}`);
+      }
+    }
+
+    const total = totalPoints(records);
+    const range = this.points?.range;
+    console.log(
+      total !== null && range
+        ? `\nPoints earned: ${formatPoints(total)} (balance ${range.start} → ${range.end})`
+        : "\nPoints earned: unknown (balance not readable)",
+    );
+
+    const deferred = this.ctx.limiter.getDeferredCount();
+    console.log(
+      `\nRate limit: ${deferred} action(s) deferred, ${this.ctx.limiter.remaining()} remaining this hour`,
+    );
+    console.log(
+      `Random seed: ${this.ctx.random.seed} (reproduce with --seed ${this.ctx.random.seed})`,
+    );
+  }
+}
@@ -0,0 +1,96 @@
+import type { Page } from "playwright";
+import { builtInSelectors } from "./selectors";
+
+// Same endpoint the dashboard polls; shares the profile's cookies via page.request
+const USER_INFO_URL = "https://rewards.bing.com/api/getuserinfo?type=1";
+
+/**
+ * Parses a displayed balance like "12,345" or "12 345 points"; null when there
+ * is no number.
+ */
+export function parsePoints(text: string | null | undefined): number | null {
+  const match = text?.match(/\d[\d,.\s]*/);
+  if (!match) return null;
+  const digits = match[0].replace(/\D/g, "");
+  return digits ? Number(digits) : null;
+}
+
+/**
+ * Reads the account's current points balance, or null when it cannot be read.
+ * Never navigates, so it is safe to call between activities. `selectors` are
+ * the dashboard's balance counters, used when the API is unavailable. Pass
+ * `api: false` in replays: page.request bypasses the replay routes and would
+ * reach the live site.
+ */
+export async function readPointsBalance(
+  page: Page,
+  selectors: string[] = builtInSelectors().balance,
+  options: { api?: boolean } = {},
+): Promise<number | null> {
+  if (options.api ?? true) {
+    try {
+      const response = await page.request.get(USER_INFO_URL);
+      if (response.ok()) {
+        const body = (await response.json()) as {
+          dashboard?: { userStatus?: { availablePoints?: unknown } };
+        };
+        const points = body.dashboard?.userStatus?.availablePoints;
+        if (typeof points === "number") return points;
+      }
+    } catch {
+      // Fall through to the DOM counters
+    }
+  }
+
+  for (const selector of selectors) {
+    try {
+      const text = await page
+        .locator(selector)
+        .first()
+        .textContent({ timeout: 2000 });
+      const points = parsePoints(text);
+      if (points !== null) return points;
+    } catch {
+      // Try the next selector
+    }
+  }
+  return null;
+}
+
+/**
+ * Tracks the balance across readings so callers can attribute each change to
+ * whatever ran in between. Credits that land late count toward the next reading.
+ */
+export class PointsTracker {
+  private first: number | null = null;
+  private last: number | null = null;
+
+  constructor(private readBalance: () => Promise<number | null>) {}
+
+  /** Reads the balance, keeping the previous value when it is unreadable. */
+  async read(): Promise<number | null> {
+    const balance = await this.readBalance();
+    if (balance !== null) {
+      this.first ??= balance;
+      this.last = balance;
+    }
+    return balance;
+  }
+
+  /**
+   * Reads the balance and returns the change since the previous reading, or
+   * null when either reading is missing.
+   */
+  async delta(): Promise<number | null> {
+    const previous = this.last;
+    const current = await this.read();
+    return previous !== null && current !== null ? current - previous : null;
+  }
+
+  /** First and latest balance seen, or null before any successful reading. */
+  get range(): { start: number; end: number } | null {
+    return this.first !== null && this.last !== null
+      ? { start: this.first, end: this.last }
+      : null;
+  }
+}
@@ -0,0 +1,130 @@
+import { Storage } from "../utils/storage";
+
+export type PunchCardTaskKind = "click" | "search" | "unsupported";
+
+export interface PunchCardTask {
+  title: string;
+  kind: PunchCardTaskKind;
+  completed: boolean;
+}
+
+export interface PunchCardProgress {
+  title: string;
+  url: string;
+  totalTasks: number;
+  completedTasks: number;
+  /** Each task seen so far, with the day it was first seen completed. */
+  tasks: Record<string, { kind: PunchCardTaskKind; completedOn?: string }>;
+  /** One entry per day the card was visited, oldest first. */
+  history: { date: string; completed: number; total: number }[];
+  updatedAt: string;
+}
+
+export interface PunchCardData {
+  profiles: Record<string, Record<string, PunchCardProgress>>;
+}
+
+export interface PunchCardStoreOptions {
+  /** Persist to this file; without it progress only lives for this process. */
+  filePath?: string;
+  /** Progress is tracked separately per profile. */
+  profileKey?: string;
+  now?: () => Date;
+}
+
+const HISTORY_DAYS = 60;
+
+/**
+ * Per-profile punch card progress, keyed by the card's detail page URL, so a
+ * card spread over several days picks up where the last run left off.
+ */
+export class PunchCardStore {
+  private storage: Storage<PunchCardData> | null;
+  private memory: PunchCardData = { profiles: {} };
+  private profileKey: string;
+  private now: () => Date;
+
+  constructor(options: PunchCardStoreOptions = {}) {
+    this.profileKey = options.profileKey ?? "default";
+    this.now = options.now ?? (() => new Date());
+    this.storage = options.filePath
+      ? new Storage<PunchCardData>(options.filePath, { profiles: {} })
+      : null;
+  }
+
+  private read(): PunchCardData {
+    return this.storage ? this.storage.reload() : this.memory;
+  }
+
+  get(url: string): PunchCardProgress | undefined {
+    return this.read().profiles[this.profileKey]?.[url];
+  }
+
+  list(): PunchCardProgress[] {
+    return Object.values(this.read().profiles[this.profileKey] ?? {});
+  }
+
+  /** Whether every task of the card was complete on the last visit. */
+  isComplete(url: string): boolean {
+    const progress = this.get(url);
+    return (
+      progress !== undefined &&
+      progress.totalTasks > 0 &&
+      progress.completedTasks >= progress.totalTasks
+    );
+  }
+
+  /**
+   * Saves the task list seen on the card's detail page and returns the merged progress.
+   */
+  record(
+    card: { title: string; url: string },
+    tasks: PunchCardTask[],
+  ): PunchCardProgress {
+    const now = this.now();
+    const today = now.toISOString().split("T")[0]!;
+    const previous = this.get(card.url);
+
+    const taskMap: PunchCardProgress["tasks"] = { ...previous?.tasks };
+    for (const task of tasks) {
+      const completedOn =
+        taskMap[task.title]?.completedOn ??
+        (task.completed ? today : undefined);
+      taskMap[task.title] = {
+        kind: task.kind,
+        ...(completedOn ? { completedOn } : {}),
+      };
+    }
+
+    const completed = tasks.filter((t) => t.completed).length;
+    const history = (previous?.history ?? []).filter((h) => h.date !== today);
+    history.push({ date: today, completed, total: tasks.length });
+
+    const progress: PunchCardProgress = {
+      title: card.title,
+      url: card.url,
+      totalTasks: tasks.length,
+      completedTasks: completed,
+      tasks: taskMap,
+      history: history.slice(-HISTORY_DAYS),
+      updatedAt: now.toISOString(),
+    };
+
+    const update = (data: PunchCardData): PunchCardData => ({
+      profiles: {
+        ...data.profiles,
+        [this.profileKey]: {
+          ...data.profiles[this.profileKey],
+          [card.url]: progress,
+        },
+      },
+    });
+    if (this.storage) {
+      this.storage.reload();
+      this.storage.update(update);
+    } else {
+      this.memory = update(this.memory);
+    }
+    return progress;
+  }
+}
@@ -0,0 +1,227 @@
+import type { Locator, Page } from "playwright";
+import type { CategoryProgress, QuotaCategory, QuotaStatus } from "../types";
+import { Storage } from "../utils/storage";
+import { parsePoints } from "./points";
+import {
+  builtInSelectors,
+  firstMatch,
+  firstText,
+  type Selectors,
+} from "./selectors";
+
+export const QUOTA_PATH = "./.rewards-quota.json";
+
+/** Points one Bing search earns toward its search category. */
+export const POINTS_PER_SEARCH = 3;
+
+const HISTORY_DAYS = 30;
+
+// Breakdown row titles, checked in order ("Mobile search" before plain search)
+const CATEGORY_TITLES: [QuotaCategory, RegExp][] = [
+  ["mobile-search", /mobile\s+search/i],
+  ["pc-search", /\b(pc|desktop)\s+search|^\s*bing\s+search/i],
+  ["daily-set", /daily\s+(set|activit)/i],
+  ["edge-bonus", /\bedge\b/i],
+];
+
+/** The category a points-breakdown row belongs to, or null for other rows. */
+export function quotaCategory(title: string): QuotaCategory | null {
+  return (
+    CATEGORY_TITLES.find(([, pattern]) => pattern.test(title))?.[0] ?? null
+  );
+}
+
+/**
+ * Parses a row's progress like "45 / 90" or "1,200/1,500 points"; null when
+ * it does not show both numbers.
+ */
+export function parseProgress(
+  text: string | null | undefined,
+): CategoryProgress | null {
+  const [earned, max] = text?.split("/") ?? [];
+  const earnedPoints = parsePoints(earned);
+  const maxPoints = parsePoints(max);
+  return earnedPoints !== null && maxPoints !== null
+    ? { earned: earnedPoints, max: maxPoints }
+    : null;
+}
+
+/**
+ * Builds a QuotaStatus from the breakdown's rows. Rows of unknown categories
+ * or without readable progress are left out; null when no row was usable.
+ */
+export function parseBreakdown(
+  rows: { title: string; progress: string }[],
+  readAt: Date = new Date(),
+): QuotaStatus | null {
+  const categories: QuotaStatus["categories"] = {};
+  for (const row of rows) {
+    const category = quotaCategory(row.title);
+    const progress = parseProgress(row.progress);
+    if (category && progress) categories[category] ??= progress;
+  }
+  return Object.keys(categories).length > 0
+    ? { readAt: readAt.toISOString(), categories }
+    : null;
+}
+
+/**
+ * Opens the dashboard's points breakdown, reads every category's progress and
+ * closes it again. Expects the dashboard to be open; null when the breakdown
+ * cannot be opened or holds nothing readable. `click` opens the breakdown
+ * (pass a humanized click); it defaults to a plain one.
+ */
+export async function readQuotaStatus(
+  page: Page,
+  options: {
+    selectors?: Selectors;
+    click?: (locator: Locator) => Promise<void>;
+    now?: () => Date;
+  } = {},
+): Promise<QuotaStatus | null> {
+  const selectors = options.selectors ?? builtInSelectors();
+  const link = await firstMatch(page, selectors.breakdownLink);
+  if (!link) return null;
+
+  await (options.click ?? ((l: Locator) => l.click()))(link.first());
+  try {
+    await page
+      .locator(selectors.breakdownRow.join(", "))
+      .first()
+      .waitFor({ state: "visible", timeout: 10_000 })
+      .catch(() => {});
+    const rows = await firstMatch(page, selectors.breakdownRow);
+    if (!rows) return null;
+
+    const read: { title: string; progress: string }[] = [];
+    for (const row of await rows.all()) {
+      const title = await firstText(row, selectors.breakdownTitle);
+      const progress = await firstText(row, selectors.breakdownProgress);
+      if (title && progress) read.push({ title, progress });
+    }
+    return parseBreakdown(read, options.now?.() ?? new Date());
+  } finally {
+    // The breakdown is a dialog over the dashboard
+    await page.keyboard.press("Escape").catch(() => {});
+  }
+}
+
+export interface QuotaStoreData {
+  /** Per profile: one entry per day, the last reading of that day. */
+  profiles: Record<string, Record<string, QuotaStatus>>;
+}
+
+export interface QuotaStoreOptions {
+  /** Persist to this file; without it readings only live for this process. */
+  filePath?: string;
+  /** Readings are kept separately per profile. */
+  profileKey?: string;
+  now?: () => Date;
+}
+
+/**
+ * Per-profile points-breakdown readings, the latest one per day, so a later
+ * run the same day knows what is left even when the breakdown cannot be read.
+ */
+export class QuotaStore {
+  private storage: Storage<QuotaStoreData> | null;
+  private memory: QuotaStoreData = { profiles: {} };
+  private profileKey: string;
+  private now: () => Date;
+
+  constructor(options: QuotaStoreOptions = {}) {
+    this.profileKey = options.profileKey ?? "default";
+    this.now = options.now ?? (() => new Date());
+    this.storage = options.filePath
+      ? new Storage<QuotaStoreData>(options.filePath, { profiles: {} })
+      : null;
+  }
+
+  private read(): QuotaStoreData {
+    return this.storage ? this.storage.reload() : this.memory;
+  }
+
+  private today(): string {
+    return this.now().toISOString().split("T")[0]!;
+  }
+
+  /** Today's latest reading, if any. */
+  current(): QuotaStatus | undefined {
+    return this.read().profiles[this.profileKey]?.[this.today()];
+  }
+
+  /** Every stored day, oldest first. */
+  list(): { date: string; status: QuotaStatus }[] {
+    return Object.entries(this.read().profiles[this.profileKey] ?? {})
+      .map(([date, status]) => ({ date, status }))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  /** Saves the reading as today's, replacing an earlier one. */
+  record(status: QuotaStatus): void {
+    const today = this.today();
+    const update = (data: QuotaStoreData): QuotaStoreData => {
+      const days = Object.entries(data.profiles[this.profileKey] ?? {})
+        .filter(([date]) => date !== today)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .slice(-(HISTORY_DAYS - 1));
+      return {
+        profiles: {
+          ...data.profiles,
+          [this.profileKey]: { ...Object.fromEntries(days), [today]: status },
+        },
+      };
+    };
+    if (this.storage) {
+      this.storage.reload();
+      this.storage.update(update);
+    } else {
+      this.memory = update(this.memory);
+    }
+  }
+}
+
+/**
+ * The run's view of today's quota: the Controller updates it from the points
+ * breakdown, and handlers ask it how much of their category is left. Starts
+ * from today's stored reading, if any.
+ */
+export class QuotaTracker {
+  private status: QuotaStatus | null;
+
+  constructor(private store: QuotaStore = new QuotaStore()) {
+    this.status = store.current() ?? null;
+  }
+
+  /** Replaces the current reading and stores it as today's. */
+  update(status: QuotaStatus): void {
+    this.status = status;
+    this.store.record(status);
+  }
+
+  get current(): QuotaStatus | null {
+    return this.status;
+  }
+
+  progress(category: QuotaCategory): CategoryProgress | undefined {
+    return this.status?.categories[category];
+  }
+
+  /** Points still to earn in the category; null when it was not read. */
+  remaining(category: QuotaCategory): number | null {
+    const progress = this.progress(category);
+    return progress ? Math.max(0, progress.max - progress.earned) : null;
+  }
+
+  /** Whether the category is known to be fully earned. */
+  isMaxed(category: QuotaCategory): boolean {
+    return this.remaining(category) === 0;
+  }
+}
+
+/** A one-line summary, e.g. "pc-search 45/90, daily-set 30/30". */
+export function formatQuota(status: QuotaStatus): string {
+  return Object.entries(status.categories)
+    .map(([category, p]) => `${category} ${p.earned}/${p.max}`)
+    .join(", ");
+}
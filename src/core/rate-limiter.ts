@@ -0,0 +1,95 @@
+import { Storage } from "../utils/storage";
+
+export type ActionKind = "click" | "search" | "type";
+
+interface ActionStamp {
+  at: number;
+  kind: ActionKind;
+}
+
+export interface RateLimiterData {
+  profiles: Record<string, ActionStamp[]>;
+}
+
+export interface RateLimiterOptions {
+  maxActionsPerHour: number;
+  /** Budgets are tracked separately per profile. */
+  profileKey?: string;
+  /** Persist to this file; without it the limiter only lives for this process. */
+  filePath?: string;
+  /** In dry-run the budget is checked but never consumed. */
+  dryRun?: boolean;
+  now?: () => number;
+}
+
+const WINDOW_MS = 60 * 60 * 1000;
+
+/**
+ * Rolling one-hour action budget shared by all handlers.
+ * State is re-read from disk before every acquire so concurrent or restarted
+ * processes for the same profile draw from the same budget.
+ */
+export class RateLimiter {
+  private storage: Storage<RateLimiterData> | null;
+  private memory: RateLimiterData = { profiles: {} };
+  private deferred = 0;
+  private profileKey: string;
+  private now: () => number;
+
+  constructor(private options: RateLimiterOptions) {
+    this.profileKey = options.profileKey ?? "default";
+    this.now = options.now ?? Date.now;
+    this.storage = options.filePath
+      ? new Storage<RateLimiterData>(options.filePath, { profiles: {} })
+      : null;
+  }
+
+  private read(): RateLimiterData {
+    return this.storage ? this.storage.reload() : this.memory;
+  }
+
+  private recentActions(data: RateLimiterData): ActionStamp[] {
+    const cutoff = this.now() - WINDOW_MS;
+    return (data.profiles[this.profileKey] ?? []).filter((a) => a.at > cutoff);
+  }
+
+  /**
+   * Number of actions still allowed in the current window.
+   */
+  remaining(): number {
+    const used = this.recentActions(this.read()).length;
+    return Math.max(0, this.options.maxActionsPerHour - used);
+  }
+
+  /**
+   * Consumes one action from the budget. Returns false (and counts the action
+   * as deferred) when the hourly limit has been reached.
+   */
+  tryAcquire(kind: ActionKind): boolean {
+    const data = this.read();
+    const recent = this.recentActions(data);
+
+    if (recent.length >= this.options.maxActionsPerHour) {
+      this.deferred++;
+      return false;
+    }
+    if (this.options.dryRun) return true;
+
+    const next: RateLimiterData = {
+      profiles: {
+        ...data.profiles,
+        [this.profileKey]: [...recent, { at: this.now(), kind }],
+      },
+    };
+    if (this.storage) this.storage.set(next);
+    else this.memory = next;
+    return true;
+  }
+
+  /**
+   * Actions refused by this limiter instance since it was created.
+   */
+  getDeferredCount(): number {
+    return this.deferred;
+  }
+}
@@ -0,0 +1,115 @@
+import {
+  ExitCode,
+  type ActionResult,
+  type ActivityOutcome,
+  type ExtendedConfig,
+} from "../types";
+import type { ProfileRunSummary } from "./batch";
+import { totalPoints } from "./controller";
+
+export type RunOutcome = "success" | "partial" | "not-logged-in" | "fatal";
+
+export interface ProfileReport {
+  profile: string;
+  outcome: RunOutcome;
+  durationMs: number;
+  handlers: { id: string; handler: string; result: ActionResult }[];
+  activities: (ActivityOutcome & { handler: string })[];
+  /** Points earned on this profile; null when the balance was never readable. */
+  pointsDelta: number | null;
+  /** Seed this profile's run used, see ProfileRunSummary.seed. */
+  seed?: number;
+  error?: string;
+}
+
+/**
+ * The document `run --json` prints: one per run (one line per run in daemon mode).
+ */
+export interface RunReport {
+  version: 1;
+  startedAt: string;
+  finishedAt: string;
+  outcome: RunOutcome;
+  exitCode: number;
+  config: ExtendedConfig;
+  profiles: ProfileReport[];
+  pointsDelta: number | null;
+}
+
+const EXIT_CODES: Record<RunOutcome, number> = {
+  success: ExitCode.Success,
+  partial: ExitCode.PartialFailure,
+  "not-logged-in": ExitCode.NotLoggedIn,
+  fatal: ExitCode.Fatal,
+};
+
+export function profileOutcome(summary: ProfileRunSummary): RunOutcome {
+  switch (summary.status) {
+    case "error":
+      return "fatal";
+    case "not-logged-in":
+      return "not-logged-in";
+    case "failed":
+      return "partial";
+    default:
+      return "success";
+  }
+}
+
+/**
+ * Combines profile outcomes. A signed-out profile wins because it needs a person;
+ * otherwise the run is fatal only when every profile crashed.
+ */
+export function overallOutcome(outcomes: RunOutcome[]): RunOutcome {
+  if (outcomes.includes("not-logged-in")) return "not-logged-in";
+  if (outcomes.length > 0 && outcomes.every((o) => o === "fatal")) {
+    return "fatal";
+  }
+  if (outcomes.some((o) => o === "fatal" || o === "partial")) {
+    return "partial";
+  }
+  return "success";
+}
+
+export function exitCodeFor(outcome: RunOutcome): number {
+  return EXIT_CODES[outcome];
+}
+
+export function buildRunReport(
+  config: ExtendedConfig,
+  summaries: ProfileRunSummary[],
+  times: { startedAt: Date; finishedAt: Date },
+): RunReport {
+  const profiles: ProfileReport[] = summaries.map((summary) => ({
+    profile: summary.profile,
+    outcome: profileOutcome(summary),
+    durationMs: summary.durationMs,
+    handlers: summary.records.map(({ id, handler, result }) => ({
+      id,
+      handler,
+      result,
+    })),
+    activities: summary.records.flatMap(({ handler, result }) =>
+      (result.activities ?? []).map((a) => ({ ...a, handler })),
+    ),
+    pointsDelta: totalPoints(summary.records),
+    ...(summary.seed !== undefined ? { seed: summary.seed } : {}),
+    ...(summary.error ? { error: summary.error } : {}),
+  }));
+  const outcome = overallOutcome(profiles.map((p) => p.outcome));
+  const deltas = profiles
+    .map((p) => p.pointsDelta)
+    .filter((d): d is number => d !== null);
+
+  return {
+    version: 1,
+    startedAt: times.startedAt.toISOString(),
+    finishedAt: times.finishedAt.toISOString(),
+    outcome,
+    exitCode: exitCodeFor(outcome),
+    config,
+    profiles,
+    pointsDelta:
+      deltas.length > 0 ? deltas.reduce((sum, d) => sum + d, 0) : null,
+  };
+}
@@ -0,0 +1,146 @@
+import { resolve } from "path";
+import { createInterface } from "readline/promises";
+import { Storage } from "../utils/storage";
+import { ExitCode, type ExtendedConfig } from "../types";
+
+/** Bump when the notice text changes materially so profiles re-acknowledge. */
+export const TOS_VERSION = 1;
+
+export const TOS_NOTICE = `
+Automating Microsoft Rewards may violate the Microsoft Services Agreement and
+Rewards terms. Microsoft can suspend the account and forfeit its points.
+The agent uses human-like pacing but cannot make automation undetectable.
+Prefer a test account, keep limits conservative, and use --dry-run first.
+`;
+
+export interface AcknowledgementData {
+  profiles: Record<string, { acknowledgedAt: string; version: number }>;
+}
+
+/**
+ * Remembers which profiles have accepted the TOS risk notice.
+ */
+export class AcknowledgementStore {
+  private storage: Storage<AcknowledgementData>;
+
+  constructor(filePath: string = "./.rewards-ack.json") {
+    this.storage = new Storage(filePath, { profiles: {} });
+  }
+
+  has(profileKey: string): boolean {
+    return this.storage.get().profiles[profileKey]?.version === TOS_VERSION;
+  }
+
+  record(profileKey: string): void {
+    this.storage.update((data) => ({
+      profiles: {
+        ...data.profiles,
+        [profileKey]: {
+          acknowledgedAt: new Date().toISOString(),
+          version: TOS_VERSION,
+        },
+      },
+    }));
+  }
+}
+
+export class SafetyGateError extends Error {
+  constructor(
+    message: string,
+    public readonly exitCode: number,
+  ) {
+    super(message);
+    this.name = "SafetyGateError";
+  }
+}
+
+/**
+ * A profile about to run live. `key` is what acknowledgements are stored under;
+ * `names` are every name the user might list in `testProfiles`.
+ */
+export interface LiveProfile {
+  key: string;
+  names: string[];
+}
+
+/**
+ * The LiveProfile of a single-profile run. An Edge profile is keyed by its
+ * folder; any other run by its resolved user data dir, so every `-u`
+ * directory acknowledges the notice on its own.
+ */
+export function liveProfileFor(config: ExtendedConfig): LiveProfile {
+  return {
+    key: config.profileDir ?? resolve(config.userDataDir),
+    names: [config.profileName ?? "default", config.profileDir ?? ""],
+  };
+}
+
+export function isTestProfile(
+  config: ExtendedConfig,
+  profile: LiveProfile,
+): boolean {
+  const testNames = config.testProfiles.map((n) => n.toLowerCase());
+  return profile.names.some((n) => testNames.includes(n.toLowerCase()));
+}
+
+async function askInTerminal(question: string): Promise<string> {
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    return await rl.question(question);
+  } finally {
+    rl.close();
+  }
+}
+
+/**
+ * Blocks live runs until every profile has acknowledged the TOS notice and,
+ * unless it is listed in `testProfiles`, the user passed --confirm.
+ * Throws SafetyGateError carrying the exit code to use.
+ */
+export async function ensureLiveRunAllowed(options: {
+  config: ExtendedConfig;
+  profiles: LiveProfile[];
+  store: AcknowledgementStore;
+  interactive: boolean;
+  ask?: (question: string) => Promise<string>;
+}): Promise<void> {
+  const { config, profiles, store, interactive } = options;
+  // Replays run against a saved snapshot and never reach a live account
+  if (config.dryRun || config.replayDir) return;
+
+  const unconfirmed = profiles.filter((p) => !isTestProfile(config, p));
+  if (unconfirmed.length > 0 && !config.confirm) {
+    throw new SafetyGateError(
+      `Live runs on profiles not listed in testProfiles require --confirm (${unconfirmed
+        .map((p) => p.names[0] ?? p.key)
+        .join(", ")}).`,
+      ExitCode.ConfirmationRequired,
+    );
+  }
+
+  const ask = options.ask ?? askInTerminal;
+  for (const profile of profiles) {
+    if (store.has(profile.key)) continue;
+
+    const label = profile.names[0] ?? profile.key;
+    if (!interactive) {
+      throw new SafetyGateError(
+        `Profile "${label}" has not acknowledged the Terms of Service risk notice. ` +
+          "Run once from an interactive terminal to acknowledge it.",
+        ExitCode.AcknowledgementRequired,
+      );
+    }
+
+    console.log(TOS_NOTICE);
+    const answer = await ask(
+      `Type "I AGREE" to accept this risk for profile "${label}": `,
+    );
+    if (answer.trim().toUpperCase() !== "I AGREE") {
+      throw new SafetyGateError(
+        `Terms of Service risk notice not accepted for profile "${label}".`,
+        ExitCode.AcknowledgementRequired,
+      );
+    }
+    store.record(profile.key);
+  }
+}
@@ -0,0 +1,253 @@
+import { setTimeout as delay } from "timers/promises";
+import { Storage, type MetricsStore } from "../utils/storage";
+
+/**
+ * A daily window in local time, parsed from "HH:MM-HH:MM".
+ */
+export interface ScheduleWindow {
+  id: string;
+  startMinutes: number;
+  endMinutes: number;
+}
+
+export interface PlannedRun {
+  windowId: string;
+  /** Local date, YYYY-MM-DD. */
+  date: string;
+  plannedAt: number;
+  status: "pending" | "done" | "missed";
+  completedAt?: number;
+  /** Why the window was closed without this daemon running it. */
+  reason?: string;
+}
+
+export interface SchedulerData {
+  profiles: Record<string, Record<string, PlannedRun>>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RETAIN_DAYS = 14;
+
+export function parseWindow(spec: string): ScheduleWindow {
+  const match = /^\s*(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})\s*$/.exec(spec);
+  if (!match) {
+    throw new Error(`Invalid schedule window "${spec}". Expected HH:MM-HH:MM`);
+  }
+  const [sh, sm, eh, em] = match.slice(1).map(Number) as [
+    number,
+    number,
+    number,
+    number,
+  ];
+  if (sh > 23 || eh > 23 || sm > 59 || em > 59) {
+    throw new Error(`Invalid time in schedule window "${spec}"`);
+  }
+  const startMinutes = sh * 60 + sm;
+  const endMinutes = eh * 60 + em;
+  if (endMinutes <= startMinutes) {
+    throw new Error(
+      `Schedule window "${spec}" must end after it starts (overnight windows are not supported)`,
+    );
+  }
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return {
+    id: `${pad(sh)}:${pad(sm)}-${pad(eh)}:${pad(em)}`,
+    startMinutes,
+    endMinutes,
+  };
+}
+
+export function localDateKey(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function minutesOnDate(dateKey: string, minutes: number): number {
+  const [y, m, d] = dateKey.split("-").map(Number) as [number, number, number];
+  return new Date(
+    y,
+    m - 1,
+    d,
+    Math.floor(minutes / 60),
+    minutes % 60,
+  ).getTime();
+}
+
+/**
+ * Plans one randomized run per window per day and remembers them on disk, so a
+ * restarted daemon keeps the same start times and never repeats a finished window.
+ */
+export class Scheduler {
+  private storage: Storage<SchedulerData>;
+  private windows: ScheduleWindow[];
+  private random: () => number;
+
+  constructor(
+    private options: {
+      windows: string[];
+      profileKey: string;
+      filePath: string;
+      /** Used to treat windows as done when a run already succeeded (e.g. a manual run). */
+      metrics?: Pick<MetricsStore, "hasSuccessfulRunBetween">;
+      random?: () => number;
+    },
+  ) {
+    if (options.windows.length === 0) {
+      throw new Error("Daemon mode needs at least one schedule window");
+    }
+    this.windows = options.windows
+      .map(parseWindow)
+      .sort((a, b) => a.startMinutes - b.startMinutes);
+    this.random = options.random ?? Math.random;
+    this.storage = new Storage<SchedulerData>(options.filePath, {
+      profiles: {},
+    });
+  }
+
+  private getRuns(): Record<string, PlannedRun> {
+    return this.storage.reload().profiles[this.options.profileKey] ?? {};
+  }
+
+  private saveRun(run: PlannedRun): void {
+    const cutoff = localDateKey(new Date(Date.now() - RETAIN_DAYS * DAY_MS));
+    this.storage.update((data) => {
+      const existing = data.profiles[this.options.profileKey] ?? {};
+      const kept = Object.fromEntries(
+        Object.entries(existing).filter(([, r]) => r.date >= cutoff),
+      );
+      return {
+        profiles: {
+          ...data.profiles,
+          [this.options.profileKey]: {
+            ...kept,
+            [`${run.date}|${run.windowId}`]: run,
+          },
+        },
+      };
+    });
+  }
+
+  /**
+   * Returns the next pending run, planning (and persisting) it if needed.
+   * Windows whose end has passed without a run are marked missed, which is
+   * what happens after the machine sleeps through a window.
+   */
+  nextRun(now: Date): PlannedRun {
+    const nowMs = now.getTime();
+    const runs = this.getRuns();
+
+    for (let dayOffset = 0; dayOffset < 3; dayOffset++) {
+      const date = localDateKey(new Date(nowMs + dayOffset * DAY_MS));
+
+      for (const [index, window] of this.windows.entries()) {
+        const key = `${date}|${window.id}`;
+        const existing = runs[key];
+        if (existing && existing.status !== "pending") continue;
+
+        const start = minutesOnDate(date, window.startMinutes);
+        const end = minutesOnDate(date, window.endMinutes);
+
+        if (nowMs >= end) {
+          this.saveRun({
+            windowId: window.id,
+            date,
+            plannedAt: existing?.plannedAt ?? start,
+            status: "missed",
+            reason: "window ended before a run started",
+          });
+          continue;
+        }
+
+        // A successful run since the previous window closed (or midnight) covers this
+        // window. Our own run for the previous window may finish after it closes, so
+        // only count runs recorded after that one completed.
+        const prev = this.windows[index - 1];
+        const coveredFrom = prev
+          ? Math.max(
+              minutesOnDate(date, prev.endMinutes),
+              (runs[`${date}|${prev.id}`]?.completedAt ?? 0) + 1,
+            )
+          : minutesOnDate(date, 0);
+        if (this.options.metrics?.hasSuccessfulRunBetween(coveredFrom, end)) {
+          this.saveRun({
+            windowId: window.id,
+            date,
+            plannedAt: existing?.plannedAt ?? start,
+            status: "done",
+            reason: "already completed according to metrics",
+          });
+          continue;
+        }
+
+        if (existing) return existing;
+
+        const earliest = Math.max(start, nowMs);
+        const planned: PlannedRun = {
+          windowId: window.id,
+          date,
+          plannedAt: Math.floor(earliest + this.random() * (end - earliest)),
+          status: "pending",
+        };
+        this.saveRun(planned);
+        return planned;
+      }
+    }
+
+    throw new Error("No schedule window found in the next 3 days");
+  }
+
+  markDone(run: PlannedRun, completedAt: number = Date.now()): void {
+    this.saveRun({ ...run, status: "done", completedAt });
+  }
+}
+
+/**
+ * Keeps running `runOnce` at the scheduler's planned times until `signal` aborts.
+ * Sleeps in short ticks and re-plans on each wake-up, so clock jumps from
+ * sleep/resume are picked up instead of trusting one long timer.
+ */
+export async function runDaemon(
+  scheduler: Scheduler,
+  runOnce: () => Promise<void>,
+  options: {
+    signal?: AbortSignal;
+    tickMs?: number;
+    now?: () => Date;
+    sleep?: (ms: number) => Promise<void>;
+  } = {},
+): Promise<void> {
+  const tickMs = options.tickMs ?? 60_000;
+  const now = options.now ?? (() => new Date());
+  // Aborting ends the sleep early; the loop then sees the signal and stops
+  const sleep =
+    options.sleep ??
+    ((ms: number) =>
+      delay(ms, undefined, { signal: options.signal }).catch(() => {}));
+  let announced: string | undefined;
+
+  while (!options.signal?.aborted) {
+    const next = scheduler.nextRun(now());
+    const key = `${next.date}|${next.windowId}`;
+
+    if (now().getTime() >= next.plannedAt) {
+      console.log(
+        `[Daemon] Starting scheduled run (${next.date} ${next.windowId})`,
+      );
+      try {
+        await runOnce();
+      } catch (err) {
+        console.error("[Daemon] Scheduled run failed:", err);
+      }
+      scheduler.markDone(next, now().getTime());
+      continue;
+    }
+
+    if (announced !== key) {
+      console.log(
+        `[Daemon] Next run at ${new Date(next.plannedAt).toLocaleString()} (window ${next.windowId})`,
+      );
+      announced = key;
+    }
+    await sleep(Math.min(next.plannedAt - now().getTime(), tickMs));
+  }
+}
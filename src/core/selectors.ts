@@ -0,0 +1,329 @@
+import { existsSync, readFileSync } from "fs";
+import { dirname, resolve } from "path";
+import { fileURLToPath } from "url";
+import type { Locator, Page } from "playwright";
+import { z } from "zod";
+
+export const DEFAULT_SELECTORS_FILE = "rewards.selectors.json";
+
+/** Every selector the dashboard code depends on, one ordered list per concept. */
+export const SELECTOR_CONCEPTS = [
+  "sectionHeading",
+  "sectionContainer",
+  "card",
+  "moreActivitiesCards",
+  "exploreCards",
+  "completed",
+  "locked",
+  "title",
+  "description",
+  "points",
+  "punchCardTask",
+  "taskTitle",
+  "balance",
+  "breakdownLink",
+  "breakdownRow",
+  "breakdownTitle",
+  "breakdownProgress",
+] as const;
+
+export type SelectorConcept = (typeof SELECTOR_CONCEPTS)[number];
+
+export type Selectors = Record<SelectorConcept, string[]>;
+
+export interface SelectorPack {
+  /** Version of the built-in pack; bumped whenever its selectors change. */
+  version: number;
+  selectors: Selectors;
+  /** Where each concept's list came from: "built-in" or the override file. */
+  sources: Record<SelectorConcept, string>;
+  overrideFile?: string;
+  /** Non-fatal problems with the override file, e.g. an outdated version. */
+  warnings: string[];
+}
+
+export class SelectorPackError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SelectorPackError";
+  }
+}
+
+const SelectorListSchema = z.array(z.string().min(1)).min(1);
+
+const BuiltInPackSchema = z
+  .object({
+    version: z.number().int().positive(),
+    selectors: z
+      .object(
+        Object.fromEntries(
+          SELECTOR_CONCEPTS.map((concept) => [concept, SelectorListSchema]),
+        ) as Record<SelectorConcept, typeof SelectorListSchema>,
+      )
+      .strict(),
+  })
+  .strict();
+
+// Overrides may replace any subset of concepts
+const OverridePackSchema = z
+  .object({
+    version: z.number().int().positive(),
+    selectors: BuiltInPackSchema.shape.selectors.partial(),
+  })
+  .strict();
+
+export function getBuiltInSelectorPackPath(): string {
+  const thisDir = dirname(fileURLToPath(import.meta.url));
+  return resolve(thisDir, "../../data/selectors.json");
+}
+
+function readPackFile<T>(path: string, schema: z.ZodType<T>): T {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new SelectorPackError(
+      `Failed to read selector pack ${path}: ${reason}`,
+    );
+  }
+  const parsed = schema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(
+      (issue) => `${issue.path.join(".") || "<root>"}: ${issue.message}`,
+    );
+    throw new SelectorPackError(
+      `Invalid selector pack ${path}:\n  ${issues.join("\n  ")}`,
+    );
+  }
+  return parsed.data;
+}
+
+function readBuiltInPack(path = getBuiltInSelectorPackPath()): SelectorPack {
+  const builtIn = readPackFile(path, BuiltInPackSchema);
+  return {
+    version: builtIn.version,
+    selectors: builtIn.selectors,
+    sources: Object.fromEntries(
+      SELECTOR_CONCEPTS.map((concept) => [concept, "built-in"]),
+    ) as Record<SelectorConcept, string>,
+    warnings: [],
+  };
+}
+
+/**
+ * Loads the built-in selector pack and applies the override file on top of it.
+ * An override replaces whole concepts; concepts it leaves out keep the
+ * built-in list. Without `overridePath`, ./rewards.selectors.json is used if present.
+ */
+export function loadSelectorPack(
+  options: { overridePath?: string; cwd?: string; builtInPath?: string } = {},
+): SelectorPack {
+  const pack = readBuiltInPack(options.builtInPath);
+
+  const cwd = options.cwd ?? process.cwd();
+  let overrideFile: string | undefined;
+  if (options.overridePath) {
+    overrideFile = resolve(cwd, options.overridePath);
+    if (!existsSync(overrideFile)) {
+      throw new SelectorPackError(
+        `Selector override file not found: ${overrideFile}`,
+      );
+    }
+  } else if (existsSync(resolve(cwd, DEFAULT_SELECTORS_FILE))) {
+    overrideFile = resolve(cwd, DEFAULT_SELECTORS_FILE);
+  }
+  if (!overrideFile) return pack;
+
+  const override = readPackFile(overrideFile, OverridePackSchema);
+  pack.overrideFile = overrideFile;
+  for (const concept of SELECTOR_CONCEPTS) {
+    const list = override.selectors[concept];
+    if (!list) continue;
+    pack.selectors = { ...pack.selectors, [concept]: list };
+    pack.sources[concept] = overrideFile;
+  }
+  if (override.version < pack.version) {
+    pack.warnings.push(
+      `${overrideFile} was written for selector pack v${override.version}, but the built-in pack is v${pack.version}; its overrides may replace selectors that have since been fixed.`,
+    );
+  }
+  return pack;
+}
+
+let builtInPack: SelectorPack | undefined;
+
+/**
+ * The built-in selectors alone, read once. Used wherever no pack was passed in.
+ */
+export function builtInSelectors(): Selectors {
+  builtInPack ??= readBuiltInPack();
+  return builtInPack.selectors;
+}
+
+/**
+ * The first selector in `selectors` that matches anything under `scope`, as a
+ * locator over all its matches; null when none match.
+ */
+export async function firstMatch(
+  scope: Page | Locator,
+  selectors: string[],
+): Promise<Locator | null> {
+  for (const selector of selectors) {
+    const locator = scope.locator(selector);
+    if ((await locator.count()) > 0) return locator;
+  }
+  return null;
+}
+
+/** Whether any of `selectors` matches under `scope`. */
+export async function anyMatch(
+  scope: Page | Locator,
+  selectors: string[],
+): Promise<boolean> {
+  return (await firstMatch(scope, selectors)) !== null;
+}
+
+/**
+ * Text of the first element matched by the first selector that matches
+ * anything under `scope`; null when none match or the text is empty.
+ */
+export async function firstText(
+  scope: Locator,
+  selectors: string[],
+): Promise<string | null> {
+  for (const selector of selectors) {
+    const locator = scope.locator(selector);
+    if ((await locator.count()) === 0) continue;
+    const text = await locator.first().textContent();
+    if (text?.trim()) return text;
+  }
+  return null;
+}
+
+/** How one selector fared in `selectors check`. */
+export interface SelectorMatchCount {
+  selector: string;
+  matches: number;
+}
+
+export interface SelectorConceptCheck {
+  concept: SelectorConcept;
+  /** "built-in" or the override file. */
+  source: string;
+  /**
+   * page: whole dashboard; section: under a section heading; card: inside
+   * cards; detail: on a card's own page or in a dialog, so never checked.
+   */
+  scope: "page" | "section" | "card" | "detail";
+  /** Runs cannot find any cards without this concept. */
+  required: boolean;
+  /** Empty for concepts that cannot be checked on the dashboard. */
+  counts: SelectorMatchCount[];
+  /** The selector the handlers would use: the first with any match. */
+  active?: string;
+}
+
+const CONCEPT_SCOPES: Record<SelectorConcept, SelectorConceptCheck["scope"]> = {
+  sectionHeading: "page",
+  sectionContainer: "section",
+  card: "page",
+  moreActivitiesCards: "page",
+  exploreCards: "page",
+  completed: "card",
+  locked: "card",
+  title: "card",
+  description: "card",
+  points: "card",
+  // Only present on a punch card's own page
+  punchCardTask: "detail",
+  taskTitle: "detail",
+  balance: "page",
+  breakdownLink: "page",
+  // Only present once the points breakdown dialog is open
+  breakdownRow: "detail",
+  breakdownTitle: "detail",
+  breakdownProgress: "detail",
+};
+
+const REQUIRED_CONCEPTS: SelectorConcept[] = [
+  "sectionHeading",
+  "sectionContainer",
+  "card",
+  "title",
+];
+
+const KNOWN_SECTIONS = /daily\s+set|more\s+activities|punch\s*cards?/i;
+
+async function countAll(
+  scope: Page | Locator,
+  selectors: string[],
+): Promise<SelectorMatchCount[]> {
+  const counts: SelectorMatchCount[] = [];
+  for (const selector of selectors) {
+    const matches = await scope
+      .locator(selector)
+      .count()
+      .catch(() => 0);
+    counts.push({ selector, matches });
+  }
+  return counts;
+}
+
+/**
+ * Counts what every selector in the pack matches on the open dashboard, so a
+ * dashboard redesign shows up as concepts whose selectors all match nothing.
+ */
+export async function checkSelectors(
+  page: Page,
+  pack: SelectorPack,
+): Promise<SelectorConceptCheck[]> {
+  const { selectors } = pack;
+  const active = (counts: SelectorMatchCount[]) =>
+    counts.find((c) => c.matches > 0)?.selector;
+
+  const checks: SelectorConceptCheck[] = [];
+  const add = (concept: SelectorConcept, counts: SelectorMatchCount[]) => {
+    checks.push({
+      concept,
+      source: pack.sources[concept],
+      scope: CONCEPT_SCOPES[concept],
+      required: REQUIRED_CONCEPTS.includes(concept),
+      counts,
+      active: active(counts),
+    });
+  };
+
+  const headingCounts = await countAll(page, selectors.sectionHeading);
+  const heading = page
+    .locator(active(headingCounts) ?? selectors.sectionHeading[0]!)
+    .filter({ hasText: KNOWN_SECTIONS })
+    .first();
+  const cardCounts = await countAll(page, selectors.card);
+  const cards = page.locator(active(cardCounts) ?? selectors.card[0]!);
+
+  for (const concept of SELECTOR_CONCEPTS) {
+    switch (CONCEPT_SCOPES[concept]) {
+      case "page":
+        add(
+          concept,
+          concept === "sectionHeading"
+            ? headingCounts
+            : concept === "card"
+              ? cardCounts
+              : await countAll(page, selectors[concept]),
+        );
+        break;
+      case "section":
+        add(concept, await countAll(heading, selectors[concept]));
+        break;
+      case "card":
+        add(concept, await countAll(cards, selectors[concept]));
+        break;
+      case "detail":
+        add(concept, []);
+        break;
+    }
+  }
+  return checks;
+}
@@ -0,0 +1,49 @@
+import type { Page } from "playwright";
+
+export const REWARDS_URL = "https://rewards.bing.com/";
+
+// Signed-out visits to the dashboard redirect here
+const LOGIN_HOSTS = ["login.live.com", "login.microsoftonline.com"];
+
+// Sign-in prompt on the signed-out Rewards landing page
+const SIGN_IN_SELECTORS = ["#raf-signin-link-id"];
+
+export class NotLoggedInError extends Error {
+  constructor(
+    message = "The browser profile is not signed in to Microsoft Rewards",
+  ) {
+    super(message);
+    this.name = "NotLoggedInError";
+  }
+}
+
+/**
+ * Whether the page shows a login redirect or the signed-out landing page.
+ */
+export async function isSignedOut(page: Page): Promise<boolean> {
+  const host = new URL(page.url()).hostname;
+  if (LOGIN_HOSTS.includes(host)) return true;
+
+  for (const selector of SIGN_IN_SELECTORS) {
+    const visible = await page
+      .locator(selector)
+      .first()
+      .isVisible()
+      .catch(() => false);
+    if (visible) return true;
+  }
+  return false;
+}
+
+/**
+ * Opens the Rewards dashboard and throws NotLoggedInError when the profile is
+ * signed out, so no handler runs against a login page.
+ */
+export async function ensureLoggedIn(page: Page): Promise<void> {
+  await page.goto(REWARDS_URL, { waitUntil: "domcontentloaded" });
+  if (await isSignedOut(page)) {
+    throw new NotLoggedInError(
+      `Not signed in to Microsoft Rewards (ended up at ${page.url()}). Sign in with this profile in Edge, then run again.`,
+    );
+  }
+}
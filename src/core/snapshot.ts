@@ -0,0 +1,238 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { join, resolve } from "path";
+import type { Page } from "playwright";
+import { REWARDS_URL, ensureLoggedIn } from "./session";
+import { firstMatch, type Selectors } from "./selectors";
+import type { RateLimiter } from "./rate-limiter";
+
+export const SNAPSHOT_VERSION = 1;
+const MANIFEST_FILE = "manifest.json";
+
+export interface SnapshotPage {
+  /** URL the page was captured from, with secret query parameters removed. */
+  url: string;
+  /** HTML file, relative to the snapshot directory. */
+  file: string;
+  kind: "dashboard" | "activity";
+}
+
+export interface SnapshotManifest {
+  version: number;
+  capturedAt: string;
+  pages: SnapshotPage[];
+}
+
+export class SnapshotError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SnapshotError";
+  }
+}
+
+// Query parameters that carry sign-in state or per-user ids
+const SECRET_PARAMS =
+  /^(token|access_token|id_token|auth|code|sig|signature|session|sid|wlexpsignin|rtoken|puid|anid|muid)$/i;
+
+const EMAIL = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g;
+
+/**
+ * Removes secret query parameters and the fragment from a URL. Relative or
+ * unparseable URLs are returned unchanged.
+ */
+export function stripUrlSecrets(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return url;
+  }
+  for (const name of [...parsed.searchParams.keys()]) {
+    if (SECRET_PARAMS.test(name)) parsed.searchParams.delete(name);
+  }
+  parsed.hash = "";
+  return parsed.toString();
+}
+
+/**
+ * Makes captured HTML safe to commit: drops scripts (the DOM is already
+ * rendered), form values, token meta tags, email addresses and secret URL
+ * parameters.
+ */
+export function stripSecrets(html: string): string {
+  return html
+    .replace(/<script\b[^>]*>[\s\S]*?<\/script>/gi, "")
+    .replace(/(<input\b[^>]*?)\svalue="[^"]*"/gi, "$1")
+    .replace(
+      /(<meta\b[^>]*?(?:name|property)="[^"]*(?:token|csrf)[^"]*"[^>]*?)\scontent="[^"]*"/gi,
+      "$1",
+    )
+    .replace(
+      /\b(href|src|action)="([^"]*)"/gi,
+      (_, attr: string, url: string) =>
+        `${attr}="${stripUrlSecrets(url.replace(/&amp;/g, "&")).replace(/&/g, "&amp;")}"`,
+    )
+    .replace(EMAIL, "user@example.com");
+}
+
+/**
+ * The key a URL is stored and looked up under: secrets and fragment removed,
+ * query parameters sorted.
+ */
+export function snapshotKey(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(stripUrlSecrets(url));
+  } catch {
+    return url;
+  }
+  parsed.searchParams.sort();
+  return parsed.toString();
+}
+
+function pageFileName(index: number, url: string): string {
+  const host = new URL(url).hostname.replace(/[^a-z0-9]+/gi, "-");
+  return `pages/${String(index + 1).padStart(3, "0")}-${host}.html`;
+}
+
+/**
+ * Writes captured pages and their manifest to `dir`, stripping secrets on the way.
+ */
+export function saveSnapshot(
+  dir: string,
+  pages: { url: string; html: string; kind: SnapshotPage["kind"] }[],
+  capturedAt: Date = new Date(),
+): SnapshotManifest {
+  mkdirSync(join(dir, "pages"), { recursive: true });
+  const manifest: SnapshotManifest = {
+    version: SNAPSHOT_VERSION,
+    capturedAt: capturedAt.toISOString(),
+    pages: [],
+  };
+  for (const [index, page] of pages.entries()) {
+    const file = pageFileName(index, page.url);
+    writeFileSync(join(dir, file), stripSecrets(page.html));
+    manifest.pages.push({
+      url: stripUrlSecrets(page.url),
+      file,
+      kind: page.kind,
+    });
+  }
+  writeFileSync(
+    join(dir, MANIFEST_FILE),
+    JSON.stringify(manifest, null, 2) + "\n",
+  );
+  return manifest;
+}
+
+export function readSnapshot(dir: string): SnapshotManifest {
+  const path = resolve(dir, MANIFEST_FILE);
+  if (!existsSync(path)) {
+    throw new SnapshotError(
+      `No snapshot found in ${resolve(dir)} (missing ${MANIFEST_FILE})`,
+    );
+  }
+  let manifest: SnapshotManifest;
+  try {
+    manifest = JSON.parse(readFileSync(path, "utf-8")) as SnapshotManifest;
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new SnapshotError(`Failed to read ${path}: ${reason}`);
+  }
+  if (manifest.version !== SNAPSHOT_VERSION || !Array.isArray(manifest.pages)) {
+    throw new SnapshotError(
+      `Unsupported snapshot format in ${path} (expected version ${SNAPSHOT_VERSION})`,
+    );
+  }
+  return manifest;
+}
+
+export interface ReplayResponse {
+  status: number;
+  contentType: string;
+  body: string;
+}
+
+/**
+ * What replay serves for a request: the captured page when the URL was
+ * snapshotted, otherwise a 404 so nothing reaches the network.
+ */
+export function replayResponse(
+  dir: string,
+  manifest: SnapshotManifest,
+  url: string,
+): ReplayResponse {
+  const key = snapshotKey(url);
+  const page = manifest.pages.find((p) => snapshotKey(p.url) === key);
+  if (page) {
+    return {
+      status: 200,
+      contentType: "text/html; charset=utf-8",
+      body: readFileSync(join(dir, page.file), "utf-8"),
+    };
+  }
+  return {
+    status: 404,
+    contentType: "text/plain; charset=utf-8",
+    body: `Not in snapshot: ${url}`,
+  };
+}
+
+/**
+ * Saves the dashboard, then opens up to `maxActivities` activity links in a
+ * separate tab and saves each page they lead to. Opening an activity page can
+ * credit it, just as a click would, so each one needs "click" budget from the
+ * limiter; once it is spent, the remaining pages are skipped.
+ */
+export async function captureSnapshot(
+  page: Page,
+  dir: string,
+  options: {
+    selectors: Selectors;
+    maxActivities: number;
+    limiter: RateLimiter;
+  },
+): Promise<SnapshotManifest> {
+  await ensureLoggedIn(page);
+  await page.waitForLoadState("networkidle").catch(() => {});
+  const pages: { url: string; html: string; kind: SnapshotPage["kind"] }[] = [
+    { url: REWARDS_URL, html: await page.content(), kind: "dashboard" },
+  ];
+
+  const cards = await firstMatch(page, options.selectors.card);
+  const hrefs = cards
+    ? await cards
+        .locator("a[href]")
+        .evaluateAll((links) => links.map((a) => (a as HTMLAnchorElement).href))
+    : [];
+  const activityUrls = [
+    ...new Set(
+      hrefs.filter(
+        (href) =>
+          /^https?:/.test(href) &&
+          snapshotKey(href) !== snapshotKey(REWARDS_URL),
+      ),
+    ),
+  ].slice(0, options.maxActivities);
+
+  for (const url of activityUrls) {
+    if (!options.limiter.tryAcquire("click")) {
+      console.log(
+        "[Snapshot] Hourly rate limit reached, skipping the remaining activity pages",
+      );
+      break;
+    }
+    const tab = await page.context().newPage();
+    try {
+      await tab.goto(url, { waitUntil: "domcontentloaded" });
+      await tab.waitForLoadState("networkidle").catch(() => {});
+      pages.push({ url, html: await tab.content(), kind: "activity" });
+      console.log(`[Snapshot] Captured ${stripUrlSecrets(url)}`);
+    } catch (error) {
+      console.error(`[Snapshot] Failed to capture ${url}:`, error);
+    } finally {
+      await tab.close().catch(() => {});
+    }
+  }
+
+  return saveSnapshot(dir, pages);
+}
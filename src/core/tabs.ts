@@ -0,0 +1,118 @@
+import type { Frame, Page } from "playwright";
+
+export interface TabManagerOptions {
+  /** How long to wait for a click to open a tab or navigate its own tab. */
+  openTimeoutMs?: number;
+  /** How long to wait for that tab's DOM to load. */
+  loadTimeoutMs?: number;
+}
+
+/**
+ * The tabs one action opened. Tabs opened later from those tabs (a search
+ * started in the activity's tab, say) are tracked too, until `close()`.
+ */
+export class TrackedTabs {
+  /** Tabs and popups opened since tracking started, oldest first. */
+  readonly opened: Page[] = [];
+  /** Whether the source tab's main frame navigated since tracking started. */
+  navigated = false;
+  private listeners: (() => void)[] = [];
+  private wake: (() => void) | null = null;
+  private closed = false;
+
+  constructor(readonly source: Page) {
+    const context = source.context();
+    const onPage = (page: Page) => {
+      this.opened.push(page);
+      this.wake?.();
+    };
+    const onNavigated = (frame: Frame) => {
+      if (frame !== source.mainFrame()) return;
+      this.navigated = true;
+      this.wake?.();
+    };
+    context.on("page", onPage);
+    source.on("framenavigated", onNavigated);
+    this.listeners.push(
+      () => context.off("page", onPage),
+      () => source.off("framenavigated", onNavigated),
+    );
+  }
+
+  /**
+   * Where the action landed: the newest opened tab that is still open,
+   * otherwise the source tab.
+   */
+  get target(): Page {
+    return this.opened.filter((p) => !p.isClosed()).at(-1) ?? this.source;
+  }
+
+  /**
+   * Waits up to `timeoutMs` for the first new tab or source navigation;
+   * false when neither happened.
+   */
+  async waitForActivity(timeoutMs: number): Promise<boolean> {
+    const happened = () => this.opened.length > 0 || this.navigated;
+    if (happened()) return true;
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, timeoutMs);
+      this.wake = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    });
+    this.wake = null;
+    return happened();
+  }
+
+  /**
+   * Stops tracking, closes the tabs this action opened (and only those), and
+   * brings the source tab back to the front.
+   */
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+    for (const stop of this.listeners) stop();
+    for (const page of this.opened) {
+      if (!page.isClosed()) await page.close().catch(() => {});
+    }
+    await this.source.bringToFront().catch(() => {});
+  }
+}
+
+/**
+ * Opens activities and follows where they went. Instead of sleeping and
+ * guessing that the last tab is the activity's, it listens for the context's
+ * `page` event and the source tab's navigation, so slow pages and tabs that
+ * were already open do not confuse it.
+ */
+export class TabManager {
+  private openTimeoutMs: number;
+  private loadTimeoutMs: number;
+
+  constructor(options: TabManagerOptions = {}) {
+    this.openTimeoutMs = options.openTimeoutMs ?? 10_000;
+    this.loadTimeoutMs = options.loadTimeoutMs ?? 30_000;
+  }
+
+  /**
+   * Runs `action` (usually a click) on `source`, waits for the tab it opened
+   * or for `source` itself to navigate, and waits for that page to load.
+   * Call `close()` on the result when done with the activity.
+   */
+  async track(source: Page, action: () => Promise<void>): Promise<TrackedTabs> {
+    const tabs = new TrackedTabs(source);
+    try {
+      await action();
+      if (await tabs.waitForActivity(this.openTimeoutMs)) {
+        await tabs.target
+          .waitForLoadState("domcontentloaded", { timeout: this.loadTimeoutMs })
+          .catch(() => {});
+      }
+    } catch (error) {
+      await tabs.close();
+      throw error;
+    }
+    return tabs;
+  }
+}
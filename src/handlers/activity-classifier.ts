@@ -0,0 +1,217 @@
+import type { Locator, Page } from "playwright";
+import type { ActivityKind, DashboardOffer } from "../types";
+import { parsePoints } from "../core/points";
+import { REWARDS_URL } from "../core/session";
+import { firstText, type Selectors } from "../core/selectors";
+import {
+  DASHBOARD_SECTIONS,
+  classifyInteractiveCard,
+  isCardCompleted,
+  isCardLocked,
+  sectionCards,
+  type DashboardSection,
+  type InteractiveKind,
+} from "./dashboard";
+
+/**
+ * Everything the classifier looks at on one card.
+ */
+export interface CardSignals {
+  section: DashboardSection;
+  title: string;
+  description?: string;
+  /** Points the card advertises; null when it shows no number. */
+  points: number | null;
+  /** The card's link target, resolved against the dashboard. */
+  url?: string;
+  /** Icon alt text, image sources and icon class names. */
+  icons?: string;
+  /** data-* and aria-label values on the card and its link. */
+  attributes?: string;
+  /** The offer id Rewards tags the card or its link with, when present. */
+  offerId?: string;
+}
+
+const PUNCH_CARD = /punch\s*card/i;
+const SEARCH = /\bsearch\s+(?:on|using|with)\s+bing\b|\bexplore\s+on\s+bing\b/i;
+const PROMOTIONAL =
+  /\b(sweepstakes?|download|install|get the app|shop|buy|purchase|redeem|gift card|refer a friend|sign up|game pass)\b/i;
+// Compact forms used in link ids and icon file names
+const INTERACTIVE_IDS: [InteractiveKind, RegExp][] = [
+  ["this-or-that", /this_?or_?that/i],
+  ["poll", /poll/i],
+  ["quiz", /quiz/i],
+];
+const REWARD_HOSTS = /(^|\.)(bing\.com|microsoft\.com|msn\.com)$/i;
+/** Attributes Rewards puts a card's offer id in, on the card or its link. */
+export const OFFER_ID_ATTRIBUTES = [
+  "data-offer-id",
+  "data-offerid",
+  "data-bi-id",
+];
+
+const INTERACTIVE_KINDS: ActivityKind[] = ["quiz", "poll", "this-or-that"];
+
+export function isInteractiveKind(kind: ActivityKind): kind is InteractiveKind {
+  return INTERACTIVE_KINDS.includes(kind);
+}
+
+function isOffSite(url: string | undefined): boolean {
+  if (!url) return false;
+  try {
+    return !REWARD_HOSTS.test(new URL(url).hostname);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Sorts a card into an activity kind. Checked in order: punch cards, then
+ * quiz-like cards (by text, then by link ids and icons), searches, promotions
+ * (shopping or install wording, or a link off Bing and Microsoft), and plain
+ * url-reward cards that only need a click.
+ */
+export function classifyActivity(signals: CardSignals): ActivityKind {
+  const text = `${signals.title} ${signals.description ?? ""}`;
+  const ids = `${signals.url ?? ""} ${signals.icons ?? ""} ${signals.attributes ?? ""}`;
+
+  if (
+    signals.section === "punch-cards" ||
+    PUNCH_CARD.test(text) ||
+    /\/punchcard\b/i.test(signals.url ?? "")
+  ) {
+    return "punch-card";
+  }
+  const interactive =
+    classifyInteractiveCard(text) ??
+    INTERACTIVE_IDS.find(([, pattern]) => pattern.test(ids))?.[0];
+  if (interactive) return interactive;
+  if (signals.section === "explore" || SEARCH.test(text)) return "search";
+  if (PROMOTIONAL.test(text) || isOffSite(signals.url)) return "promotional";
+  return "url-reward";
+}
+
+/**
+ * Reads the signals the classifier needs from a card. The link, icon and
+ * attribute reads are best-effort; a card that cannot be evaluated is
+ * classified from its text alone.
+ */
+export async function readCardSignals(
+  card: Locator,
+  section: DashboardSection,
+  selectors: Selectors,
+  fallbackTitle: string,
+): Promise<CardSignals> {
+  const title = (
+    (await firstText(card, selectors.title)) || fallbackTitle
+  ).trim();
+  const description =
+    (await firstText(card, selectors.description).catch(() => null))?.trim() ||
+    undefined;
+  const points = parsePoints(
+    await firstText(card, selectors.points).catch(() => null),
+  );
+
+  let markup: Pick<CardSignals, "url" | "icons" | "attributes" | "offerId"> =
+    {};
+  try {
+    markup = await card.evaluate((el, offerIdAttributes) => {
+      const link = el.querySelector<HTMLAnchorElement>("a[href]");
+      const icons = Array.from(
+        el.querySelectorAll("img, [class*='icon' i]"),
+        (icon) =>
+          ["alt", "src", "class"]
+            .map((name) => icon.getAttribute(name) ?? "")
+            .join(" "),
+      );
+      const attributes = [el, link].flatMap((node) =>
+        node
+          ? Array.from(node.attributes)
+              .filter(
+                (a) => a.name.startsWith("data-") || a.name === "aria-label",
+              )
+              .map((a) => a.value)
+          : [],
+      );
+      const offerId = offerIdAttributes
+        .flatMap((name) => [el, link].map((node) => node?.getAttribute(name)))
+        .find(Boolean);
+      return {
+        url: link?.href || undefined,
+        icons: icons.join(" "),
+        attributes: attributes.join(" "),
+        offerId: offerId || undefined,
+      };
+    }, OFFER_ID_ATTRIBUTES);
+  } catch {
+    // Classify from the text
+  }
+
+  return { section, title, description, points, ...markup };
+}
+
+/**
+ * Reads and classifies every card on the open dashboard, completed and
+ * locked ones included, so a run can record what was offered.
+ */
+export async function scanDashboard(
+  page: Page,
+  selectors: Selectors,
+): Promise<DashboardOffer[]> {
+  const offers: DashboardOffer[] = [];
+  for (const section of DASHBOARD_SECTIONS) {
+    const cards = await sectionCards(page, section, selectors);
+    const count = cards ? await cards.count() : 0;
+    for (let i = 0; i < count; i++) {
+      const card = cards!.nth(i);
+      try {
+        if (!(await card.isVisible())) continue;
+        const signals = await readCardSignals(
+          card,
+          section,
+          selectors,
+          `Activity #${offers.length}`,
+        );
+        offers.push({
+          section,
+          title: signals.title,
+          kind: classifyActivity(signals),
+          ...(signals.points !== null ? { points: signals.points } : {}),
+          completed: await isCardCompleted(card, selectors),
+          locked: await isCardLocked(card, selectors),
+          ...(signals.url
+            ? { url: new URL(signals.url, REWARDS_URL).toString() }
+            : {}),
+        });
+      } catch {
+        // Cards re-render while the dashboard loads; skip the unreadable ones
+      }
+    }
+  }
+  return offers;
+}
+
+/**
+ * One line per kind, e.g. "12 activities: 4 url-reward, 2 quiz (5 done, 1 locked)".
+ */
+export function summarizeOffers(offers: DashboardOffer[]): string {
+  const byKind = new Map<ActivityKind, number>();
+  for (const offer of offers) {
+    byKind.set(offer.kind, (byKind.get(offer.kind) ?? 0) + 1);
+  }
+  const kinds = [...byKind].map(([kind, n]) => `${n} ${kind}`).join(", ");
+  const done = offers.filter((o) => o.completed).length;
+  const locked = offers.filter((o) => o.locked).length;
+  const noun = offers.length === 1 ? "activity" : "activities";
+  return `${offers.length} ${noun}: ${kinds || "none"} (${done} done, ${locked} locked)`;
+}
+
+/**
+ * A single offer for logs and `metrics offers`, e.g.
+ * "[daily-set] quiz, 10 pts: Lightspeed quiz (done)".
+ */
+export function formatOffer(offer: DashboardOffer): string {
+  const points = offer.points !== undefined ? `, ${offer.points} pts` : "";
+  const state = offer.completed ? " (done)" : offer.locked ? " (locked)" : "";
+  return `[${offer.section}] ${offer.kind}${points}: ${offer.title}${state}`;
+}
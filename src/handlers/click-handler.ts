@@ -1,46 +1,115 @@
 import type { Page, Locator } from "playwright";
-import type { TaskHandler, ActionResult, RunConfig } from "../types";
+import type {
+  TaskHandler,
+  ActionResult,
+  ActivityKind,
+  ActivityOutcome,
+  ExtendedConfig,
+  RunConfig,
+  ClickHandlerSettings,
+  EngagementProfile,
+} from "../types";
+import { ACTIVITY_KINDS } from "../types";
 import { BrowserAdapter } from "../core/browser-adapter";
+import { RateLimiter } from "../core/rate-limiter";
+import { ActivityLedger, activityKey } from "../core/activity-ledger";
+import { PointsTracker, readPointsBalance } from "../core/points";
+import type { QuotaTracker } from "../core/quota";
+import { REWARDS_URL } from "../core/session";
+import { anyMatch, builtInSelectors, type Selectors } from "../core/selectors";
 import { randomDelay } from "../utils/humanizer";
+import { Random } from "../utils/random";
 import { matchQueryBank } from "../utils/embeddings";
+import {
+  DASHBOARD_SECTIONS,
+  isCardCompleted,
+  isCardLocked,
+  searchQueryFromText,
+  sectionCards,
+  type DashboardSection,
+} from "./dashboard";
+import {
+  classifyActivity,
+  isInteractiveKind,
+  readCardSignals,
+  type CardSignals,
+} from "./activity-classifier";
+import { DashboardFeed, locateOffer, type FeedOffer } from "./dashboard-feed";
 
 interface ActivityInfo {
   index: number;
+  /** Ledger identity, see activityKey(). */
+  key: string;
   title: string;
   isCompleted: boolean;
+  /** The whole card, re-checked for the completion mark after clicking. */
+  card: Locator;
   locator: Locator;
-  type: "standard" | "explore";
+  kind: ActivityKind;
   description?: string;
 }
 
+type ClickHandlerConfig = Pick<RunConfig, "dryRun" | "maxActionsPerHour"> &
+  Pick<
+    ClickHandlerSettings,
+    "maxClicks" | "discovery" | "verifyRetries" | "retryBackoffMs"
+  > &
+  Pick<ExtendedConfig, "activityKinds" | "quarantineAfterFailures"> & {
+    /** Leave quiz, poll and "This or That" cards to QuizHandler. */
+    skipInteractive: boolean;
+    selectors: Selectors;
+    /** How Explore search results are read; without it, a short wait. */
+    engagement?: EngagementProfile;
+  };
+
+interface ClickOutcome {
+  status: Exclude<ActivityOutcome["status"], "deferred">;
+  title: string;
+  attempts: number;
+  points: number | null;
+}
+
+function addPoints(total: number | null, delta: number | null): number | null {
+  return delta === null ? total : (total ?? 0) + delta;
+}
+
 export class ClickHandler implements TaskHandler {
   name = "ClickHandler";
-  private config: Pick<RunConfig, "dryRun" | "maxActionsPerHour">;
+  private config: ClickHandlerConfig;
+  private limiter: RateLimiter;
+  private random: Random;
+  private ledger: ActivityLedger;
 
   constructor(
     private browser: BrowserAdapter,
-    config?: Partial<Pick<RunConfig, "dryRun" | "maxActionsPerHour">>,
+    config?: Partial<ClickHandlerConfig>,
+    limiter?: RateLimiter,
+    random?: Random,
+    ledger?: ActivityLedger,
+    private quota?: QuotaTracker,
   ) {
     this.config = {
       dryRun: config?.dryRun ?? false,
       maxActionsPerHour: config?.maxActionsPerHour ?? 30,
+      maxClicks: config?.maxClicks ?? 20,
+      discovery: config?.discovery ?? "network",
+      verifyRetries: config?.verifyRetries ?? 2,
+      retryBackoffMs: config?.retryBackoffMs ?? 3000,
+      activityKinds: config?.activityKinds ?? [...ACTIVITY_KINDS],
+      quarantineAfterFailures: config?.quarantineAfterFailures ?? 3,
+      skipInteractive: config?.skipInteractive ?? false,
+      selectors: config?.selectors ?? builtInSelectors(),
+      engagement: config?.engagement,
     };
-  }
-
-  private normalizeExploreQuery(text: string): string {
-    const trimmed = text.trim();
-    if (!trimmed) return "";
-
-    // Examples we want to normalize:
-    // - "Search on Bing for best pizza" -> "best pizza"
-    // - "Search on Bing to learn about whales" -> "learn about whales"
-    // - "Search using Bing to discover local events" -> "discover local events"
-    // Handle case-insensitively and allow extra whitespace/punctuation.
-    const cleaned = trimmed
-      .replace(/^search\s+(?:on|using)\s+bing\s+(?:to|for)\s*[:\-–]?\s*/i, "")
-      .trim();
-
-    return cleaned || trimmed;
+    // Without a shared limiter, fall back to a per-instance in-memory budget
+    this.limiter =
+      limiter ??
+      new RateLimiter({
+        maxActionsPerHour: this.config.maxActionsPerHour,
+        dryRun: this.config.dryRun,
+      });
+    this.random = random ?? new Random();
+    this.ledger = ledger ?? new ActivityLedger();
   }
 
   private async getExploreQuery(activity: ActivityInfo): Promise<string> {
@@ -49,7 +118,7 @@ export class ClickHandler implements TaskHandler {
     // Try semantic matching against the query bank
     if (desc) {
       try {
-        const match = await matchQueryBank(this.normalizeExploreQuery(desc));
+        const match = await matchQueryBank(searchQueryFromText(desc));
         if (match) return match;
       } catch (err) {
         console.warn(
@@ -60,26 +129,9 @@ export class ClickHandler implements TaskHandler {
     }
 
     // Fallback: normalize the description or title into a search query
-    const fromDescription = desc ? this.normalizeExploreQuery(desc) : "";
+    const fromDescription = desc ? searchQueryFromText(desc) : "";
     if (fromDescription) return fromDescription;
-    return this.normalizeExploreQuery(activity.title);
-  }
-
-  private getCardsInSectionByHeading(
-    page: Page,
-    headingRegex: RegExp,
-  ): Locator {
-    const heading = page
-      .locator('h1,h2,h3,h4,[role="heading"]')
-      .filter({ hasText: headingRegex })
-      .first();
-
-    // Find the closest container that actually contains cards.
-    // The Rewards dashboard markup shifts often; avoid relying on specific class names.
-    const container = heading.locator(
-      "xpath=ancestor::*[self::section or self::div][.//mee-card][1]",
-    );
-    return container.locator("mee-card");
+    return searchQueryFromText(activity.title);
   }
 
   async run(page: Page): Promise<ActionResult> {
@@ -89,17 +141,38 @@ export class ClickHandler implements TaskHandler {
       status: "skipped",
       attempts: 0,
       durationMs: 0,
+      activities: [],
       meta: { clickedActivities: [] as string[] },
     };
     const startTime = Date.now();
+    // Listen before navigating so the dashboard's first data fetch is seen
+    const feed =
+      this.config.discovery === "network" ? new DashboardFeed(page) : null;
 
     try {
       // 1. Navigate to Rewards Dashboard
-      await this.browser.goto("https://rewards.bing.com/");
-      await randomDelay(2000, 4000);
+      await this.browser.goto(REWARDS_URL);
+      await randomDelay(2000, 4000, this.random);
 
-      // 2. Find clickable reward activities
-      const activities = await this.findClickableActivities(page);
+      // 2. Find clickable reward activities, from the dashboard data when it has offers
+      const offers = (await feed?.collect()) ?? [];
+      const discovery = offers.length > 0 ? "network" : "dom";
+      if (discovery === "network") {
+        console.log(
+          `[ClickHandler] Discovery: network (${offers.length} offers in dashboard data)`,
+        );
+      } else if (feed) {
+        console.log(
+          "[ClickHandler] Discovery: dom (no offers in dashboard data)",
+        );
+      } else {
+        console.log("[ClickHandler] Discovery: dom");
+      }
+      result.meta!.discovery = discovery;
+      const activities =
+        discovery === "network"
+          ? await this.activitiesFromFeed(page, offers)
+          : await this.findClickableActivities(page);
       console.log(
         `[ClickHandler] Found ${activities.length} incomplete activities`,
       );
@@ -107,50 +180,188 @@ export class ClickHandler implements TaskHandler {
       if (activities.length === 0) {
         console.log("[ClickHandler] No incomplete activities found");
         result.status = "skipped";
-        result.meta = { reason: "No incomplete activities" };
+        result.meta = { reason: "No incomplete activities", discovery };
         return result;
       }
 
-      // 3. Click activities (respect rate limit)
-      const maxClicks = Math.min(20, this.config.maxActionsPerHour); // Increased limit as searches are gone
+      // 3. Click activities (respect per-run cap and hourly rate limit)
+      const maxClicks = this.config.maxClicks;
       let clickedCount = 0;
+      let attemptedCount = 0;
+      let deferredCount = 0;
+      const notCredited: string[] = [];
+      // Dry runs click nothing, so there is no balance change to attribute
+      const points = this.config.dryRun
+        ? undefined
+        : new PointsTracker(() =>
+            readPointsBalance(page, this.config.selectors.balance, {
+              api: !this.browser.replaying,
+            }),
+          );
+      await points?.read();
 
       for (const activity of activities) {
-        if (clickedCount >= maxClicks) {
+        // Every activity clicked counts, whatever its outcome
+        if (attemptedCount >= maxClicks) {
           console.log(
-            `[ClickHandler] Rate limit reached (${maxClicks} clicks)`,
+            `[ClickHandler] Per-run limit reached (${maxClicks} clicks)`,
           );
           break;
         }
 
-        result.attempts++;
-        const clickResult = await this.clickActivity(page, activity);
+        if (!this.limiter.tryAcquire("click")) {
+          deferredCount++;
+          result.activities!.push({
+            title: activity.title,
+            kind: activity.kind,
+            status: "deferred",
+          });
+          console.log(
+            `[ClickHandler] Hourly rate limit reached, deferring: ${activity.title}`,
+          );
+          continue;
+        }
 
-        if (clickResult.success) {
+        attemptedCount++;
+        const outcome = await this.clickUntilCredited(page, activity, points);
+        result.attempts += outcome.attempts;
+        // Dry runs click nothing, so there is no outcome to record
+        if (!this.config.dryRun) {
+          this.ledger.record(activity, {
+            handler: "click",
+            status: outcome.status,
+            attempts: outcome.attempts,
+            ...(outcome.points !== null ? { points: outcome.points } : {}),
+          });
+        }
+        result.activities!.push({
+          title: outcome.title,
+          kind: activity.kind,
+          status: outcome.status,
+          attempts: outcome.attempts,
+          ...(outcome.points !== null ? { points: outcome.points } : {}),
+        });
+
+        if (outcome.status === "clicked") {
           clickedCount++;
-          (result.meta!.clickedActivities as string[]).push(clickResult.title);
-          console.log(`[ClickHandler] ✓ Clicked: ${clickResult.title}`);
+          (result.meta!.clickedActivities as string[]).push(outcome.title);
+          console.log(
+            `[ClickHandler] ✓ Clicked: ${outcome.title}${outcome.points !== null ? ` (+${outcome.points} points)` : ""}`,
+          );
+        } else if (outcome.status === "not-credited") {
+          notCredited.push(outcome.title);
+          console.log(
+            `[ClickHandler] ⚠ Clicked but not credited after ${outcome.attempts} attempt(s): ${outcome.title}`,
+          );
         } else {
-          console.log(`[ClickHandler] ✗ Failed: ${clickResult.title}`);
+          console.log(`[ClickHandler] ✗ Failed: ${outcome.title}`);
         }
 
         // Wait between clicks
-        await randomDelay(2000, 4000);
+        await randomDelay(2000, 4000, this.random);
       }
 
-      result.status = clickedCount > 0 ? "ok" : "failed";
+      result.status =
+        clickedCount > 0
+          ? "ok"
+          : deferredCount > 0 && notCredited.length === 0
+            ? "skipped"
+            : "failed";
       result.meta!.totalClicked = clickedCount;
+      result.meta!.notCreditedActivities = notCredited;
+      result.meta!.totalNotCredited = notCredited.length;
+      result.meta!.deferredByRateLimit = deferredCount;
     } catch (e) {
       console.error("[ClickHandler] Error:", e);
       result.status = "failed";
       result.meta = { error: e instanceof Error ? e.message : String(e) };
     } finally {
+      feed?.stop();
       result.durationMs = Date.now() - startTime;
     }
 
     return result;
   }
 
+  /**
+   * Classifies a card and applies activityKinds, skipInteractive, the
+   * daily-set quota and the ledger's quarantine. Returns the card's kind and
+   * ledger key, or null to skip it.
+   */
+  private admit(
+    signals: CardSignals,
+  ): { kind: ActivityKind; key: string } | null {
+    // A maxed daily set may still show a stale incomplete card
+    if (signals.section === "daily-set" && this.quota?.isMaxed("daily-set")) {
+      console.log(
+        `[ClickHandler] Skipping ${signals.title}: daily-set quota reached`,
+      );
+      return null;
+    }
+    const kind = classifyActivity(signals);
+    if (!this.config.activityKinds.includes(kind)) {
+      console.log(`[ClickHandler] Skipping ${kind} activity: ${signals.title}`);
+      return null;
+    }
+    if (this.config.skipInteractive && isInteractiveKind(kind)) {
+      return null;
+    }
+    const key = activityKey(signals);
+    const { quarantineAfterFailures } = this.config;
+    if (this.ledger.isQuarantined(key, quarantineAfterFailures)) {
+      console.log(
+        `[ClickHandler] Skipping ${signals.title}: failed ${this.ledger.failuresToday(key)} times today`,
+      );
+      return null;
+    }
+    return { kind, key };
+  }
+
+  /**
+   * Turns offers from the dashboard data into activities, in dashboard
+   * section order, applying the same filters as the DOM strategy. Offers
+   * whose card is not on the page are skipped.
+   */
+  private async activitiesFromFeed(
+    page: Page,
+    offers: FeedOffer[],
+  ): Promise<ActivityInfo[]> {
+    const activities: ActivityInfo[] = [];
+    const ordered = [...offers].sort(
+      (a, b) =>
+        DASHBOARD_SECTIONS.indexOf(a.section) -
+        DASHBOARD_SECTIONS.indexOf(b.section),
+    );
+    for (const offer of ordered) {
+      if (offer.completed || offer.locked) continue;
+      // Punch cards belong to PunchCardHandler
+      if (offer.section === "punch-cards") continue;
+      // Outside "Explore on Bing", only keep offers that award points
+      if (offer.section !== "explore" && !offer.points) continue;
+
+      const admitted = this.admit(offer);
+      if (!admitted) continue;
+      const located = await locateOffer(page, offer, this.config.selectors);
+      if (!located) {
+        console.log(
+          `[ClickHandler] Offer ${offer.offerId} is not on the page: ${offer.title}`,
+        );
+        continue;
+      }
+      activities.push({
+        index: activities.length,
+        key: admitted.key,
+        title: offer.title,
+        isCompleted: false,
+        card: located.card,
+        locator: located.link,
+        kind: admitted.kind,
+        description: offer.description,
+      });
+    }
+    return activities;
+  }
+
   /**
    * Finds all clickable (incomplete) reward activities on the page.
    */
@@ -160,134 +371,144 @@ export class ClickHandler implements TaskHandler {
     // Helper to process a card
     const processCard = async (
       card: Locator,
-      type: "standard" | "explore",
+      section: DashboardSection,
       index: number,
     ): Promise<ActivityInfo | null> => {
       try {
         if (!(await card.isVisible())) return null;
 
         // Check for completion
-        const isCompleted =
-          (await card
-            .locator(
-              '.mee-icon-SkypeCircleCheck, [aria-label*="complete" i], .c-glyph-check',
-            )
-            .count()) > 0;
+        const { selectors } = this.config;
+        const isCompleted = await isCardCompleted(card, selectors);
         if (isCompleted) return null;
 
         // Check for locked cards
-        const isLocked =
-          (await card
-            .locator(
-              '.points-locked, .mee-icon-Lock, img[alt="Offer is Locked"]',
-            )
-            .count()) > 0;
-        if (isLocked) return null;
-
-        // In "More activities", only keep cards that award points
-        if (type === "standard") {
-          const hasPoints =
-            (await card
-              .locator('[aria-label="Points you will earn"]')
-              .count()) > 0;
-          if (!hasPoints) return null;
+        if (await isCardLocked(card, selectors)) return null;
+
+        // Outside "Explore on Bing", only keep cards that award points
+        if (section !== "explore") {
+          if (!(await anyMatch(card, selectors.points))) return null;
         }
 
-        // Fix: Exclude points string (often has c-heading class) from title detection
-        const title =
-          (await card
-            .locator("h3, .title, .c-heading:not(.pointsString)")
-            .first()
-            .textContent()) || `Activity #${index}`;
-        const description = await card
-          .locator(
-            ".mee-paragraph, .description, [mee-paragraph], .c-paragraph-4",
-          )
-          .first()
-          .textContent()
-          .catch(() => undefined);
+        // The pack's title selectors exclude the points string (often a c-heading)
+        const signals = await readCardSignals(
+          card,
+          section,
+          selectors,
+          `Activity #${index}`,
+        );
+        const admitted = this.admit(signals);
+        if (!admitted) return null;
+        const { kind, key } = admitted;
         const link = card.locator("a").first();
 
         if ((await link.count()) === 0) return null;
 
         return {
           index,
-          title: title.trim(),
+          key,
+          title: signals.title,
           isCompleted,
+          card,
           locator: link, // Click the link
-          type,
-          description: description?.trim(),
+          kind,
+          description: signals.description,
         };
       } catch {
         return null;
       }
     };
 
-    // 1. "Daily set" Section
-    const dailySet = this.getCardsInSectionByHeading(page, /daily\s+set/i);
-    const dailyCount = await dailySet.count();
-    console.log(`[ClickHandler] Found ${dailyCount} daily-set cards`);
-
-    for (let i = 0; i < dailyCount; i++) {
-      const info = await processCard(
-        dailySet.nth(i),
-        "standard",
-        activities.length,
-      );
-      if (info) activities.push(info);
+    // "Daily set", then "More activities", then "Explore on Bing"
+    for (const section of [
+      "daily-set",
+      "more-activities",
+      "explore",
+    ] as const) {
+      const cards = await sectionCards(page, section, this.config.selectors);
+      const count = cards ? await cards.count() : 0;
+      console.log(`[ClickHandler] Found ${count} ${section} cards`);
+
+      for (let i = 0; i < count; i++) {
+        const info = await processCard(
+          cards!.nth(i),
+          section,
+          activities.length,
+        );
+        if (info) activities.push(info);
+      }
     }
 
-    // 2. "More activities" Section
-    // Prefer robust heading-based detection; keep old XPath as a fallback.
-    let moreActivities = this.getCardsInSectionByHeading(
-      page,
-      /more\s+activities/i,
-    );
-    let moreCount = await moreActivities.count();
-    if (moreCount === 0) {
-      moreActivities = page.locator(
-        '//h3[contains(text(), "More activities")]/ancestor::div[contains(@class, "mee-group-header")]/following-sibling::div//mee-card',
-      );
-      moreCount = await moreActivities.count();
-    }
-    console.log(`[ClickHandler] Found ${moreCount} more-activities cards`);
+    return activities;
+  }
 
-    for (let i = 0; i < moreCount; i++) {
-      const info = await processCard(
-        moreActivities.nth(i),
-        "standard",
-        activities.length,
-      );
-      if (info) activities.push(info);
-    }
+  // extractActivityInfo removed as it's merged into findClickableActivities logic or helper
 
-    // 3. "Explore on Bing" Section
-    // We look for headers containing "Explore" (case-insensitive) to be more robust.
-    // We get the ancestors div which acts as the container, then find all mee-cards within it.
-    const exploreSection = page.locator(
-      '//h3[contains(translate(., "ABCDEFGHIJKLMNOPQRSTUVWXYZ", "abcdefghijklmnopqrstuvwxyz"), "explore")]/ancestor::div[1]//mee-card',
+  /**
+   * Credited means the balance went up or the card now shows its completion mark.
+   */
+  private async isCredited(
+    activity: ActivityInfo,
+    points: number | null,
+  ): Promise<boolean> {
+    if (points !== null && points > 0) return true;
+    return isCardCompleted(activity.card, this.config.selectors).catch(
+      () => false,
     );
-    const exploreCount = await exploreSection.count();
-    console.log(`[ClickHandler] Found ${exploreCount} explore cards`);
-
-    for (let i = 0; i < exploreCount; i++) {
-      // Find if it has meme-paragraph to search
-      const info = await processCard(
-        exploreSection.nth(i),
-        "explore",
-        activities.length,
+  }
+
+  /**
+   * Clicks an activity and verifies it was credited. An unverified click is
+   * re-checked after a doubling backoff (with a dashboard reload) and clicked
+   * again, up to `verifyRetries` times; each retry needs rate-limit budget.
+   */
+  private async clickUntilCredited(
+    page: Page,
+    activity: ActivityInfo,
+    points?: PointsTracker,
+  ): Promise<ClickOutcome> {
+    const { title } = activity;
+    const { verifyRetries, retryBackoffMs } = this.config;
+    let attempts = 0;
+    let gained: number | null = null;
+
+    for (;;) {
+      attempts++;
+      const clickResult = await this.clickActivity(page, activity);
+      gained = addPoints(gained, (await points?.delta()) ?? null);
+      if (!clickResult.success) {
+        return { status: "failed", title, attempts, points: gained };
+      }
+      // Nothing was clicked, so there is nothing to verify
+      if (this.config.dryRun || (await this.isCredited(activity, gained))) {
+        return { status: "clicked", title, attempts, points: gained };
+      }
+      if (attempts > verifyRetries) break;
+
+      const backoff = retryBackoffMs * 2 ** (attempts - 1);
+      console.log(
+        `[ClickHandler] Not credited yet: ${title}; re-checking in ~${Math.round(backoff / 1000)}s (retry ${attempts}/${verifyRetries})`,
       );
-      if (info) activities.push(info);
-    }
+      await randomDelay(backoff, Math.round(backoff * 1.25), this.random);
+      // Reload so the card and balance reflect credits that arrived late
+      await this.browser.goto(REWARDS_URL);
+      await randomDelay(1000, 2000, this.random);
+      gained = addPoints(gained, (await points?.delta()) ?? null);
+      if (await this.isCredited(activity, gained)) {
+        return { status: "clicked", title, attempts, points: gained };
+      }
 
-    // If sections aren't clearly labeled or using new UI, fallback to finding cards with "mee-paragraph" for explore?
-    // User requested specifically "Explore on Bing section". If not found, we skip.
+      if (!this.limiter.tryAcquire("click")) {
+        console.log(
+          `[ClickHandler] Hourly rate limit reached, not retrying: ${title}`,
+        );
+        break;
+      }
+    }
 
-    return activities;
+    return { status: "not-credited", title, attempts, points: gained };
   }
 
-  // extractActivityInfo removed as it's merged into findClickableActivities logic or helper
-
   /**
    * Clicks on a single activity with humanized behavior.
    */
@@ -299,8 +520,8 @@ export class ClickHandler implements TaskHandler {
 
     try {
       if (this.config.dryRun) {
-        console.log(`[DRY-RUN] Would click: "${title}" (${activity.type})`);
-        if (activity.type === "explore") {
+        console.log(`[DRY-RUN] Would click: "${title}" (${activity.kind})`);
+        if (activity.kind === "search") {
           const query = await this.getExploreQuery(activity);
           if (query) console.log(`[DRY-RUN] Would search: "${query}"`);
         }
@@ -309,75 +530,37 @@ export class ClickHandler implements TaskHandler {
 
       // scrollIntoViewIfNeeded is misspelled in playwright-core@1.58 types
       await (locator as any).scrollIntoViewIfNeeded();
-      await randomDelay(300, 800);
-
-      // Click (humanized)
-      await this.browser.humanizer.clickLocatorHuman(page, locator);
+      await randomDelay(300, 800, this.random);
 
-      // Wait for navigation
-      await randomDelay(2000, 4000);
-
-      if (activity.type === "explore") {
-        const query = await this.getExploreQuery(activity);
-        if (!query) return { success: true, title };
+      // Click (humanized) and follow the tab it opens, or the dashboard tab
+      // if the card navigates in place
+      const tabs = await this.browser.tabs.track(page, () =>
+        this.browser.humanizer.clickLocatorHuman(page, locator),
+      );
+      try {
+        // Linger on the activity page like a reader would
+        await randomDelay(2000, 4000, this.random);
 
-        console.log(
-          `[ClickHandler] Explore activity: Searching for "${query}"`,
-        );
-        // We might be on a new page or new tab.
-        // If new tab, we need to find it.
-        // Most rewards clicks open new tab.
-        const pages = page.context().pages();
-        const nonDashboardPages = pages.filter((p) => p !== page);
-        const targetPage =
-          nonDashboardPages.length > 0
-            ? nonDashboardPages[nonDashboardPages.length - 1]!
-            : page;
-
-        await targetPage.bringToFront();
-
-        // Assuming we are on Bing, or need to go to Bing.
-        // Usually these links go to a search page already.
-        // But user requirement: "click and search the text".
-        // Strategy: Use the browser adapter's search method on the target page.
-
-        // We must use the browser adapter to leverage human-like typing
-        // BUT browser adapter methods like .search() usually use this.getPage() which is the MAIN dashboard page.
-        // We need to execute search on the TARGET page (the new tab).
-
-        // Simplification: Just run the search on the active tab (targetPage).
-        // Since browser.search() relies on `this.getPage()`, we'll implement the search logic locally here
-        // OR update BrowserAdapter to accept a page.
-
-        if (!targetPage.url().includes("bing.com")) {
-          await targetPage.goto("https://www.bing.com");
-          await randomDelay(1000, 2000);
+        if (activity.kind === "search") {
+          const query = await this.getExploreQuery(activity);
+          if (query && this.limiter.tryAcquire("search")) {
+            await this.searchExploreQuery(tabs.target, query);
+          } else if (query) {
+            console.log(
+              `[ClickHandler] Hourly rate limit reached, skipping search for: ${title}`,
+            );
+          }
         }
-
-        // Clear existing text and type human-like, then submit.
-        await this.browser.humanizer.clearAndTypeHuman(
-          targetPage,
-          '#sb_form_q, [name="q"]',
-          query,
-        );
-        await randomDelay(120, 300);
-        await targetPage.keyboard.press("Enter");
-        await randomDelay(3000, 4000); // Wait for search results
-      }
-
-      // Cleanup tabs
-      const pages = page.context().pages();
-      while (pages.length > 1) {
-        const p = pages.pop();
-        if (p && p !== page) await p.close();
+      } finally {
+        // Close only the tabs this activity opened; focus back on dashboard
+        await tabs.close();
       }
-      await page.bringToFront(); // Focus back on dashboard
 
-      // If we used the main page for navigation (no new tab opened), we must go back to specific dashboard
-      if (page.url().includes("bing.com/search")) {
+      // The activity (or its search) ran in the dashboard tab; go back to it
+      if (tabs.navigated) {
         console.log("[ClickHandler] Returning to dashboard...");
-        await this.browser.goto("https://rewards.bing.com/");
-        await randomDelay(1000, 2000);
+        await this.browser.goto(REWARDS_URL);
+        await randomDelay(1000, 2000, this.random);
       }
 
       return { success: true, title };
@@ -386,6 +569,46 @@ export class ClickHandler implements TaskHandler {
       return { success: false, title };
     }
   }
+
+  /**
+   * Runs an Explore search in the tab the activity landed in.
+   */
+  private async searchExploreQuery(
+    targetPage: Page,
+    query: string,
+  ): Promise<void> {
+    console.log(`[ClickHandler] Explore activity: Searching for "${query}"`);
+    await targetPage.bringToFront();
+
+    // Activity links usually land on a Bing page already
+    if (!targetPage.url().includes("bing.com")) {
+      await targetPage.goto("https://www.bing.com");
+      await randomDelay(1000, 2000, this.random);
+    }
+
+    // Clear existing text and type human-like, then submit.
+    await this.browser.humanizer.clearAndTypeHuman(
+      targetPage,
+      '#sb_form_q, [name="q"]',
+      query,
+    );
+    await randomDelay(120, 300, this.random);
+    await targetPage.keyboard.press("Enter");
+
+    const { engagement } = this.config;
+    if (engagement?.enabled) {
+      await targetPage
+        .waitForLoadState("domcontentloaded", { timeout: 30_000 })
+        .catch(() => {});
+      await this.browser.engageWithResults(
+        targetPage,
+        engagement,
+        "ClickHandler",
+      );
+    } else {
+      await randomDelay(3000, 4000, this.random); // Wait for search results
+    }
+  }
 }
 
 // remove the interface at bottom since it's defined at top
@@ -0,0 +1,205 @@
+import type { Locator, Page, Response } from "playwright";
+import type { Selectors } from "../core/selectors";
+import { OFFER_ID_ATTRIBUTES, type CardSignals } from "./activity-classifier";
+import type { DashboardSection } from "./dashboard";
+
+/**
+ * One offer read from the dashboard's own JSON, in the shape the classifier
+ * reads from a card.
+ */
+export type FeedOffer = CardSignals & {
+  offerId: string;
+  completed: boolean;
+  locked: boolean;
+};
+
+// Keys that name the section their offers belong to
+const SECTION_KEYS: [DashboardSection, RegExp][] = [
+  ["daily-set", /daily\s*set/i],
+  ["punch-cards", /punch/i],
+  ["explore", /explore/i],
+  ["more-activities", /more|promotions/i],
+];
+// The daily set is keyed by date ("10/19/2026"); other days are not on the page
+const DATE_KEY = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/;
+const MAX_DEPTH = 8;
+
+function isToday(key: string, today: Date): boolean {
+  const [, month, day, year] = DATE_KEY.exec(key)!;
+  return (
+    Number(month) === today.getMonth() + 1 &&
+    Number(day) === today.getDate() &&
+    Number(year) === today.getFullYear()
+  );
+}
+
+function toOffer(
+  value: Record<string, unknown>,
+  section: DashboardSection,
+): FeedOffer | null {
+  const { offerId, title } = value;
+  if (typeof offerId !== "string" || !offerId) return null;
+  if (typeof title !== "string" || !title.trim()) return null;
+
+  const text = (key: string) =>
+    typeof value[key] === "string" && value[key] ? value[key] : undefined;
+  const points = [value.pointProgressMax, value.points].find(
+    (p): p is number => typeof p === "number",
+  );
+  const url = text("destinationUrl") ?? text("url");
+  return {
+    section,
+    offerId,
+    title: title.trim(),
+    description: text("description")?.trim(),
+    points: points ?? null,
+    ...(url && /^https?:/i.test(url) ? { url } : {}),
+    attributes: [offerId, text("promotionType"), text("name")]
+      .filter(Boolean)
+      .join(" "),
+    completed: value.complete === true,
+    locked:
+      value.exclusiveLockedFeatureStatus === "locked" || value.locked === true,
+  };
+}
+
+/**
+ * Finds the offers in a dashboard JSON payload: objects with an `offerId` and
+ * a `title`, wherever they sit. Each takes its section from the nearest
+ * enclosing key that names one (e.g. `dailySetPromotions`), defaulting to
+ * "more-activities". Daily-set entries for days other than `today` are dropped.
+ */
+export function extractFeedOffers(
+  data: unknown,
+  today: Date = new Date(),
+): FeedOffer[] {
+  const offers: FeedOffer[] = [];
+  const walk = (
+    value: unknown,
+    section: DashboardSection,
+    depth: number,
+  ): void => {
+    if (depth > MAX_DEPTH || value === null || typeof value !== "object") {
+      return;
+    }
+    if (Array.isArray(value)) {
+      for (const item of value) walk(item, section, depth + 1);
+      return;
+    }
+    const offer = toOffer(value as Record<string, unknown>, section);
+    if (offer) {
+      offers.push(offer);
+      return;
+    }
+    for (const [key, child] of Object.entries(value)) {
+      if (DATE_KEY.test(key) && !isToday(key, today)) continue;
+      const named = SECTION_KEYS.find(([, pattern]) => pattern.test(key));
+      walk(child, named?.[0] ?? section, depth + 1);
+    }
+  };
+  walk(data, "more-activities", 0);
+  return offers;
+}
+
+function isDashboardData(response: Response): boolean {
+  try {
+    const host = new URL(response.url()).hostname;
+    return (
+      response.ok() &&
+      /(^|\.)bing\.com$/i.test(host) &&
+      /json/i.test(response.headers()["content-type"] ?? "")
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Collects the offers in the JSON the dashboard fetches for itself. Create it
+ * before navigating to the dashboard, then call `collect()` once it loaded.
+ */
+export class DashboardFeed {
+  private offers = new Map<string, FeedOffer>();
+  private pending: Promise<void>[] = [];
+  private listening = true;
+  private onResponse = (response: Response) => {
+    if (isDashboardData(response)) this.pending.push(this.read(response));
+  };
+
+  constructor(
+    private page: Page,
+    private options: { timeoutMs?: number; now?: () => Date } = {},
+  ) {
+    page.on("response", this.onResponse);
+  }
+
+  private async read(response: Response): Promise<void> {
+    try {
+      const today = this.options.now?.() ?? new Date();
+      // A later response describes the dashboard more recently
+      for (const offer of extractFeedOffers(await response.json(), today)) {
+        this.offers.set(offer.offerId, offer);
+      }
+    } catch {
+      // Not every JSON response is dashboard data
+    }
+  }
+
+  stop(): void {
+    if (!this.listening) return;
+    this.listening = false;
+    this.page.off("response", this.onResponse);
+  }
+
+  /**
+   * Stops listening, waits (up to `timeoutMs`, default 5 s) for the responses
+   * seen so far to be read, and returns their offers.
+   */
+  async collect(): Promise<FeedOffer[]> {
+    this.stop();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    await Promise.race([
+      Promise.all(this.pending),
+      new Promise<void>((resolve) => {
+        timer = setTimeout(resolve, this.options.timeoutMs ?? 5000);
+      }),
+    ]);
+    clearTimeout(timer);
+    return [...this.offers.values()];
+  }
+}
+
+/**
+ * The dashboard card and link for a feed offer: by offer id attribute or
+ * destination URL in a single lookup, then by title. Null when the offer is
+ * not on the page.
+ */
+export async function locateOffer(
+  page: Page,
+  offer: FeedOffer,
+  selectors: Selectors,
+): Promise<{ card: Locator; link: Locator } | null> {
+  const cards = page.locator(selectors.card.join(", "));
+  const id = JSON.stringify(offer.offerId);
+  const linkSelector = [
+    ...OFFER_ID_ATTRIBUTES.flatMap((name) => [
+      `a[${name}=${id}]`,
+      `[${name}=${id}] a`,
+    ]),
+    ...(offer.url ? [`a[href=${JSON.stringify(offer.url)}]`] : []),
+  ].join(", ");
+
+  const link = page.locator(linkSelector).first();
+  if ((await link.count()) > 0) {
+    return {
+      card: cards.filter({ has: page.locator(linkSelector) }).first(),
+      link,
+    };
+  }
+
+  const card = cards.filter({ hasText: offer.title }).first();
+  if ((await card.count()) > 0) {
+    return { card, link: card.locator("a").first() };
+  }
+  return null;
+}
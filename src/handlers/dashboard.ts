@@ -0,0 +1,125 @@
+import type { Locator, Page } from "playwright";
+import { anyMatch, firstMatch, type Selectors } from "../core/selectors";
+
+/**
+ * Cards under the dashboard section whose heading matches `headingRegex`.
+ * Heading, container and card selectors are tried in pack order; the result matches
+ * nothing when no combination finds a card.
+ */
+export async function cardsInSection(
+  page: Page,
+  headingRegex: RegExp,
+  selectors: Selectors,
+): Promise<Locator> {
+  // Find the closest container that actually contains cards.
+  // The Rewards dashboard markup shifts often; avoid relying on specific class names.
+  let fallback: Locator | undefined;
+  for (const headingSelector of selectors.sectionHeading) {
+    const heading = page
+      .locator(headingSelector)
+      .filter({ hasText: headingRegex })
+      .first();
+    for (const containerSelector of selectors.sectionContainer) {
+      const container = heading.locator(containerSelector);
+      const cards = await firstMatch(container, selectors.card);
+      if (cards) return cards;
+      fallback ??= container.locator(selectors.card[0]!);
+    }
+  }
+  return fallback!;
+}
+
+/** Dashboard sections that hold activity cards. */
+export const DASHBOARD_SECTIONS = [
+  "daily-set",
+  "more-activities",
+  "explore",
+  "punch-cards",
+] as const;
+
+export type DashboardSection = (typeof DASHBOARD_SECTIONS)[number];
+
+const SECTION_HEADINGS: Record<Exclude<DashboardSection, "explore">, RegExp> = {
+  "daily-set": /daily\s+set/i,
+  "more-activities": /more\s+activities/i,
+  "punch-cards": /punch\s*cards?/i,
+};
+
+/**
+ * Cards in one dashboard section, trying the section's fallback selectors
+ * when the heading lookup finds nothing; null when no explore cards exist.
+ */
+export async function sectionCards(
+  page: Page,
+  section: DashboardSection,
+  selectors: Selectors,
+): Promise<Locator | null> {
+  if (section === "explore") return firstMatch(page, selectors.exploreCards);
+  const cards = await cardsInSection(
+    page,
+    SECTION_HEADINGS[section],
+    selectors,
+  );
+  if (section === "more-activities" && (await cards.count()) === 0) {
+    return (await firstMatch(page, selectors.moreActivitiesCards)) ?? cards;
+  }
+  return cards;
+}
+
+export async function isCardCompleted(
+  card: Locator,
+  selectors: Selectors,
+): Promise<boolean> {
+  return anyMatch(card, selectors.completed);
+}
+
+export async function isCardLocked(
+  card: Locator,
+  selectors: Selectors,
+): Promise<boolean> {
+  return anyMatch(card, selectors.locked);
+}
+
+/** Daily-set cards that need answers rather than a single click. */
+export type InteractiveKind = "quiz" | "poll" | "this-or-that";
+
+// Checked in order: "This or That" cards also mention "quiz"
+const INTERACTIVE_PATTERNS: [InteractiveKind, RegExp][] = [
+  ["this-or-that", /this\s+or\s+that/i],
+  ["poll", /\bpoll\b/i],
+  [
+    "quiz",
+    /\bquiz\b|test your smarts|show what you know|\ba,\s*b,?\s*or\s*c\b/i,
+  ],
+];
+
+/**
+ * Recognizes quiz, poll and "This or That" cards from their title and
+ * description; null for cards that only need a click.
+ */
+export function classifyInteractiveCard(text: string): InteractiveKind | null {
+  return (
+    INTERACTIVE_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0] ?? null
+  );
+}
+
+/**
+ * Turns a search activity's text into the query it asks for, e.g.
+ * "Search on Bing for best pizza" -> "best pizza". Text without the prefix
+ * is returned trimmed.
+ */
+export function searchQueryFromText(text: string): string {
+  const trimmed = text.trim();
+  if (!trimmed) return "";
+
+  // Examples we want to normalize:
+  // - "Search on Bing for best pizza" -> "best pizza"
+  // - "Search on Bing to learn about whales" -> "learn about whales"
+  // - "Search using Bing to discover local events" -> "discover local events"
+  // Handle case-insensitively and allow extra whitespace/punctuation.
+  const cleaned = trimmed
+    .replace(/^search\s+(?:on|using)\s+bing\s+(?:to|for)\s*[:\-–]?\s*/i, "")
+    .trim();
+
+  return cleaned || trimmed;
+}
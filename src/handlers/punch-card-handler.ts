@@ -0,0 +1,350 @@
+import type { Page, Locator } from "playwright";
+import type {
+  TaskHandler,
+  ActionResult,
+  PunchCardHandlerSettings,
+  RunConfig,
+} from "../types";
+import { BrowserAdapter } from "../core/browser-adapter";
+import { RateLimiter } from "../core/rate-limiter";
+import { REWARDS_URL } from "../core/session";
+import type { TrackedTabs } from "../core/tabs";
+import {
+  builtInSelectors,
+  firstMatch,
+  firstText,
+  type Selectors,
+} from "../core/selectors";
+import {
+  PunchCardStore,
+  type PunchCardTask,
+  type PunchCardTaskKind,
+} from "../core/punch-cards";
+import { randomDelay } from "../utils/humanizer";
+import { Random } from "../utils/random";
+import {
+  cardsInSection,
+  classifyInteractiveCard,
+  isCardCompleted,
+  isCardLocked,
+  searchQueryFromText,
+} from "./dashboard";
+
+interface PunchCardInfo {
+  title: string;
+  url: string;
+}
+
+interface PunchCardTaskInfo extends PunchCardTask {
+  link: Locator | null;
+  /** What a search task asks for: its description, or its title. */
+  query: string;
+}
+
+type PunchCardHandlerConfig = Pick<RunConfig, "dryRun" | "maxActionsPerHour"> &
+  Pick<PunchCardHandlerSettings, "maxTasks"> & { selectors: Selectors };
+
+// Tasks that need money, installs or sign-ups are never automated
+const UNSUPPORTED_TASK =
+  /\b(buy|purchase|shop|order|redeem|subscribe|download|install|sign\s*up|donate)\b/i;
+
+/**
+ * Sorts a punch card child task into what this handler can do: follow its
+ * link ("click"), follow a link that runs a Bing search ("search"), or skip it.
+ */
+export function classifyPunchCardTask(text: string): PunchCardTaskKind {
+  if (UNSUPPORTED_TASK.test(text) || classifyInteractiveCard(text)) {
+    return "unsupported";
+  }
+  return /\bsearch\b/i.test(text) ? "search" : "click";
+}
+
+/**
+ * Works through punch cards: opens each card's detail page, performs the
+ * incomplete click and search tasks, and saves the card's progress so later
+ * runs skip finished cards. A search task follows its link and then searches
+ * Bing for what the task asks, so it needs both click and search budget.
+ */
+export class PunchCardHandler implements TaskHandler {
+  name = "PunchCardHandler";
+  private config: PunchCardHandlerConfig;
+  private limiter: RateLimiter;
+  private random: Random;
+  private store: PunchCardStore;
+
+  constructor(
+    private browser: BrowserAdapter,
+    config?: Partial<PunchCardHandlerConfig>,
+    limiter?: RateLimiter,
+    random?: Random,
+    store?: PunchCardStore,
+  ) {
+    this.config = {
+      dryRun: config?.dryRun ?? false,
+      maxActionsPerHour: config?.maxActionsPerHour ?? 30,
+      maxTasks: config?.maxTasks ?? 10,
+      selectors: config?.selectors ?? builtInSelectors(),
+    };
+    // Without a shared limiter, fall back to a per-instance in-memory budget
+    this.limiter =
+      limiter ??
+      new RateLimiter({
+        maxActionsPerHour: this.config.maxActionsPerHour,
+        dryRun: this.config.dryRun,
+      });
+    this.random = random ?? new Random();
+    this.store = store ?? new PunchCardStore();
+  }
+
+  async run(page: Page): Promise<ActionResult> {
+    console.log(
+      `[PunchCardHandler] Starting... (dryRun: ${this.config.dryRun})`,
+    );
+    const result: ActionResult = {
+      type: "punchcard",
+      status: "skipped",
+      attempts: 0,
+      durationMs: 0,
+      activities: [],
+    };
+    const startTime = Date.now();
+
+    try {
+      await this.browser.goto(REWARDS_URL);
+      await randomDelay(2000, 4000, this.random);
+
+      const cards = await this.findPunchCards(page);
+      console.log(`[PunchCardHandler] Found ${cards.length} open punch cards`);
+      const open = cards.filter((card) => {
+        if (!this.store.isComplete(card.url)) return true;
+        console.log(
+          `[PunchCardHandler] Already finished on an earlier run: ${card.title}`,
+        );
+        return false;
+      });
+      if (open.length === 0) {
+        result.meta = { reason: "No open punch cards" };
+        return result;
+      }
+
+      let done = 0;
+      let failed = 0;
+      let deferred = 0;
+      const punchCards: { title: string; completed: number; total: number }[] =
+        [];
+
+      for (const card of open) {
+        if (result.attempts >= this.config.maxTasks) break;
+
+        await this.browser.goto(card.url);
+        await randomDelay(2000, 4000, this.random);
+        const tasks = await this.readTasks(page);
+        const todo = tasks.filter(
+          (t) => !t.completed && t.kind !== "unsupported",
+        );
+        console.log(
+          `[PunchCardHandler] ${card.title}: ${tasks.filter((t) => t.completed).length}/${tasks.length} done, ${todo.length} to do`,
+        );
+
+        for (const task of todo) {
+          // Every task started counts, whatever its outcome
+          if (result.attempts >= this.config.maxTasks) {
+            console.log(
+              `[PunchCardHandler] Per-run limit reached (${this.config.maxTasks} tasks)`,
+            );
+            break;
+          }
+          const title = `${card.title}: ${task.title}`;
+          const actions: ("click" | "search")[] =
+            task.kind === "search" ? ["click", "search"] : ["click"];
+          if (
+            this.limiter.remaining() < actions.length ||
+            !actions.every((action) => this.limiter.tryAcquire(action))
+          ) {
+            deferred++;
+            result.activities!.push({
+              title,
+              kind: `punchcard-${task.kind}`,
+              status: "deferred",
+            });
+            continue;
+          }
+
+          result.attempts++;
+          if (this.config.dryRun) {
+            console.log(`[DRY-RUN] Would do punch card task: "${title}"`);
+            if (task.kind === "search") {
+              console.log(`[DRY-RUN] Would search: "${task.query}"`);
+            }
+          }
+          const ok =
+            this.config.dryRun || (await this.performTask(page, card, task));
+          if (ok) done++;
+          else failed++;
+          result.activities!.push({
+            title,
+            kind: `punchcard-${task.kind}`,
+            status: ok ? "clicked" : "failed",
+          });
+        }
+
+        // Dry runs changed nothing, so the stored progress stays as it was
+        if (!this.config.dryRun) {
+          await this.browser.goto(card.url);
+          await randomDelay(1500, 3000, this.random);
+          const progress = this.store.record(card, await this.readTasks(page));
+          punchCards.push({
+            title: card.title,
+            completed: progress.completedTasks,
+            total: progress.totalTasks,
+          });
+        }
+      }
+
+      result.status = done > 0 ? "ok" : failed > 0 ? "failed" : "skipped";
+      result.meta = {
+        totalCompleted: done,
+        totalFailed: failed,
+        deferredByRateLimit: deferred,
+        punchCards,
+      };
+    } catch (e) {
+      console.error("[PunchCardHandler] Error:", e);
+      result.status = "failed";
+      result.meta = { error: e instanceof Error ? e.message : String(e) };
+    } finally {
+      result.durationMs = Date.now() - startTime;
+    }
+
+    return result;
+  }
+
+  /**
+   * Finds unfinished, unlocked cards in the dashboard's punch card section.
+   */
+  private async findPunchCards(page: Page): Promise<PunchCardInfo[]> {
+    const { selectors } = this.config;
+    const section = await cardsInSection(page, /punch\s*cards?/i, selectors);
+    const count = await section.count();
+    const cards: PunchCardInfo[] = [];
+
+    for (let i = 0; i < count; i++) {
+      const card = section.nth(i);
+      try {
+        if (!(await card.isVisible())) continue;
+        if (
+          (await isCardCompleted(card, selectors)) ||
+          (await isCardLocked(card, selectors))
+        ) {
+          continue;
+        }
+        const href = await card.locator("a").first().getAttribute("href");
+        if (!href) continue;
+        const title =
+          (await firstText(card, selectors.title)) || `Punch card #${i}`;
+        cards.push({
+          title: title.trim(),
+          url: new URL(href, REWARDS_URL).toString(),
+        });
+      } catch {
+        // Cards re-render while the dashboard loads; skip the unreadable ones
+      }
+    }
+    return cards;
+  }
+
+  /**
+   * Reads the child tasks on a punch card's detail page.
+   */
+  private async readTasks(page: Page): Promise<PunchCardTaskInfo[]> {
+    const { selectors } = this.config;
+    // Child offers on a punch card's detail page
+    const rows =
+      (await (await firstMatch(page, selectors.punchCardTask))?.all()) ?? [];
+    const tasks: PunchCardTaskInfo[] = [];
+
+    for (const [index, row] of rows.entries()) {
+      try {
+        const text = ((await row.textContent()) ?? "").trim();
+        const title =
+          (
+            await firstText(row, selectors.taskTitle).catch(() => null)
+          )?.trim() || `Task ${index + 1}`;
+        const description = (
+          await firstText(row, selectors.description).catch(() => null)
+        )?.trim();
+        const link = row.locator("a").first();
+        const hasLink = (await link.count()) > 0;
+        tasks.push({
+          title,
+          kind: hasLink ? classifyPunchCardTask(text) : "unsupported",
+          completed: await isCardCompleted(row, selectors),
+          link: hasLink ? link : null,
+          query: searchQueryFromText(description || title),
+        });
+      } catch {
+        // Skip rows that vanished mid-read
+      }
+    }
+    return tasks;
+  }
+
+  /**
+   * Follows a task's link, lingers like a reader would, runs the search a
+   * search task asks for, then closes any tab it opened and returns to the
+   * punch card page.
+   */
+  private async performTask(
+    page: Page,
+    card: PunchCardInfo,
+    task: PunchCardTaskInfo,
+  ): Promise<boolean> {
+    const link = task.link;
+    if (!link) return false;
+    let tabs: TrackedTabs | undefined;
+
+    try {
+      tabs = await this.browser.tabs.track(page, () =>
+        this.browser.humanizer.clickLocatorHuman(page, link),
+      );
+      await randomDelay(3000, 6000, this.random);
+      if (task.kind === "search") {
+        await this.searchBing(tabs.target, task.query);
+      }
+      console.log(`[PunchCardHandler] ✓ ${card.title}: ${task.title}`);
+      return true;
+    } catch (error) {
+      console.error(
+        `[PunchCardHandler] Failed "${card.title}: ${task.title}":`,
+        error,
+      );
+      return false;
+    } finally {
+      await tabs?.close();
+      if (page.url() !== card.url) {
+        await this.browser.goto(card.url);
+        await randomDelay(1000, 2000, this.random);
+      }
+    }
+  }
+  /**
+   * Types `query` into Bing's search box in the tab the task landed in.
+   */
+  private async searchBing(target: Page, query: string): Promise<void> {
+    console.log(`[PunchCardHandler] Searching for "${query}"`);
+    await target.bringToFront();
+    // Task links usually land on a Bing page already
+    if (!target.url().includes("bing.com")) {
+      await target.goto("https://www.bing.com");
+      await randomDelay(1000, 2000, this.random);
+    }
+    await this.browser.humanizer.clearAndTypeHuman(
+      target,
+      '#sb_form_q, [name="q"]',
+      query,
+    );
+    await randomDelay(120, 300, this.random);
+    await target.keyboard.press("Enter");
+    await randomDelay(3000, 4000, this.random); // Wait for search results
+  }
+}
@@ -0,0 +1,428 @@
+import type { Page, Locator } from "playwright";
+import type {
+  TaskHandler,
+  ActionResult,
+  ExtendedConfig,
+  QuizQuestionOutcome,
+  QuizHandlerSettings,
+  RunConfig,
+} from "../types";
+import { ACTIVITY_KINDS } from "../types";
+import { BrowserAdapter } from "../core/browser-adapter";
+import { RateLimiter } from "../core/rate-limiter";
+import { ActivityLedger, activityKey } from "../core/activity-ledger";
+import { PointsTracker, readPointsBalance } from "../core/points";
+import type { QuotaTracker } from "../core/quota";
+import { REWARDS_URL } from "../core/session";
+import { builtInSelectors, type Selectors } from "../core/selectors";
+import { randomDelay } from "../utils/humanizer";
+import { Random } from "../utils/random";
+import {
+  isCardCompleted,
+  isCardLocked,
+  sectionCards,
+  type InteractiveKind,
+} from "./dashboard";
+import {
+  classifyActivity,
+  isInteractiveKind,
+  readCardSignals,
+} from "./activity-classifier";
+
+interface QuizCard {
+  /** Ledger identity, see activityKey(). */
+  key: string;
+  title: string;
+  kind: InteractiveKind;
+  link: Locator;
+}
+
+type QuizHandlerConfig = Pick<RunConfig, "dryRun" | "maxActionsPerHour"> &
+  Pick<QuizHandlerSettings, "maxQuizzes"> &
+  Pick<ExtendedConfig, "activityKinds" | "quarantineAfterFailures"> & {
+    selectors: Selectors;
+  };
+
+// Bing's quiz overlay; quizzes and "This or That" share the rq* markup
+const QUIZ_SELECTORS = {
+  start: "#rqStartQuiz",
+  options: '[id^="rqAnswerOption"]',
+  pollOptions: '[id^="btoption"]',
+  question: "#currentQuestionContainer, .rqQuestion",
+  progress: ".rqECredits, #rqHeaderCredits",
+  complete: "#quizCompleteContainer, .rqSumm, .bt_pollResult",
+};
+
+// "This or That" has the most questions (10)
+const MAX_QUESTIONS = 10;
+
+/**
+ * A played card's outcome from its questions: "failed" only when a question
+ * failed. A card the hourly budget cut short, or with no question to play,
+ * is "deferred" and left for a later run.
+ */
+function cardStatus(
+  questions: QuizQuestionOutcome[],
+): "clicked" | "failed" | "deferred" {
+  if (questions.some((q) => q.status === "failed")) return "failed";
+  if (
+    questions.length === 0 ||
+    questions.some((q) => q.status === "deferred")
+  ) {
+    return "deferred";
+  }
+  return "clicked";
+}
+
+/**
+ * Answers quiz, poll and "This or That" cards from the daily set and more
+ * activities. Options are tried in random order until the question advances,
+ * so a wrong pick costs another try rather than the whole quiz.
+ */
+export class QuizHandler implements TaskHandler {
+  name = "QuizHandler";
+  private config: QuizHandlerConfig;
+  private limiter: RateLimiter;
+  private random: Random;
+  private ledger: ActivityLedger;
+
+  constructor(
+    private browser: BrowserAdapter,
+    config?: Partial<QuizHandlerConfig>,
+    limiter?: RateLimiter,
+    random?: Random,
+    ledger?: ActivityLedger,
+    private quota?: QuotaTracker,
+  ) {
+    this.config = {
+      dryRun: config?.dryRun ?? false,
+      maxActionsPerHour: config?.maxActionsPerHour ?? 30,
+      maxQuizzes: config?.maxQuizzes ?? 5,
+      activityKinds: config?.activityKinds ?? [...ACTIVITY_KINDS],
+      quarantineAfterFailures: config?.quarantineAfterFailures ?? 3,
+      selectors: config?.selectors ?? builtInSelectors(),
+    };
+    // Without a shared limiter, fall back to a per-instance in-memory budget
+    this.limiter =
+      limiter ??
+      new RateLimiter({
+        maxActionsPerHour: this.config.maxActionsPerHour,
+        dryRun: this.config.dryRun,
+      });
+    this.random = random ?? new Random();
+    this.ledger = ledger ?? new ActivityLedger();
+  }
+
+  async run(page: Page): Promise<ActionResult> {
+    console.log(`[QuizHandler] Starting... (dryRun: ${this.config.dryRun})`);
+    const result: ActionResult = {
+      type: "quiz",
+      status: "skipped",
+      attempts: 0,
+      durationMs: 0,
+      activities: [],
+    };
+    const startTime = Date.now();
+
+    try {
+      await this.browser.goto(REWARDS_URL);
+      await randomDelay(2000, 4000, this.random);
+
+      const cards = await this.findQuizCards(page);
+      console.log(`[QuizHandler] Found ${cards.length} unanswered quiz cards`);
+      if (cards.length === 0) {
+        result.meta = { reason: "No unanswered quizzes" };
+        return result;
+      }
+
+      let answered = 0;
+      let failed = 0;
+      let deferred = 0;
+      // Dry runs answer nothing, so there is no balance change to attribute
+      const points = this.config.dryRun
+        ? undefined
+        : new PointsTracker(() =>
+            readPointsBalance(page, this.config.selectors.balance, {
+              api: !this.browser.replaying,
+            }),
+          );
+      await points?.read();
+
+      for (const card of cards) {
+        if (answered + failed >= this.config.maxQuizzes) {
+          console.log(
+            `[QuizHandler] Per-run limit reached (${this.config.maxQuizzes} quizzes)`,
+          );
+          break;
+        }
+
+        if (!this.limiter.tryAcquire("click")) {
+          deferred++;
+          result.activities!.push({
+            title: card.title,
+            kind: card.kind,
+            status: "deferred",
+          });
+          console.log(
+            `[QuizHandler] Hourly rate limit reached, deferring: ${card.title}`,
+          );
+          continue;
+        }
+
+        result.attempts++;
+        if (this.config.dryRun) {
+          console.log(`[DRY-RUN] Would answer ${card.kind}: "${card.title}"`);
+          answered++;
+          result.activities!.push({
+            title: card.title,
+            kind: card.kind,
+            status: "clicked",
+          });
+          continue;
+        }
+
+        const questions = await this.playCard(page, card);
+        const status = cardStatus(questions);
+        const gained = (await points?.delta()) ?? null;
+        if (status === "clicked") answered++;
+        else if (status === "failed") failed++;
+        else deferred++;
+        // A deferred card did nothing wrong; keep it away from quarantine
+        if (status !== "deferred") {
+          this.ledger.record(card, {
+            handler: "quiz",
+            status,
+            attempts: 1,
+            ...(gained !== null ? { points: gained } : {}),
+          });
+        }
+        result.activities!.push({
+          title: card.title,
+          kind: card.kind,
+          status,
+          questions,
+          ...(gained !== null ? { points: gained } : {}),
+        });
+        const label =
+          status === "clicked"
+            ? "✓ Answered"
+            : status === "failed"
+              ? "✗ Incomplete"
+              : "⏸ Deferred";
+        console.log(
+          `[QuizHandler] ${label}: ${card.title} (${questions.filter((q) => q.status === "answered").length}/${questions.length} questions${gained !== null ? `, +${gained} points` : ""})`,
+        );
+
+        await randomDelay(2000, 4000, this.random);
+      }
+
+      result.status =
+        answered > 0
+          ? "ok"
+          : deferred > 0 && failed === 0
+            ? "skipped"
+            : "failed";
+      result.meta = {
+        totalAnswered: answered,
+        totalFailed: failed,
+        deferredByRateLimit: deferred,
+      };
+    } catch (e) {
+      console.error("[QuizHandler] Error:", e);
+      result.status = "failed";
+      result.meta = { error: e instanceof Error ? e.message : String(e) };
+    } finally {
+      result.durationMs = Date.now() - startTime;
+    }
+
+    return result;
+  }
+
+  /**
+   * Finds incomplete, unlocked quiz-like cards in the daily set and more
+   * activities. The daily set is left alone once its quota is maxed.
+   */
+  private async findQuizCards(page: Page): Promise<QuizCard[]> {
+    const { selectors } = this.config;
+    const cards: QuizCard[] = [];
+    for (const section of ["daily-set", "more-activities"] as const) {
+      // A maxed daily set may still show stale incomplete cards
+      if (section === "daily-set" && this.quota?.isMaxed("daily-set")) {
+        console.log(
+          "[QuizHandler] Skipping daily set: daily-set quota reached",
+        );
+        continue;
+      }
+      const found = await sectionCards(page, section, selectors);
+      const count = found ? await found.count() : 0;
+      for (let i = 0; i < count; i++) {
+        const card = found!.nth(i);
+        try {
+          if (!(await card.isVisible())) continue;
+          if (
+            (await isCardCompleted(card, selectors)) ||
+            (await isCardLocked(card, selectors))
+          ) {
+            continue;
+          }
+          const signals = await readCardSignals(
+            card,
+            section,
+            selectors,
+            `Quiz #${cards.length}`,
+          );
+          const kind = classifyActivity(signals);
+          if (!isInteractiveKind(kind)) continue;
+          if (!this.config.activityKinds.includes(kind)) {
+            console.log(
+              `[QuizHandler] Skipping ${kind} activity: ${signals.title}`,
+            );
+            continue;
+          }
+
+          const key = activityKey(signals);
+          const { quarantineAfterFailures } = this.config;
+          if (this.ledger.isQuarantined(key, quarantineAfterFailures)) {
+            console.log(
+              `[QuizHandler] Skipping ${signals.title}: failed ${this.ledger.failuresToday(key)} times today`,
+            );
+            continue;
+          }
+
+          const link = card.locator("a").first();
+          if ((await link.count()) === 0) continue;
+          cards.push({ key, title: signals.title, kind, link });
+        } catch {
+          // Cards re-render while the dashboard loads; skip the unreadable ones
+        }
+      }
+    }
+    return cards;
+  }
+
+  /**
+   * Opens a card, answers it in the tab it opens, then returns to the dashboard.
+   */
+  private async playCard(
+    page: Page,
+    card: QuizCard,
+  ): Promise<QuizQuestionOutcome[]> {
+    const tabs = await this.browser.tabs.track(page, () =>
+      this.browser.humanizer.clickLocatorHuman(page, card.link),
+    );
+    await randomDelay(3000, 5000, this.random);
+
+    const quizPage = tabs.target;
+    try {
+      await quizPage.bringToFront();
+      return card.kind === "poll"
+        ? [await this.answerPoll(quizPage)]
+        : await this.answerQuiz(quizPage);
+    } catch (error) {
+      console.error(`[QuizHandler] Failed on "${card.title}":`, error);
+      return [{ question: 1, tries: 0, status: "failed" }];
+    } finally {
+      await tabs.close();
+      // The card opened in the dashboard tab itself
+      if (quizPage === page) await this.browser.goto(REWARDS_URL);
+    }
+  }
+
+  private async answerPoll(page: Page): Promise<QuizQuestionOutcome> {
+    const option = this.random.pick(
+      await this.visibleOptions(page, QUIZ_SELECTORS.pollOptions),
+    );
+    if (!option) return { question: 1, tries: 0, status: "failed" };
+    if (!this.limiter.tryAcquire("click")) {
+      return { question: 1, tries: 0, status: "deferred" };
+    }
+
+    await this.browser.humanizer.clickLocatorHuman(page, option);
+    await randomDelay(1500, 3000, this.random);
+    return { question: 1, tries: 1, status: "answered" };
+  }
+
+  private async answerQuiz(page: Page): Promise<QuizQuestionOutcome[]> {
+    const start = page.locator(QUIZ_SELECTORS.start).first();
+    if (await start.isVisible().catch(() => false)) {
+      if (!this.limiter.tryAcquire("click")) {
+        return [{ question: 1, tries: 0, status: "deferred" }];
+      }
+      await this.browser.humanizer.clickLocatorHuman(page, start);
+      await randomDelay(2000, 3000, this.random);
+    }
+
+    const outcomes: QuizQuestionOutcome[] = [];
+    for (let question = 1; question <= MAX_QUESTIONS; question++) {
+      if (await this.isComplete(page)) break;
+      const outcome = await this.answerQuestion(page, question);
+      outcomes.push(outcome);
+      if (outcome.status !== "answered") break;
+    }
+    return outcomes;
+  }
+
+  /**
+   * Clicks options in random order until the question or progress changes.
+   */
+  private async answerQuestion(
+    page: Page,
+    question: number,
+  ): Promise<QuizQuestionOutcome> {
+    const options = await this.visibleOptions(page, QUIZ_SELECTORS.options);
+    if (options.length === 0) return { question, tries: 0, status: "failed" };
+
+    const before = await this.questionState(page);
+    let tries = 0;
+    for (const option of this.random.shuffle(options)) {
+      if (!this.limiter.tryAcquire("click")) {
+        return { question, tries, status: "deferred" };
+      }
+      tries++;
+      await this.browser.humanizer.clickLocatorHuman(page, option);
+      await randomDelay(1500, 3000, this.random);
+
+      if (
+        (await this.isComplete(page)) ||
+        (await this.questionState(page)) !== before
+      ) {
+        return { question, tries, status: "answered" };
+      }
+      // A wrong pick leaves the question in place; try another option
+    }
+    return { question, tries, status: "failed" };
+  }
+
+  private async visibleOptions(
+    page: Page,
+    selector: string,
+  ): Promise<Locator[]> {
+    const visible: Locator[] = [];
+    for (const option of await page.locator(selector).all()) {
+      if (await option.isVisible().catch(() => false)) visible.push(option);
+    }
+    return visible;
+  }
+
+  private async isComplete(page: Page): Promise<boolean> {
+    return page
+      .locator(QUIZ_SELECTORS.complete)
+      .first()
+      .isVisible()
+      .catch(() => false);
+  }
+
+  /** Question text plus progress counter; changes when the quiz advances. */
+  private async questionState(page: Page): Promise<string> {
+    const parts = await Promise.all(
+      [QUIZ_SELECTORS.question, QUIZ_SELECTORS.progress].map((selector) =>
+        page
+          .locator(selector)
+          .first()
+          .textContent({ timeout: 1000 })
+          .catch(() => ""),
+      ),
+    );
+    return parts.join("|");
+  }
+}
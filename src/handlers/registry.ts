@@ -0,0 +1,196 @@
+import type { BrowserAdapter } from "../core/browser-adapter";
+import type { RateLimiter } from "../core/rate-limiter";
+import type { SelectorPack } from "../core/selectors";
+import type { QuotaTracker } from "../core/quota";
+import type { ActionResult, ExtendedConfig, TaskHandler } from "../types";
+import { engagementFor } from "../core/config";
+import type { Random } from "../utils/random";
+import {
+  createQueryGenerator,
+  type QueryGenerator,
+} from "../utils/query-generator";
+import { QUERY_HISTORY_PATH, QueryHistory } from "../utils/query-history";
+import { ClickHandler } from "./click-handler";
+import { QuizHandler } from "./quiz-handler";
+import { PunchCardHandler } from "./punch-card-handler";
+import { SearchHandler } from "./search-handler";
+import { PunchCardStore } from "../core/punch-cards";
+import { ACTIVITY_LEDGER_PATH, ActivityLedger } from "../core/activity-ledger";
+
+/**
+ * Everything a handler factory may need to build its handler.
+ */
+export interface HandlerContext {
+  browser: BrowserAdapter;
+  config: ExtendedConfig;
+  /** Shared hourly budget; handlers must acquire before every action. */
+  limiter: RateLimiter;
+  /** The run's seeded generator; use it instead of Math.random(). */
+  random: Random;
+  /** Dashboard selectors; handlers fall back to the built-in pack without it. */
+  selectors?: SelectorPack;
+  /** Today's points-breakdown progress; handlers size their work by it. */
+  quota?: QuotaTracker;
+}
+
+export interface HandlerRegistration {
+  /** Stable id used in `handlerOrder` and `handlers.<id>` config. */
+  id: string;
+  /** The `ActionResult.type` its handler reports, also used if it crashes. */
+  type: ActionResult["type"];
+  create(ctx: HandlerContext): TaskHandler;
+  /** Defaults to `config.handlers[id].enabled`. */
+  isEnabled?(config: ExtendedConfig): boolean;
+}
+
+/**
+ * The run's activity ledger. Replays keep theirs in memory.
+ */
+function activityLedger(config: ExtendedConfig): ActivityLedger {
+  return new ActivityLedger({
+    filePath: config.replayDir ? undefined : ACTIVITY_LEDGER_PATH,
+    profileKey: config.profileDir ?? config.userDataDir,
+  });
+}
+
+/**
+ * The handler's search query generator. Desktop and mobile searches share one
+ * history file, so neither repeats the other's queries. Each shuffles with a
+ * stream derived from the run seed and the handler id, so `queries preview
+ * --seed` can reproduce it. Replays keep their history in memory.
+ */
+function queryGenerator(
+  config: ExtendedConfig,
+  random: Random,
+  id: string,
+): QueryGenerator {
+  const { generator, locale, historyDays } = config.handlers.search;
+  return createQueryGenerator(generator, random.derive(id), {
+    locale,
+    history: new QueryHistory({
+      filePath: config.replayDir ? undefined : QUERY_HISTORY_PATH,
+      profileKey: config.profileDir ?? config.userDataDir,
+      days: historyDays,
+    }),
+  });
+}
+
+/**
+ * Whether QuizHandler takes this run's quiz cards, so ClickHandler leaves them alone.
+ */
+function quizRuns(config: ExtendedConfig): boolean {
+  return config.handlerOrder.includes("quiz") && config.handlers.quiz.enabled;
+}
+
+/**
+ * All built-in handlers. To add a handler, implement TaskHandler and register it here;
+ * the Controller picks it up and runs it according to `handlerOrder`.
+ */
+export const HANDLER_REGISTRY: HandlerRegistration[] = [
+  {
+    id: "click",
+    type: "click",
+    create: ({ browser, config, limiter, random, selectors, quota }) =>
+      new ClickHandler(
+        browser,
+        {
+          dryRun: config.dryRun,
+          maxActionsPerHour: config.maxActionsPerHour,
+          maxClicks: config.handlers.click.maxClicks,
+          discovery: config.handlers.click.discovery,
+          verifyRetries: config.handlers.click.verifyRetries,
+          retryBackoffMs: config.handlers.click.retryBackoffMs,
+          engagement: engagementFor(config.engagement, "explore"),
+          activityKinds: config.activityKinds,
+          quarantineAfterFailures: config.quarantineAfterFailures,
+          skipInteractive: quizRuns(config),
+          selectors: selectors?.selectors,
+        },
+        limiter,
+        random,
+        activityLedger(config),
+        quota,
+      ),
+    isEnabled: (config) => config.handlers.click.enabled && !config.skipClicks,
+  },
+  {
+    id: "quiz",
+    type: "quiz",
+    create: ({ browser, config, limiter, random, selectors, quota }) =>
+      new QuizHandler(
+        browser,
+        {
+          dryRun: config.dryRun,
+          maxActionsPerHour: config.maxActionsPerHour,
+          maxQuizzes: config.handlers.quiz.maxQuizzes,
+          activityKinds: config.activityKinds,
+          quarantineAfterFailures: config.quarantineAfterFailures,
+          selectors: selectors?.selectors,
+        },
+        limiter,
+        random,
+        activityLedger(config),
+        quota,
+      ),
+  },
+  {
+    id: "punchcard",
+    type: "punchcard",
+    create: ({ browser, config, limiter, random, selectors }) =>
+      new PunchCardHandler(
+        browser,
+        {
+          dryRun: config.dryRun,
+          maxActionsPerHour: config.maxActionsPerHour,
+          maxTasks: config.handlers.punchcard.maxTasks,
+          selectors: selectors?.selectors,
+        },
+        limiter,
+        random,
+        new PunchCardStore({
+          // Replayed cards are not real progress
+          filePath: config.replayDir ? undefined : "./.rewards-punchcards.json",
+          profileKey: config.profileDir ?? config.userDataDir,
+        }),
+      ),
+    isEnabled: (config) =>
+      config.handlers.punchcard.enabled &&
+      config.activityKinds.includes("punch-card"),
+  },
+  {
+    id: "search",
+    type: "search",
+    create: ({ browser, config, limiter, random, quota }) =>
+      new SearchHandler(
+        browser,
+        {
+          dryRun: config.dryRun,
+          maxActionsPerHour: config.maxActionsPerHour,
+          maxSearches: config.handlers.search.maxSearches,
+          engagement: engagementFor(config.engagement, "search"),
+        },
+        limiter,
+        random,
+        queryGenerator(config, random, "search"),
+        quota,
+      ),
+  },
+  {
+    id: "mobilesearch",
+    type: "search",
+    create: ({ browser, config, limiter, random, quota }) =>
+      new SearchHandler(
+        browser,
+        {
+          dryRun: config.dryRun,
+          maxActionsPerHour: config.maxActionsPerHour,
+          maxSearches: config.handlers.mobilesearch.maxSearches,
+          device: config.handlers.mobilesearch.device,
+        },
+        limiter,
+        random,
+        queryGenerator(config, random, "mobilesearch"),
+        quota,
+      ),
+  },
+];
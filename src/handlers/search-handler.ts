@@ -0,0 +1,273 @@
+import type { Page } from "playwright";
+import type {
+  TaskHandler,
+  ActionResult,
+  RunConfig,
+  SearchHandlerSettings,
+  MobileSearchHandlerSettings,
+  EngagementProfile,
+  QuotaCategory,
+} from "../types";
+import { BrowserAdapter, type EngagementReport } from "../core/browser-adapter";
+import { RateLimiter } from "../core/rate-limiter";
+import { POINTS_PER_SEARCH, type QuotaTracker } from "../core/quota";
+import { randomDelay } from "../utils/humanizer";
+import { Random } from "../utils/random";
+import {
+  LocalQueryGenerator,
+  type QueryGenerator,
+} from "../utils/query-generator";
+
+export const BING_URL = "https://www.bing.com/";
+const SEARCH_BOX = '#sb_form_q, [name="q"]';
+
+/**
+ * What happened to one query; listed in `meta.searches`.
+ */
+export interface SearchOutcome {
+  query: string;
+  status: "searched" | "failed" | "deferred";
+  durationMs?: number;
+  error?: string;
+  /** How the results were read, when engagement is on. */
+  engagement?: EngagementReport;
+}
+
+type SearchHandlerConfig = Pick<RunConfig, "dryRun" | "maxActionsPerHour"> &
+  Pick<SearchHandlerSettings, "maxSearches"> &
+  Partial<Pick<MobileSearchHandlerSettings, "device">> & {
+    /** How desktop results are read; without it, a plain 4-9 s wait. */
+    engagement?: EngagementProfile;
+  };
+
+/**
+ * Runs Bing searches for the daily search points. Queries come from a
+ * pluggable local generator; each search needs "search" budget from the rate
+ * limiter, so a spent budget defers the rest of the run's queries.
+ *
+ * With a `device`, it searches from a page in an emulated phone context
+ * (see BrowserAdapter.openMobilePage) and taps and swipes instead of moving
+ * the mouse, for the mobile search points.
+ *
+ * With a QuotaTracker that has read its category (PC or mobile search), it
+ * searches just enough for the points still open and skips once the category
+ * is maxed; `maxSearches` is the count when the quota is unknown.
+ */
+export class SearchHandler implements TaskHandler {
+  name: string;
+  private config: SearchHandlerConfig;
+  private limiter: RateLimiter;
+  private random: Random;
+  private generator: QueryGenerator;
+
+  constructor(
+    private browser: BrowserAdapter,
+    config?: Partial<SearchHandlerConfig>,
+    limiter?: RateLimiter,
+    random?: Random,
+    generator?: QueryGenerator,
+    private quota?: QuotaTracker,
+  ) {
+    this.config = {
+      dryRun: config?.dryRun ?? false,
+      maxActionsPerHour: config?.maxActionsPerHour ?? 30,
+      maxSearches: config?.maxSearches ?? 10,
+      device: config?.device,
+      engagement: config?.engagement,
+    };
+    this.name = this.config.device ? "MobileSearchHandler" : "SearchHandler";
+    // Without a shared limiter, fall back to a per-instance in-memory budget
+    this.limiter =
+      limiter ??
+      new RateLimiter({
+        maxActionsPerHour: this.config.maxActionsPerHour,
+        dryRun: this.config.dryRun,
+      });
+    this.random = random ?? new Random();
+    this.generator = generator ?? new LocalQueryGenerator(this.random);
+  }
+
+  async run(page: Page): Promise<ActionResult> {
+    const { device } = this.config;
+    console.log(
+      `[${this.name}] Starting... (dryRun: ${this.config.dryRun}${device ? `, device: ${device}` : ""})`,
+    );
+    const searches: SearchOutcome[] = [];
+    const category: QuotaCategory = device ? "mobile-search" : "pc-search";
+    const progress = this.quota?.progress(category);
+    const base = {
+      generator: this.generator.name,
+      ...(device ? { device } : {}),
+      ...(progress ? { quota: progress } : {}),
+    };
+    const result: ActionResult = {
+      type: "search",
+      status: "skipped",
+      attempts: 0,
+      durationMs: 0,
+      meta: { ...base, searches },
+    };
+    const startTime = Date.now();
+    let mobilePage: Page | null = null;
+
+    try {
+      if (progress) {
+        console.log(
+          `[${this.name}] ${category} quota: ${progress.earned}/${progress.max} points`,
+        );
+      }
+      if (this.quota?.isMaxed(category)) {
+        console.log(`[${this.name}] ${category} quota reached, nothing to do`);
+        result.meta = { ...base, reason: "Quota reached" };
+        return result;
+      }
+      const remaining = this.quota?.remaining(category) ?? null;
+      const count =
+        remaining === null
+          ? this.config.maxSearches
+          : Math.ceil(remaining / POINTS_PER_SEARCH);
+
+      const queries = await this.generator.generate(count);
+      console.log(
+        `[${this.name}] ${queries.length} queries from the ${this.generator.name} generator`,
+      );
+      if (queries.length === 0) {
+        result.meta = { ...base, reason: "No queries" };
+        return result;
+      }
+
+      if (device && !this.config.dryRun) {
+        mobilePage = await this.browser.openMobilePage(device);
+      }
+      const searchPage = mobilePage ?? page;
+
+      for (const query of queries) {
+        if (!this.limiter.tryAcquire("search")) {
+          searches.push({ query, status: "deferred" });
+          console.log(
+            `[${this.name}] Hourly rate limit reached, deferring: "${query}"`,
+          );
+          continue;
+        }
+
+        result.attempts++;
+        if (this.config.dryRun) {
+          console.log(`[DRY-RUN] Would search: "${query}"`);
+          searches.push({ query, status: "searched" });
+          continue;
+        }
+
+        const outcome = await this.search(searchPage, query);
+        searches.push(outcome);
+        if (outcome.status === "searched") this.generator.markUsed?.(query);
+        console.log(
+          outcome.status === "searched"
+            ? `[${this.name}] ✓ Searched: "${query}"`
+            : `[${this.name}] ✗ Failed: "${query}"`,
+        );
+
+        // Read the results for a while, like a person would
+        const { engagement } = this.config;
+        if (mobilePage && outcome.status === "searched") {
+          await this.skimResults(mobilePage);
+        } else if (engagement?.enabled && outcome.status === "searched") {
+          outcome.engagement = await this.browser.engageWithResults(
+            searchPage,
+            engagement,
+            this.name,
+          );
+        } else {
+          await randomDelay(4000, 9000, this.random);
+        }
+      }
+
+      const searched = searches.filter((s) => s.status === "searched").length;
+      const failed = searches.filter((s) => s.status === "failed").length;
+      const deferred = searches.length - searched - failed;
+      result.status =
+        searched > 0
+          ? "ok"
+          : deferred > 0 && failed === 0
+            ? "skipped"
+            : "failed";
+      Object.assign(result.meta!, {
+        totalSearched: searched,
+        totalFailed: failed,
+        deferredByRateLimit: deferred,
+      });
+    } catch (e) {
+      console.error(`[${this.name}] Error:`, e);
+      result.status = "failed";
+      result.meta = {
+        ...result.meta,
+        error: e instanceof Error ? e.message : String(e),
+      };
+    } finally {
+      await mobilePage?.close().catch(() => {});
+      result.durationMs = Date.now() - startTime;
+    }
+
+    return result;
+  }
+
+  /**
+   * Types one query into Bing's search box and submits it.
+   */
+  private async search(page: Page, query: string): Promise<SearchOutcome> {
+    const { humanizer } = this.browser;
+    const startTime = Date.now();
+    try {
+      // Later searches reuse the results page's search box
+      if (!page.url().startsWith(BING_URL)) {
+        // The adapter's goto only drives the desktop page
+        if (this.config.device) {
+          await page.goto(BING_URL, { waitUntil: "domcontentloaded" });
+        } else {
+          await this.browser.goto(BING_URL);
+        }
+        await randomDelay(1000, 2000, this.random);
+      }
+
+      if (this.config.device) {
+        await humanizer.tapAndTypeHuman(page, SEARCH_BOX, query);
+      } else {
+        await humanizer.clearAndTypeHuman(page, SEARCH_BOX, query);
+      }
+      await randomDelay(120, 300, this.random);
+      await page.keyboard.press("Enter");
+      await page
+        .waitForLoadState("domcontentloaded", { timeout: 30_000 })
+        .catch(() => {});
+      return { query, status: "searched", durationMs: Date.now() - startTime };
+    } catch (error) {
+      console.error(`[${this.name}] Search failed for "${query}":`, error);
+      return {
+        query,
+        status: "failed",
+        durationMs: Date.now() - startTime,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Swipes through the results a few times, then back up to the search box.
+   */
+  private async skimResults(page: Page): Promise<void> {
+    const { humanizer } = this.browser;
+    const swipes = this.random.int(1, 3);
+    let scrolled = 0;
+    try {
+      for (let i = 0; i < swipes; i++) {
+        const distance = this.random.int(300, 700);
+        await humanizer.swipeScroll(page, distance);
+        scrolled += distance;
+        await randomDelay(1500, 3500, this.random);
+      }
+      await humanizer.swipeScroll(page, -scrolled);
+    } catch (error) {
+      // The search already counted; a lost swipe is not worth failing it
+      console.warn(`[${this.name}] Swipe failed:`, error);
+    }
+  }
+}
@@ -3,17 +3,270 @@ export type RunConfig = {
   profileDir?: string;
   dryRun: boolean;
   maxActionsPerHour: number;
+  /** Seed for all random decisions; a fresh one is generated when unset. */
+  randomSeed?: number;
+  headless: boolean;
+  channel: BrowserChannel;
+  /** Overrides channel detection when set. */
+  executablePath?: string;
+};
+
+export type BrowserChannel = "msedge" | "msedge-beta" | "chromium";
+
+/**
+ * How ClickHandler finds activities: "network" reads the dashboard's own JSON
+ * responses and falls back to "dom" (card markup) when they hold no offers.
+ */
+export type ActivityDiscovery = "network" | "dom";
+
+export type ClickHandlerSettings = {
+  enabled: boolean;
+  maxClicks: number;
+  discovery: ActivityDiscovery;
+  /** Extra attempts for an activity that was clicked but not credited. */
+  verifyRetries: number;
+  /** Wait before the first re-check; doubles on each retry. */
+  retryBackoffMs: number;
+};
+
+export type QuizHandlerSettings = {
+  enabled: boolean;
+  /** Maximum quiz, poll and "This or That" cards answered per run. */
+  maxQuizzes: number;
+};
+
+export type PunchCardHandlerSettings = {
+  enabled: boolean;
+  /** Maximum punch card tasks performed per run, across all cards. */
+  maxTasks: number;
+};
+
+/** Built-in query generators SearchHandler can use, see src/utils/query-generator.ts. */
+export const QUERY_GENERATOR_NAMES = ["local"] as const;
+
+export type QueryGeneratorName = (typeof QUERY_GENERATOR_NAMES)[number];
+
+/** Locales with a bundled query corpus, see src/utils/query-corpus.ts. */
+export const QUERY_LOCALES = [
+  "en-US",
+  "en-GB",
+  "de-DE",
+  "fr-FR",
+  "es-ES",
+] as const;
+
+export type QueryLocale = (typeof QUERY_LOCALES)[number];
+
+export type SearchHandlerSettings = {
+  enabled: boolean;
+  /**
+   * Bing searches performed per run, each needing rate-limit budget. Only
+   * used when the points breakdown could not be read; otherwise the run
+   * searches for what is left of the PC search quota.
+   */
+  maxSearches: number;
+  generator: QueryGeneratorName;
+  /** Corpus the generator builds queries from; shared with mobile searches. */
+  locale: QueryLocale;
+  /** Days a searched query is not generated again; 0 keeps no history. */
+  historyDays: number;
+};
+
+/**
+ * Bing searches from an emulated phone; queries come from `search.generator`.
+ */
+export type MobileSearchHandlerSettings = {
+  enabled: boolean;
+  /** Searches per run when the mobile search quota is unknown. */
+  maxSearches: number;
+  /** Playwright device descriptor to emulate, e.g. "Pixel 7" or "iPhone 13". */
+  device: string;
+};
+
+export type HandlerSettings = {
+  click: ClickHandlerSettings;
+  quiz: QuizHandlerSettings;
+  punchcard: PunchCardHandlerSettings;
+  search: SearchHandlerSettings;
+  mobilesearch: MobileSearchHandlerSettings;
+};
+
+/** Tasks that can read their search results; see `engagement.tasks`. */
+export const ENGAGEMENT_TASKS = ["explore", "search"] as const;
+
+export type EngagementTask = (typeof ENGAGEMENT_TASKS)[number];
+
+/**
+ * How a search results page is read after searching: wheel scrolls, maybe
+ * one organic result opened and read, then back to the results.
+ */
+export type EngagementProfile = {
+  enabled: boolean;
+  /** Wheel scrolls down the results, sampled between min and max. */
+  minScrolls: number;
+  maxScrolls: number;
+  /** Chance (0-1) of opening one of the top organic results. */
+  openResultChance: number;
+  /** Time spent on an opened result, sampled between min and max. */
+  minDwellSeconds: number;
+  maxDwellSeconds: number;
+};
+
+export type EngagementSettings = EngagementProfile & {
+  /** Per-task overrides, e.g. `{ "explore": { "openResultChance": 0 } }`. */
+  tasks: Partial<Record<EngagementTask, Partial<EngagementProfile>>>;
+};
+
+export type ScheduleSettings = {
+  /** Daily local-time windows, "HH:MM-HH:MM". */
+  windows: string[];
+  /** Per-profile window overrides, keyed by profile name. */
+  profiles: Record<string, string[]>;
+};
+
+export type BatchSettings = {
+  /** Randomized pause between profiles, in seconds. */
+  minGapSeconds: number;
+  maxGapSeconds: number;
+};
+
+/** What a dashboard card asks for, as sorted by the activity classifier. */
+export const ACTIVITY_KINDS = [
+  "url-reward",
+  "search",
+  "quiz",
+  "poll",
+  "this-or-that",
+  "punch-card",
+  "promotional",
+] as const;
+
+export type ActivityKind = (typeof ACTIVITY_KINDS)[number];
+
+/** Categories of the dashboard's points breakdown that the agent tracks. */
+export const QUOTA_CATEGORIES = [
+  "pc-search",
+  "mobile-search",
+  "daily-set",
+  "edge-bonus",
+] as const;
+
+export type QuotaCategory = (typeof QUOTA_CATEGORIES)[number];
+
+export type CategoryProgress = {
+  /** Points earned in the category today. */
+  earned: number;
+  /** Points the category can earn per day. */
+  max: number;
+};
+
+/**
+ * Today's progress per category, as read from the points breakdown.
+ * Categories the breakdown did not show are absent.
+ */
+export type QuotaStatus = {
+  /** When the breakdown was read (ISO timestamp). */
+  readAt: string;
+  categories: Partial<Record<QuotaCategory, CategoryProgress>>;
+};
+
+/**
+ * One card seen on the dashboard, whether or not any handler acted on it.
+ */
+export type DashboardOffer = {
+  /** Dashboard section the card sits in, e.g. "daily-set". */
+  section: string;
+  title: string;
+  kind: ActivityKind;
+  /** Points the card advertises, when it shows a number. */
+  points?: number;
+  completed: boolean;
+  locked: boolean;
+  url?: string;
+};
+
+export type ExtendedConfig = RunConfig & {
+  skipClicks: boolean;
+  profileName?: string;
+  /** Batch mode: run these profiles one after another. */
+  profileNames: string[];
+  /** Batch mode: run every profile found by scanEdgeProfiles. */
+  allProfiles: boolean;
+  batch: BatchSettings;
+  /** Registered handler ids, in the order they run. */
+  handlerOrder: string[];
+  handlers: HandlerSettings;
+  /** Activity kinds handlers may act on; cards of other kinds are only recorded. */
+  activityKinds: ActivityKind[];
+  /** Skip a card for the rest of the day once it failed this many times. */
+  quarantineAfterFailures: number;
+  engagement: EngagementSettings;
+  daemon: boolean;
+  schedule: ScheduleSettings;
+  /** Explicit consent for live runs on profiles not listed in testProfiles. */
+  confirm: boolean;
+  /** Profiles (name, email or folder) that are throwaway test accounts. */
+  testProfiles: string[];
+  /** Print a machine-readable run report on stdout; human output goes to stderr. */
+  json: boolean;
+  /** Selector override file; ./rewards.selectors.json is used when unset and present. */
+  selectorsFile?: string;
+  /** Run against a saved dashboard snapshot instead of the live site. */
+  replayDir?: string;
+};
+
+/**
+ * Process exit codes, so wrapper scripts can tell failures apart.
+ */
+export const ExitCode = {
+  Success: 0,
+  Fatal: 1,
+  /** The run finished but at least one handler (or batch profile) failed. */
+  PartialFailure: 2,
+  AcknowledgementRequired: 3,
+  ConfirmationRequired: 4,
+  NotLoggedIn: 5,
+} as const;
+
+/**
+ * What happened to one dashboard activity during a handler run.
+ */
+export type ActivityOutcome = {
+  title: string;
+  /** Activity kind for dashboard cards, e.g. "url-reward"; handler-specific otherwise. */
+  kind: string;
+  /** "not-credited": clicked, but no completion mark or points after every retry. */
+  status: "clicked" | "not-credited" | "failed" | "deferred";
+  /** Balance change measured across the activity's attempts, when readable. */
+  points?: number;
+  /** Clicks spent on the activity, including retries. */
+  attempts?: number;
+  /** Per-question results for quiz, poll and "This or That" cards. */
+  questions?: QuizQuestionOutcome[];
+};
+
+export type QuizQuestionOutcome = {
+  /** 1-based question number. */
+  question: number;
+  /** Options clicked before the question advanced. */
+  tries: number;
+  /** "deferred": the hourly budget ran out before the question was answered. */
+  status: "answered" | "failed" | "deferred";
 };
 
 export type ActionResult = {
-  type: "click";
+  type: "click" | "quiz" | "punchcard" | "search";
   status: "ok" | "failed" | "skipped";
   attempts: number;
   durationMs: number;
+  /** Per-activity outcomes, for handlers that work through a list of activities. */
+  activities?: ActivityOutcome[];
+  /** Balance change across the handler run, when the balance was readable. */
+  points?: number;
   meta?: Record<string, unknown>;
 };
 
-import type { Page } from 'playwright';
+import type { Page } from "playwright";
 
 export interface TaskHandler {
   name: string;
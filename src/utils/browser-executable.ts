@@ -0,0 +1,116 @@
+import { existsSync } from "fs";
+import type { BrowserChannel } from "../types";
+
+/**
+ * What BrowserAdapter should hand to Playwright. An empty target means
+ * Playwright's bundled Chromium.
+ */
+export interface BrowserLaunchTarget {
+  executablePath?: string;
+}
+
+export class BrowserNotFoundError extends Error {
+  constructor(
+    message: string,
+    public readonly searched: string[],
+  ) {
+    super(message);
+    this.name = "BrowserNotFoundError";
+  }
+}
+
+// Linux package binaries, most stable first; the msedge channel accepts any of them
+const LINUX_EDGE_BINARIES: Record<"msedge" | "msedge-beta", string[]> = {
+  msedge: [
+    "microsoft-edge-stable",
+    "microsoft-edge",
+    "microsoft-edge-beta",
+    "microsoft-edge-dev",
+  ],
+  "msedge-beta": ["microsoft-edge-beta"],
+};
+
+// Where the .deb/.rpm packages link their launchers
+const LINUX_BIN_DIRS = ["/usr/bin", "/usr/local/bin"];
+
+const LINUX_EDGE_DIRS: Record<"msedge" | "msedge-beta", string[]> = {
+  msedge: [
+    "/opt/microsoft/msedge/msedge",
+    "/opt/microsoft/msedge-beta/msedge",
+    "/opt/microsoft/msedge-dev/msedge",
+  ],
+  "msedge-beta": ["/opt/microsoft/msedge-beta/msedge"],
+};
+
+/**
+ * Lists the paths checked for an Edge channel on the given platform, in order.
+ */
+export function edgeCandidates(
+  channel: "msedge" | "msedge-beta",
+  platform: NodeJS.Platform = process.platform,
+  env: NodeJS.ProcessEnv = process.env,
+): string[] {
+  if (platform === "win32") {
+    const folder = channel === "msedge" ? "Edge" : "Edge Beta";
+    const roots = [
+      env["PROGRAMFILES(X86)"] ?? "C:\\Program Files (x86)",
+      env.PROGRAMFILES ?? "C:\\Program Files",
+      env.LOCALAPPDATA,
+    ].filter((r): r is string => Boolean(r));
+    return roots.map(
+      (root) => `${root}\\Microsoft\\${folder}\\Application\\msedge.exe`,
+    );
+  }
+
+  if (platform === "darwin") {
+    const app = channel === "msedge" ? "Microsoft Edge" : "Microsoft Edge Beta";
+    return [`/Applications/${app}.app/Contents/MacOS/${app}`];
+  }
+
+  const fromBin = LINUX_EDGE_BINARIES[channel].flatMap((binary) =>
+    LINUX_BIN_DIRS.map((dir) => `${dir}/${binary}`),
+  );
+  return [...fromBin, ...LINUX_EDGE_DIRS[channel]];
+}
+
+/**
+ * Picks the browser binary for a run: an explicit --executable-path, the first
+ * installed Edge for the channel, or bundled Chromium. Throws BrowserNotFoundError
+ * listing every path checked when nothing usable exists.
+ */
+export function resolveBrowserExecutable(
+  options: { channel: BrowserChannel; executablePath?: string },
+  deps: {
+    platform?: NodeJS.Platform;
+    env?: NodeJS.ProcessEnv;
+    exists?: (path: string) => boolean;
+  } = {},
+): BrowserLaunchTarget {
+  const exists = deps.exists ?? existsSync;
+
+  if (options.executablePath) {
+    if (!exists(options.executablePath)) {
+      throw new BrowserNotFoundError(
+        `Browser executable not found: ${options.executablePath}`,
+        [options.executablePath],
+      );
+    }
+    return { executablePath: options.executablePath };
+  }
+
+  if (options.channel === "chromium") return {};
+
+  const searched = edgeCandidates(options.channel, deps.platform, deps.env);
+  const found = searched.find((p) => exists(p));
+  if (!found) {
+    throw new BrowserNotFoundError(
+      [
+        `No Microsoft Edge installation found for channel "${options.channel}". Searched:`,
+        ...searched.map((p) => `  - ${p}`),
+        "Install Edge, pass --executable-path <path>, or use --channel chromium.",
+      ].join("\n"),
+      searched,
+    );
+  }
+  return { executablePath: found };
+}
@@ -157,7 +157,9 @@ export function printProfiles(): void {
     );
   });
 
-  console.log(`\nUsage: pnpm run start -- --profile "<display name or email>"`);
+  console.log(
+    `\nUsage: pnpm run start -- run --profile "<display name or email>"`,
+  );
 }
 
 /**
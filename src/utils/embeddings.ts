@@ -112,7 +112,7 @@ function parseStoredQueryBank(raw: string): QueryBankEntry[] | null {
   return entries;
 }
 
-function getQueryBankPath(): string {
+export function getQueryBankPath(): string {
   const thisDir = dirname(fileURLToPath(import.meta.url));
   return resolve(thisDir, '../../data/query-bank.json');
 }
@@ -1,10 +1,18 @@
 import type { Page, Locator } from 'playwright';
+import { Random } from './random';
+
+// Used when callers do not pass the run's seeded generator
+const defaultRandom = new Random();
 
 /**
  * Returns a promise that resolves after a random duration between min and max.
  */
-export const randomDelay = async (min: number = 500, max: number = 2000): Promise<void> => {
-  const delay = Math.floor(Math.random() * (max - min + 1)) + min;
+export const randomDelay = async (
+  min: number = 500,
+  max: number = 2000,
+  random: Random = defaultRandom
+): Promise<void> => {
+  const delay = random.int(min, max);
   return new Promise((resolve) => setTimeout(resolve, delay));
 };
 
@@ -17,15 +25,16 @@ export const generateMousePath = (
   startY: number,
   endX: number,
   endY: number,
-  steps: number = 50
+  steps: number = 50,
+  random: Random = defaultRandom
 ): { x: number; y: number }[] => {
   const path: { x: number; y: number }[] = [];
 
   // Control points for Bezier curve (randomize slightly for variability)
-  const control1X = startX + (endX - startX) * 0.3 + (Math.random() - 0.5) * 50;
-  const control1Y = startY + (endY - startY) * 0.1 + (Math.random() - 0.5) * 50;
-  const control2X = startX + (endX - startX) * 0.7 + (Math.random() - 0.5) * 50;
-  const control2Y = startY + (endY - startY) * 0.9 + (Math.random() - 0.5) * 50;
+  const control1X = startX + (endX - startX) * 0.3 + (random.next() - 0.5) * 50;
+  const control1Y = startY + (endY - startY) * 0.1 + (random.next() - 0.5) * 50;
+  const control2X = startX + (endX - startX) * 0.7 + (random.next() - 0.5) * 50;
+  const control2Y = startY + (endY - startY) * 0.9 + (random.next() - 0.5) * 50;
 
   for (let i = 0; i <= steps; i++) {
     const t = i / steps;
@@ -46,6 +55,8 @@ export const generateMousePath = (
 };
 
 export class Humanizer {
+  constructor(public readonly random: Random = defaultRandom) {}
+
   /**
    * Clicks an element with human-like movement and delays.
    */
@@ -55,8 +66,8 @@ export class Humanizer {
     if (!box) throw new Error(`Element ${selector} not visible`);
 
     // Calculate target point (center of element + random offset)
-    const targetX = box.x + box.width / 2 + (Math.random() - 0.5) * (box.width * 0.8);
-    const targetY = box.y + box.height / 2 + (Math.random() - 0.5) * (box.height * 0.8);
+    const targetX = box.x + box.width / 2 + (this.random.next() - 0.5) * (box.width * 0.8);
+    const targetY = box.y + box.height / 2 + (this.random.next() - 0.5) * (box.height * 0.8);
 
     // Get current mouse position is not directly exposed in simple API,
     // but we can assume 0,0 or store state. For now, we simply move.
@@ -66,18 +77,18 @@ export class Humanizer {
     const startY = 0;
 
     // Move mouse along path
-    const path = generateMousePath(startX, startY, targetX, targetY);
+    const path = generateMousePath(startX, startY, targetX, targetY, 50, this.random);
     for (const point of path) {
       await page.mouse.move(point.x, point.y);
       // Very fast pauses between movement steps to simulate sampling rate
-      await new Promise(r => setTimeout(r, Math.random() * 5));
+      await new Promise(r => setTimeout(r, this.random.next() * 5));
     }
 
-    await randomDelay(100, 300); // Pause before click
+    await randomDelay(100, 300, this.random); // Pause before click
     await page.mouse.down();
-    await randomDelay(50, 150);  // Hold click
+    await randomDelay(50, 150, this.random);  // Hold click
     await page.mouse.up();
-    await randomDelay(500, 1000); // Post-click pause
+    await randomDelay(500, 1000, this.random); // Post-click pause
   }
 
   /**
@@ -89,23 +100,76 @@ export class Humanizer {
     const box = await element.boundingBox();
     if (!box) throw new Error('Element not visible');
 
-    const targetX = box.x + box.width / 2 + (Math.random() - 0.5) * (box.width * 0.8);
-    const targetY = box.y + box.height / 2 + (Math.random() - 0.5) * (box.height * 0.8);
+    const targetX = box.x + box.width / 2 + (this.random.next() - 0.5) * (box.width * 0.8);
+    const targetY = box.y + box.height / 2 + (this.random.next() - 0.5) * (box.height * 0.8);
 
     const startX = 0;
     const startY = 0;
 
-    const path = generateMousePath(startX, startY, targetX, targetY);
+    const path = generateMousePath(startX, startY, targetX, targetY, 50, this.random);
     for (const point of path) {
       await page.mouse.move(point.x, point.y);
-      await new Promise(r => setTimeout(r, Math.random() * 5));
+      await new Promise(r => setTimeout(r, this.random.next() * 5));
     }
 
-    await randomDelay(100, 300);
+    await randomDelay(100, 300, this.random);
     await page.mouse.down();
-    await randomDelay(50, 150);
+    await randomDelay(50, 150, this.random);
     await page.mouse.up();
-    await randomDelay(500, 1000);
+    await randomDelay(500, 1000, this.random);
+  }
+
+  /**
+   * Taps an element like a finger would: a random point inside it, no pointer
+   * path. Needs a touch-enabled context (see BrowserAdapter.openMobilePage).
+   */
+  async tapHuman(page: Page, selector: string): Promise<void> {
+    const box = await page.locator(selector).first().boundingBox();
+    if (!box) throw new Error(`Element ${selector} not visible`);
+
+    const targetX = box.x + box.width / 2 + (this.random.next() - 0.5) * (box.width * 0.8);
+    const targetY = box.y + box.height / 2 + (this.random.next() - 0.5) * (box.height * 0.8);
+
+    await randomDelay(150, 400, this.random); // Finger reaching the target
+    await page.touchscreen.tap(targetX, targetY);
+    await randomDelay(300, 800, this.random);
+  }
+
+  /**
+   * Scrolls with a finger swipe: a touch scroll gesture starting at a random
+   * point in the lower half of the screen. Positive distances scroll down.
+   */
+  async swipeScroll(page: Page, distance: number): Promise<void> {
+    const viewport = page.viewportSize() ?? { width: 390, height: 844 };
+    const session = await page.context().newCDPSession(page);
+    try {
+      await session.send('Input.synthesizeScrollGesture', {
+        x: Math.round(viewport.width * (0.3 + this.random.next() * 0.4)),
+        y: Math.round(viewport.height * (0.55 + this.random.next() * 0.25)),
+        yDistance: -Math.round(distance),
+        speed: this.random.int(600, 1400),
+        gestureSourceType: 'touch',
+      });
+    } finally {
+      await session.detach().catch(() => {});
+    }
+    await randomDelay(400, 1200, this.random); // Let the page settle
+  }
+
+  /**
+   * Scrolls with the mouse wheel the way a hand does: a burst of uneven
+   * notches with short gaps rather than one jump. Positive distances scroll down.
+   */
+  async scrollWheelHuman(page: Page, distance: number): Promise<void> {
+    const direction = Math.sign(distance);
+    let remaining = Math.abs(distance);
+    while (remaining > 0) {
+      const notch = Math.min(remaining, this.random.int(80, 140));
+      await page.mouse.wheel(0, direction * notch);
+      remaining -= notch;
+      await randomDelay(30, 120, this.random);
+    }
+    await randomDelay(300, 900, this.random); // Eyes catching up
   }
 
   /**
@@ -117,7 +181,7 @@ export class Humanizer {
     for (const char of text) {
       await page.keyboard.type(char);
       // Random delay between keystrokes (50ms - 150ms)
-      await randomDelay(50, 150);
+      await randomDelay(50, 150, this.random);
     }
   }
 
@@ -127,13 +191,29 @@ export class Humanizer {
   async clearAndTypeHuman(page: Page, selector: string, text: string): Promise<void> {
     await this.clickHuman(page, selector);
     await page.keyboard.press('Control+A');
-    await randomDelay(30, 80);
+    await randomDelay(30, 80, this.random);
+    await page.keyboard.press('Backspace');
+    await randomDelay(50, 120, this.random);
+
+    for (const char of text) {
+      await page.keyboard.type(char);
+      await randomDelay(50, 150, this.random);
+    }
+  }
+
+  /**
+   * Taps the input, clears it, and then types text at thumb speed.
+   */
+  async tapAndTypeHuman(page: Page, selector: string, text: string): Promise<void> {
+    await this.tapHuman(page, selector);
+    await page.keyboard.press('Control+A');
+    await randomDelay(30, 80, this.random);
     await page.keyboard.press('Backspace');
-    await randomDelay(50, 120);
+    await randomDelay(50, 120, this.random);
 
     for (const char of text) {
       await page.keyboard.type(char);
-      await randomDelay(50, 150);
+      await randomDelay(80, 220, this.random);
     }
   }
 }
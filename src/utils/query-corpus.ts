@@ -0,0 +1,213 @@
+import type { QueryLocale } from "../types";
+
+/**
+ * What the local query generator builds a locale's queries from. Templates
+ * hold `{topic}` plus optional slots named after a word list, e.g. `{place}`.
+ */
+export interface LocaleCorpus {
+  /** Everyday subjects people look up. */
+  topics: string[];
+  templates: string[];
+  /** Words for the other template slots, by slot name. */
+  words: Record<string, string[]>;
+}
+
+const EN_TOPICS = [
+  "banana bread",
+  "sourdough starter",
+  "houseplants",
+  "electric cars",
+  "solar panels",
+  "hiking trails",
+  "camping gear",
+  "noise cancelling headphones",
+  "board games",
+  "herb garden",
+  "chess openings",
+  "watercolor painting",
+  "yoga poses",
+  "home office setup",
+  "budget travel",
+  "coffee brewing",
+  "meal prep",
+  "bird watching",
+  "vegetable soup",
+  "guitar chords",
+  "road trip",
+  "smart thermostat",
+  "photography",
+  "marathon training",
+  "indoor cycling",
+  "pizza dough",
+  "winter jackets",
+  "mechanical keyboards",
+  "stargazing",
+  "podcast microphones",
+  "kayaking",
+  "vintage furniture",
+  "cold brew",
+  "bike maintenance",
+];
+
+const EN_TEMPLATES = [
+  "{topic}",
+  "best {topic}",
+  "{topic} for beginners",
+  "{topic} tips",
+  "{topic} ideas",
+  "how to get started with {topic}",
+  "{topic} near me",
+  "history of {topic}",
+  "cheap {topic}",
+  "{topic} reviews",
+  "{topic} in {place}",
+  "{topic} {time}",
+];
+
+/**
+ * The bundled corpus, one entry per supported locale. Keep entries written
+ * the way people in that locale type searches: their spelling, their places.
+ */
+export const QUERY_CORPUS: Record<QueryLocale, LocaleCorpus> = {
+  "en-US": {
+    topics: [...EN_TOPICS, "national parks", "running shoes"],
+    templates: EN_TEMPLATES,
+    words: {
+      place: ["Seattle", "Denver", "Austin", "Chicago", "Boston", "Portland"],
+      time: ["this weekend", "for fall", "on a budget"],
+    },
+  },
+  "en-GB": {
+    topics: [
+      ...EN_TOPICS.map((topic) => topic.replace("watercolor", "watercolour")),
+      "running trainers",
+      "allotment vegetables",
+      "walking holidays",
+    ],
+    templates: EN_TEMPLATES,
+    words: {
+      place: ["Manchester", "Bristol", "Leeds", "Edinburgh", "Cardiff", "York"],
+      time: ["this weekend", "for autumn", "on a budget"],
+    },
+  },
+  "de-DE": {
+    topics: [
+      "Bananenbrot",
+      "Sauerteig",
+      "Zimmerpflanzen",
+      "Elektroauto",
+      "Solaranlage",
+      "Wanderwege",
+      "Campingausrüstung",
+      "Brettspiele",
+      "Kräutergarten",
+      "Schach Eröffnungen",
+      "Aquarellmalerei",
+      "Yoga Übungen",
+      "Kaffee zubereiten",
+      "Vogelbeobachtung",
+      "Gemüsesuppe",
+      "Gitarrengriffe",
+      "Fahrrad reparieren",
+      "Pizzateig",
+      "Winterjacke",
+      "Kajak fahren",
+    ],
+    templates: [
+      "{topic}",
+      "{topic} Tipps",
+      "{topic} für Anfänger",
+      "beste {topic}",
+      "{topic} Test",
+      "{topic} günstig",
+      "{topic} in der Nähe",
+      "{topic} in {place}",
+      "{topic} {time}",
+      "Geschichte {topic}",
+    ],
+    words: {
+      place: ["Berlin", "Hamburg", "München", "Köln", "Leipzig", "Freiburg"],
+      time: ["am Wochenende", "im Herbst"],
+    },
+  },
+  "fr-FR": {
+    topics: [
+      "pain à la banane",
+      "levain",
+      "plantes d'intérieur",
+      "voiture électrique",
+      "panneaux solaires",
+      "randonnée",
+      "matériel de camping",
+      "jeux de société",
+      "jardin d'herbes aromatiques",
+      "ouvertures aux échecs",
+      "aquarelle",
+      "postures de yoga",
+      "café filtre",
+      "observation des oiseaux",
+      "soupe de légumes",
+      "accords de guitare",
+      "entretien vélo",
+      "pâte à pizza",
+      "veste d'hiver",
+      "kayak",
+    ],
+    templates: [
+      "{topic}",
+      "{topic} conseils",
+      "{topic} pour débutants",
+      "meilleur {topic}",
+      "{topic} avis",
+      "{topic} pas cher",
+      "{topic} près de chez moi",
+      "{topic} à {place}",
+      "{topic} {time}",
+      "histoire {topic}",
+    ],
+    words: {
+      place: ["Paris", "Lyon", "Marseille", "Bordeaux", "Lille", "Nantes"],
+      time: ["ce week-end", "en automne"],
+    },
+  },
+  "es-ES": {
+    topics: [
+      "pan de plátano",
+      "masa madre",
+      "plantas de interior",
+      "coche eléctrico",
+      "placas solares",
+      "rutas de senderismo",
+      "material de camping",
+      "juegos de mesa",
+      "huerto de hierbas",
+      "aperturas de ajedrez",
+      "acuarela",
+      "posturas de yoga",
+      "café de especialidad",
+      "observación de aves",
+      "sopa de verduras",
+      "acordes de guitarra",
+      "mantenimiento de bicicleta",
+      "masa de pizza",
+      "chaqueta de invierno",
+      "kayak",
+    ],
+    templates: [
+      "{topic}",
+      "{topic} consejos",
+      "{topic} para principiantes",
+      "mejor {topic}",
+      "{topic} opiniones",
+      "{topic} barato",
+      "{topic} cerca de mí",
+      "{topic} en {place}",
+      "{topic} {time}",
+      "historia de {topic}",
+    ],
+    words: {
+      place: ["Madrid", "Barcelona", "Valencia", "Sevilla", "Bilbao", "Málaga"],
+      time: ["este fin de semana", "en otoño"],
+    },
+  },
+};
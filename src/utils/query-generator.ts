@@ -0,0 +1,91 @@
+import type { QueryGeneratorName, QueryLocale } from "../types";
+import { Random } from "./random";
+import { SEARCH_INTENTS } from "./search-intents";
+import { QUERY_CORPUS } from "./query-corpus";
+import { normalizeQuery, type QueryHistory } from "./query-history";
+
+/**
+ * Produces the queries SearchHandler types into Bing. Generators run locally;
+ * none may call a network service.
+ */
+export interface QueryGenerator {
+  readonly name: string;
+  /** Up to `count` distinct queries, in the order they should be searched. */
+  generate(count: number): Promise<string[]>;
+  /** Called after a query was searched, so it is not handed out again soon. */
+  markUsed?(query: string): void;
+}
+
+export interface QueryGeneratorOptions {
+  /** Which corpus to build queries from (default "en-US"). */
+  locale?: QueryLocale;
+  /** Queries in here are skipped, and searched queries are added to it. */
+  history?: QueryHistory;
+}
+
+/**
+ * Every topic and template pair from the locale's bundled corpus, with the
+ * other template slots filled from its word lists, plus (for English) the
+ * canned search-intent terms. Queries searched within the history's window
+ * are left out. The order is shuffled by the run's Random, so `--seed`
+ * reproduces the queries.
+ */
+export class LocalQueryGenerator implements QueryGenerator {
+  readonly name = "local";
+  private locale: QueryLocale;
+  private history?: QueryHistory;
+
+  constructor(
+    private random: Random = new Random(),
+    options: QueryGeneratorOptions = {},
+  ) {
+    this.locale = options.locale ?? "en-US";
+    this.history = options.history;
+  }
+
+  async generate(count: number): Promise<string[]> {
+    const corpus = QUERY_CORPUS[this.locale];
+    const recent = this.history?.recent() ?? new Set<string>();
+    // Keyed by normalized text, so "Kayaking" and "kayaking" count once
+    const candidates = new Map<string, string>();
+    const add = (query: string) => {
+      const key = normalizeQuery(query);
+      if (!recent.has(key) && !candidates.has(key)) candidates.set(key, query);
+    };
+
+    if (this.locale.startsWith("en")) {
+      for (const intent of SEARCH_INTENTS) add(intent.searchTerm);
+    }
+    for (const topic of corpus.topics) {
+      for (const template of corpus.templates) {
+        add(
+          template.replace(/\{(\w+)\}/g, (slot, name: string) =>
+            name === "topic"
+              ? topic
+              : (this.random.pick(corpus.words[name] ?? []) ?? slot),
+          ),
+        );
+      }
+    }
+    return this.random.shuffle([...candidates.values()]).slice(0, count);
+  }
+
+  markUsed(query: string): void {
+    this.history?.record(query);
+  }
+}
+
+export const QUERY_GENERATORS: Record<
+  QueryGeneratorName,
+  (random: Random, options: QueryGeneratorOptions) => QueryGenerator
+> = {
+  local: (random, options) => new LocalQueryGenerator(random, options),
+};
+
+export function createQueryGenerator(
+  name: QueryGeneratorName,
+  random: Random,
+  options: QueryGeneratorOptions = {},
+): QueryGenerator {
+  return QUERY_GENERATORS[name](random, options);
+}
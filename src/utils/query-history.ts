@@ -0,0 +1,92 @@
+import { Storage } from "./storage";
+
+export interface QueryHistoryData {
+  /** Per profile: normalized query -> when it was last searched (ISO). */
+  profiles: Record<string, Record<string, string>>;
+}
+
+export interface QueryHistoryOptions {
+  /** Persist to this file; without it the history only lives for this process. */
+  filePath?: string;
+  /** Queries are tracked separately per profile. */
+  profileKey?: string;
+  /** How long a searched query stays off the list; 0 keeps no history. */
+  days?: number;
+  now?: () => Date;
+}
+
+export const QUERY_HISTORY_PATH = "./.rewards-queries.json";
+
+const DAY_MS = 86_400_000;
+
+/** Case and spacing do not make a query new. */
+export function normalizeQuery(query: string): string {
+  return query.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+/**
+ * Per-profile record of the queries already searched, so generators do not
+ * hand out the same query again within `days`. Entries older than that are
+ * dropped on the next write.
+ */
+export class QueryHistory {
+  private storage: Storage<QueryHistoryData> | null;
+  private memory: QueryHistoryData = { profiles: {} };
+  private profileKey: string;
+  private now: () => Date;
+  readonly days: number;
+
+  constructor(options: QueryHistoryOptions = {}) {
+    this.profileKey = options.profileKey ?? "default";
+    this.now = options.now ?? (() => new Date());
+    this.days = options.days ?? 14;
+    this.storage = options.filePath
+      ? new Storage<QueryHistoryData>(options.filePath, { profiles: {} })
+      : null;
+  }
+
+  private read(): QueryHistoryData {
+    return this.storage ? this.storage.reload() : this.memory;
+  }
+
+  private cutoff(): number {
+    return this.now().getTime() - this.days * DAY_MS;
+  }
+
+  /** Normalized queries searched within the last `days`. */
+  recent(): Set<string> {
+    const cutoff = this.cutoff();
+    const used = this.read().profiles[this.profileKey] ?? {};
+    return new Set(
+      Object.keys(used).filter((query) => Date.parse(used[query]!) > cutoff),
+    );
+  }
+
+  isRecent(query: string): boolean {
+    return this.recent().has(normalizeQuery(query));
+  }
+
+  /**
+   * Marks the queries as searched now. Does nothing when `days` is 0.
+   */
+  record(...queries: string[]): void {
+    if (this.days <= 0 || queries.length === 0) return;
+    const at = this.now().toISOString();
+    const cutoff = this.cutoff();
+
+    const update = (data: QueryHistoryData): QueryHistoryData => {
+      const kept = Object.entries(data.profiles[this.profileKey] ?? {}).filter(
+        ([, usedAt]) => Date.parse(usedAt) > cutoff,
+      );
+      const used: Record<string, string> = Object.fromEntries(kept);
+      for (const query of queries) used[normalizeQuery(query)] = at;
+      return { profiles: { ...data.profiles, [this.profileKey]: used } };
+    };
+    if (this.storage) {
+      this.storage.reload();
+      this.storage.update(update);
+    } else {
+      this.memory = update(this.memory);
+    }
+  }
+}
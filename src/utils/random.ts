@@ -0,0 +1,69 @@
+import { randomInt } from "crypto";
+
+/**
+ * Returns a fresh 32-bit seed for runs that did not ask for one.
+ */
+export function createSeed(): number {
+  return randomInt(0, 0xffffffff);
+}
+
+/**
+ * Seedable PRNG (mulberry32). Every random decision in a run goes through one
+ * instance, so a run can be replayed exactly with `--seed`.
+ */
+export class Random {
+  readonly seed: number;
+  private state: number;
+
+  constructor(seed: number = createSeed()) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  /** Float in [0, 1), a drop-in for Math.random(). */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /** Integer in [min, max], both inclusive. */
+  int(min: number, max: number): number {
+    return Math.floor(this.next() * (max - min + 1)) + min;
+  }
+
+  /** Float in [min, max). */
+  between(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  pick<T>(items: readonly T[]): T | undefined {
+    return items.length > 0 ? items[this.int(0, items.length - 1)] : undefined;
+  }
+
+  /**
+   * A separate stream seeded from this one's seed and `label`. It does not
+   * depend on how many values this stream has drawn, so `new Random(seed)
+   * .derive(label)` reproduces it outside a run.
+   */
+  derive(label: string): Random {
+    // FNV-1a over the label, starting from the seed
+    let hash = (0x811c9dc5 ^ this.seed) >>> 0;
+    for (let i = 0; i < label.length; i++) {
+      hash = Math.imul(hash ^ label.charCodeAt(i), 0x01000193) >>> 0;
+    }
+    return new Random(hash);
+  }
+
+  /** Returns a shuffled copy (Fisher-Yates). */
+  shuffle<T>(items: readonly T[]): T[] {
+    const copy = [...items];
+    for (let i = copy.length - 1; i > 0; i--) {
+      const j = this.int(0, i);
+      [copy[i], copy[j]] = [copy[j]!, copy[i]!];
+    }
+    return copy;
+  }
+}
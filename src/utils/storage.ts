@@ -1,5 +1,18 @@
 import { existsSync, readFileSync, writeFileSync, mkdirSync, renameSync } from 'fs';
-import { dirname } from 'path';
+import { dirname, extname } from 'path';
+import type { DashboardOffer } from '../types';
+
+/**
+ * Inserts a per-profile namespace before the file extension, e.g.
+ * ('./.rewards-metrics.json', 'Profile 1') -> './.rewards-metrics.profile-1.json'.
+ * Returns the path unchanged when no namespace is given.
+ */
+export function namespacedPath(filePath: string, namespace?: string): string {
+  if (!namespace) return filePath;
+  const slug = namespace.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'profile';
+  const ext = extname(filePath);
+  return `${filePath.slice(0, filePath.length - ext.length)}.${slug}${ext}`;
+}
 /**
  * Simple JSON-backed storage for QA cache and logs.
  * Uses atomic writes to prevent data corruption.
@@ -29,6 +42,15 @@ export class Storage<T> {
     return this.data;
   }
 
+  /**
+   * Re-reads the file so writes from other processes become visible.
+   * Keeps the in-memory data if the file is missing or unreadable.
+   */
+  reload(): T {
+    this.data = this.load(this.data);
+    return this.data;
+  }
+
   set(data: T): void {
     this.data = data;
     this.save();
@@ -65,6 +87,8 @@ export class Storage<T> {
 export interface MetricsData {
   runs: RunMetric[];
   dailyPoints: DailyPoints[];
+  /** What the dashboard offered each day; absent in files from older versions. */
+  offers?: DailyOffers[];
 }
 
 export interface RunMetric {
@@ -73,13 +97,22 @@ export interface RunMetric {
   status: 'ok' | 'failed' | 'skipped';
   durationMs: number;
   attempts: number;
+  /** Points credited during the run, when the balance was readable. */
+  points?: number;
   meta?: Record<string, unknown>;
 }
 
 export interface DailyPoints {
   date: string;
   points: number;
-  source: 'click';
+  /** Handler id that earned the points, e.g. "click". */
+  source: string;
+}
+
+export interface DailyOffers {
+  date: string;
+  /** Every card seen that day, as of its first sighting. */
+  activities: DashboardOffer[];
 }
 
 export class MetricsStore {
@@ -92,7 +125,14 @@ export class MetricsStore {
   /**
    * Records a handler run result.
    */
-  recordRun(handler: string, status: 'ok' | 'failed' | 'skipped', durationMs: number, attempts: number, meta?: Record<string, unknown>): void {
+  recordRun(
+    handler: string,
+    status: 'ok' | 'failed' | 'skipped',
+    durationMs: number,
+    attempts: number,
+    meta?: Record<string, unknown>,
+    points?: number,
+  ): void {
     this.storage.update(data => ({
       ...data,
       runs: [
@@ -103,6 +143,7 @@ export class MetricsStore {
           status,
           durationMs,
           attempts,
+          ...(points !== undefined ? { points } : {}),
           meta,
         },
       ],
@@ -112,7 +153,7 @@ export class MetricsStore {
   /**
    * Records daily points earned.
    */
-  recordPoints(points: number, source: 'click'): void {
+  recordPoints(points: number, source: string): void {
     const today = new Date().toISOString().split('T')[0]!;
 
     this.storage.update(data => {
@@ -139,6 +180,36 @@ export class MetricsStore {
     });
   }
 
+  /**
+   * Records the dashboard's classified cards under today's date. Cards already
+   * seen today (same section and title) keep their first record.
+   */
+  recordOffers(offers: DashboardOffer[]): void {
+    const today = new Date().toISOString().split('T')[0]!;
+    const key = (o: DashboardOffer) => `${o.section}\n${o.title}`;
+
+    this.storage.update(data => {
+      const days = data.offers ?? [];
+      const existing = days.find(d => d.date === today);
+      const seen = new Set(existing?.activities.map(key));
+      const day: DailyOffers = {
+        date: today,
+        activities: [...(existing?.activities ?? []), ...offers.filter(o => !seen.has(key(o)))],
+      };
+      return {
+        ...data,
+        offers: [...days.filter(d => d.date !== today).slice(-59), day], // Keep 60 days
+      };
+    });
+  }
+
+  /**
+   * Gets the recorded offers, oldest day first.
+   */
+  getOffers(): DailyOffers[] {
+    return this.storage.get().offers ?? [];
+  }
+
   /**
    * Gets success rate for a handler.
    */
@@ -172,6 +243,28 @@ export class MetricsStore {
       .reduce((sum, d) => sum + d.points, 0);
   }
 
+  /**
+   * Gets today's points per source.
+   */
+  getTodayPointsBySource(): Record<string, number> {
+    const today = new Date().toISOString().split('T')[0];
+    const bySource: Record<string, number> = {};
+    for (const d of this.storage.get().dailyPoints) {
+      if (d.date === today) bySource[d.source] = (bySource[d.source] ?? 0) + d.points;
+    }
+    return bySource;
+  }
+
+  /**
+   * Whether any handler finished with status "ok" between two timestamps (ms).
+   */
+  hasSuccessfulRunBetween(fromMs: number, toMs: number): boolean {
+    return this.storage.reload().runs.some(r => {
+      const at = Date.parse(r.timestamp);
+      return r.status === 'ok' && at >= fromMs && at < toMs;
+    });
+  }
+
   /**
    * Gets summary statistics.
    */
@@ -180,13 +273,13 @@ export class MetricsStore {
     successRate: number;
     avgDuration: number;
     todayPoints: number;
-    handlerStats: Record<string, { runs: number; successRate: number; avgDuration: number }>;
+    handlerStats: Record<string, { runs: number; successRate: number; avgDuration: number; points: number }>;
   } {
     const data = this.storage.get();
     const runs = data.runs;
 
     const handlers = [...new Set(runs.map(r => r.handler))];
-    const handlerStats: Record<string, { runs: number; successRate: number; avgDuration: number }> = {};
+    const handlerStats: Record<string, { runs: number; successRate: number; avgDuration: number; points: number }> = {};
 
     for (const handler of handlers) {
       const handlerRuns = runs.filter(r => r.handler === handler);
@@ -197,6 +290,7 @@ export class MetricsStore {
         runs: handlerRuns.length,
         successRate: handlerRuns.length > 0 ? successful / handlerRuns.length : 0,
         avgDuration: handlerRuns.length > 0 ? totalDuration / handlerRuns.length : 0,
+        points: handlerRuns.reduce((sum, r) => sum + (r.points ?? 0), 0),
       };
     }
 
@@ -61,6 +61,8 @@ describe('Integration: Dry-Run Mode', () => {
       waitForLoadState: vi.fn().mockResolvedValue(undefined),
       goBack: vi.fn().mockResolvedValue(undefined),
       goto: vi.fn().mockResolvedValue(undefined),
+      on: vi.fn(),
+      off: vi.fn(),
     };
 
     mockBrowser = {
@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { existsSync } from 'fs';
+import { chromium } from 'playwright';
+import { BrowserAdapter } from '../../src/core/browser-adapter';
+import { ClickHandler } from '../../src/handlers/click-handler';
+import { Random } from '../../src/utils/random';
+
+// Keep the real Humanizer class but skip the waits
+vi.mock('../../src/utils/humanizer', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../src/utils/humanizer')>()),
+  randomDelay: vi.fn().mockResolvedValue(undefined),
+}));
+
+const FIXTURE = 'tests/fixtures/replay';
+
+// Playwright's bundled Chromium, or any Chromium passed the way runs take one
+const executablePath = process.env.REWARDS_EXECUTABLE_PATH;
+const hasBrowser = executablePath ? existsSync(executablePath) : existsSync(chromium.executablePath());
+
+/**
+ * Integration tests against a committed snapshot (tests/fixtures/replay).
+ * They launch a real headless browser whose every request is answered from
+ * the snapshot, so handlers see real dashboard markup without a live account.
+ *
+ * Note: skipped when no Chromium is installed (`npx playwright install chromium`).
+ */
+describe.skipIf(!hasBrowser)('Integration: Snapshot Replay', () => {
+  let browser: BrowserAdapter;
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    browser = new BrowserAdapter(new Random(1), { replayDir: FIXTURE });
+    await browser.init('./ignored-user-data', true, undefined, { executablePath });
+  }, 60_000);
+
+  afterAll(async () => {
+    await browser?.close();
+  });
+
+  it('should serve the captured dashboard and 404 everything else', async () => {
+    const page = browser.getPage();
+
+    const dashboard = await page.goto('https://rewards.bing.com/');
+    expect(dashboard?.status()).toBe(200);
+    expect(await page.locator('mee-card').count()).toBe(4);
+
+    const missing = await page.goto('https://rewards.bing.com/api/getuserinfo?type=1');
+    expect(missing?.status()).toBe(404);
+  });
+
+  it('should discover the open, unlocked activities from the DOM', async () => {
+    const handler = new ClickHandler(browser, { dryRun: true });
+
+    const result = await handler.run(browser.getPage());
+
+    // The dashboard data request is not in the snapshot, so discovery falls back to the DOM
+    expect(result.meta!.discovery).toBe('dom');
+    expect(result.status).toBe('ok');
+    expect(result.activities).toEqual([
+      { title: 'Chasing the northern lights', kind: 'url-reward', status: 'clicked', attempts: 1 },
+      { title: 'Visit the oldest lighthouses', kind: 'url-reward', status: 'clicked', attempts: 1 },
+    ]);
+  });
+
+  it('should keep balance reads inside the snapshot during a live replay run', async () => {
+    const page = browser.getPage();
+    const apiGet = vi.spyOn(page.request, 'get');
+    const requested: string[] = [];
+    const onRequest = (request: { url(): string }) => requested.push(request.url());
+    page.context().on('request', onRequest);
+
+    const handler = new ClickHandler(browser, { maxClicks: 1, verifyRetries: 0, retryBackoffMs: 0 });
+    await handler.run(page);
+
+    page.context().off('request', onRequest);
+    // page.request bypasses the replay routes, so it must never be used
+    expect(apiGet).not.toHaveBeenCalled();
+    expect(requested.length).toBeGreaterThan(0);
+  }, 60_000);
+});
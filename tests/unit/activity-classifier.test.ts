@@ -0,0 +1,87 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  classifyActivity,
+  formatOffer,
+  readCardSignals,
+  summarizeOffers,
+  type CardSignals,
+} from '../../src/handlers/activity-classifier';
+import { builtInSelectors } from '../../src/core/selectors';
+import type { DashboardOffer } from '../../src/types';
+
+const signals = (overrides: Partial<CardSignals>): CardSignals => ({
+  section: 'daily-set',
+  title: 'Card',
+  points: 10,
+  ...overrides,
+});
+
+describe('classifyActivity', () => {
+  it('should treat a plain card that links to Bing as a url-reward', () => {
+    expect(classifyActivity(signals({ title: 'Tour the Alps', url: 'https://www.bing.com/search?q=alps' }))).toBe(
+      'url-reward',
+    );
+  });
+
+  it('should recognize quiz-like cards from text, link ids and icons', () => {
+    expect(classifyActivity(signals({ title: 'Supersonic quiz' }))).toBe('quiz');
+    expect(classifyActivity(signals({ title: 'Pick one', attributes: 'Global_DailySet_Poll_Child2' }))).toBe('poll');
+    expect(classifyActivity(signals({ title: 'Guess', icons: ' /icons/ThisOrThat.png ' }))).toBe('this-or-that');
+  });
+
+  it('should recognize searches from the explore section or their wording', () => {
+    expect(classifyActivity(signals({ section: 'explore', title: 'Hiking trails' }))).toBe('search');
+    expect(classifyActivity(signals({ title: 'Search on Bing for hiking trails' }))).toBe('search');
+  });
+
+  it('should recognize punch cards by section, wording or link', () => {
+    expect(classifyActivity(signals({ section: 'punch-cards', title: 'Weekly streak' }))).toBe('punch-card');
+    expect(classifyActivity(signals({ title: 'New punch card!' }))).toBe('punch-card');
+    expect(classifyActivity(signals({ title: 'Streak', url: 'https://rewards.bing.com/punchcard/abc' }))).toBe(
+      'punch-card',
+    );
+  });
+
+  it('should mark shopping wording and off-site links as promotional', () => {
+    expect(classifyActivity(signals({ title: 'Enter the sweepstakes' }))).toBe('promotional');
+    expect(classifyActivity(signals({ title: 'Try this', url: 'https://example.com/offer' }))).toBe('promotional');
+  });
+});
+
+describe('readCardSignals', () => {
+  it('should classify from the text when the card cannot be evaluated', async () => {
+    const card: any = {
+      locator: vi.fn().mockImplementation((selector: string) => ({
+        count: vi.fn().mockResolvedValue(selector === 'h3' || selector.includes('Points') ? 1 : 0),
+        first: () => ({ textContent: vi.fn().mockResolvedValue(selector === 'h3' ? ' Daily poll ' : '15') }),
+      })),
+      evaluate: vi.fn().mockRejectedValue(new Error('detached')),
+    };
+
+    const result = await readCardSignals(card, 'more-activities', builtInSelectors(), 'Activity #0');
+
+    expect(result).toEqual({ section: 'more-activities', title: 'Daily poll', description: undefined, points: 15 });
+    expect(classifyActivity(result)).toBe('poll');
+  });
+});
+
+describe('summarizeOffers', () => {
+  const offers: DashboardOffer[] = [
+    { section: 'daily-set', title: 'Lightspeed quiz', kind: 'quiz', points: 10, completed: true, locked: false },
+    { section: 'daily-set', title: 'Tour the Alps', kind: 'url-reward', points: 10, completed: false, locked: false },
+    { section: 'more-activities', title: 'Alps again', kind: 'url-reward', completed: false, locked: true },
+  ];
+
+  it('should count offers per kind', () => {
+    expect(summarizeOffers(offers)).toBe('3 activities: 1 quiz, 2 url-reward (1 done, 1 locked)');
+    expect(summarizeOffers([])).toBe('0 activities: none (0 done, 0 locked)');
+  });
+
+  it('should format one offer per line', () => {
+    expect(offers.map(formatOffer)).toEqual([
+      '[daily-set] quiz, 10 pts: Lightspeed quiz (done)',
+      '[daily-set] url-reward, 10 pts: Tour the Alps',
+      '[more-activities] url-reward: Alps again (locked)',
+    ]);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { ActivityLedger, activityKey } from '../../src/core/activity-ledger';
+
+describe('activityKey', () => {
+  it('should prefer the offer id and otherwise combine link and title', () => {
+    expect(activityKey({ offerId: 'Global_DailySet_Child1', url: 'https://www.bing.com/x', title: 'Quiz' })).toBe(
+      'offer:Global_DailySet_Child1',
+    );
+    // Secret parameters and parameter order do not change the identity
+    expect(activityKey({ url: 'https://www.bing.com/search?q=alps&form=ML&sig=abc', title: ' Tour the Alps ' })).toBe(
+      activityKey({ url: 'https://www.bing.com/search?form=ML&q=alps', title: 'Tour the Alps' }),
+    );
+    expect(activityKey({ title: 'No link' })).toBe('link:|No link');
+  });
+});
+
+describe('ActivityLedger', () => {
+  let dir: string;
+  let filePath: string;
+  const card = { key: 'offer:abc', title: 'Tour the Alps', kind: 'url-reward' as const };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'rewards-ledger-'));
+    filePath = join(dir, 'activities.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should record attempts, outcomes and timestamps per day', () => {
+    const ledger = new ActivityLedger({ filePath, now: () => new Date('2026-03-01T10:00:00Z') });
+    ledger.record(card, { handler: 'click', status: 'not-credited', attempts: 3 });
+    const entry = ledger.record(card, { handler: 'click', status: 'clicked', attempts: 1, points: 10 });
+
+    expect(entry).toMatchObject({ firstSeen: '2026-03-01T10:00:00.000Z', lastAttempt: '2026-03-01T10:00:00.000Z' });
+    expect(entry.days).toEqual([
+      {
+        date: '2026-03-01',
+        attempts: 4,
+        failures: 1,
+        outcomes: [
+          { at: '2026-03-01T10:00:00.000Z', handler: 'click', status: 'not-credited', attempts: 3 },
+          { at: '2026-03-01T10:00:00.000Z', handler: 'click', status: 'clicked', attempts: 1, points: 10 },
+        ],
+      },
+    ]);
+  });
+
+  it('should quarantine a card after N failures today and release it tomorrow', () => {
+    let now = new Date('2026-03-01T10:00:00Z');
+    const ledger = new ActivityLedger({ filePath, now: () => now });
+    ledger.record(card, { handler: 'click', status: 'failed', attempts: 1 });
+    expect(ledger.isQuarantined(card.key, 2)).toBe(false);
+    ledger.record(card, { handler: 'quiz', status: 'not-credited', attempts: 1 });
+    expect(ledger.isQuarantined(card.key, 2)).toBe(true);
+
+    now = new Date('2026-03-02T08:00:00Z');
+    expect(ledger.failuresToday(card.key)).toBe(0);
+    expect(ledger.isQuarantined(card.key, 2)).toBe(false);
+  });
+
+  it('should share the ledger across processes and keep profiles apart', () => {
+    new ActivityLedger({ filePath, profileKey: 'Profile 1' }).record(card, {
+      handler: 'click',
+      status: 'failed',
+      attempts: 1,
+    });
+
+    expect(new ActivityLedger({ filePath, profileKey: 'Profile 1' }).failuresToday(card.key)).toBe(1);
+    expect(new ActivityLedger({ filePath, profileKey: 'Profile 2' }).list()).toEqual([]);
+  });
+
+  it('should list the most recently attempted cards first', () => {
+    let now = new Date('2026-03-01T10:00:00Z');
+    const ledger = new ActivityLedger({ now: () => now });
+    ledger.record(card, { handler: 'click', status: 'clicked', attempts: 1 });
+    now = new Date('2026-03-01T11:00:00Z');
+    ledger.record({ ...card, key: 'offer:def', title: 'Later' }, { handler: 'click', status: 'clicked', attempts: 1 });
+
+    expect(ledger.list().map(e => e.title)).toEqual(['Later', 'Tour the Alps']);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { runBatch, formatBatchSummary, resolveBatchProfileNames } from '../../src/core/batch';
+import { getDefaultConfig } from '../../src/core/config';
+import type { HandlerRunRecord } from '../../src/core/controller';
+import { NotLoggedInError } from '../../src/core/session';
+import * as edgeProfiles from '../../src/utils/edge-profiles';
+
+vi.mock('../../src/utils/edge-profiles', () => ({
+  scanEdgeProfiles: vi.fn(),
+}));
+
+const record = (status: 'ok' | 'failed' | 'skipped', attempts = 1): HandlerRunRecord => ({
+  id: 'click',
+  handler: 'ClickHandler',
+  result: { type: 'click', status, attempts, durationMs: 10 },
+});
+
+describe('resolveBatchProfileNames', () => {
+  it('should return --profiles as given', () => {
+    const config = { ...getDefaultConfig(), profileNames: ['Work', 'Home'] };
+    expect(resolveBatchProfileNames(config)).toEqual(['Work', 'Home']);
+  });
+
+  it('should expand --all-profiles from the Edge Local State', () => {
+    vi.mocked(edgeProfiles.scanEdgeProfiles).mockReturnValue([
+      { folderName: 'Default', displayName: 'Personal', email: '', gaiaName: '' },
+      { folderName: 'Profile 1', displayName: 'Work', email: '', gaiaName: '' },
+    ]);
+    const config = { ...getDefaultConfig(), allProfiles: true };
+
+    expect(resolveBatchProfileNames(config)).toEqual(['Default', 'Profile 1']);
+  });
+
+  it('should return [] outside batch mode', () => {
+    expect(resolveBatchProfileNames(getDefaultConfig())).toEqual([]);
+  });
+});
+
+describe('runBatch', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('should run profiles sequentially with randomized gaps between them', async () => {
+    const order: string[] = [];
+    const sleep = vi.fn().mockResolvedValue(undefined);
+
+    const summaries = await runBatch(
+      ['a', 'b', 'c'],
+      async profile => {
+        order.push(profile);
+        return [record('ok')];
+      },
+      { minGapMs: 1000, maxGapMs: 3000, random: () => 0.5, sleep },
+    );
+
+    expect(order).toEqual(['a', 'b', 'c']);
+    expect(sleep).toHaveBeenCalledTimes(2);
+    expect(sleep).toHaveBeenCalledWith(2000);
+    expect(summaries.map(s => s.status)).toEqual(['ok', 'ok', 'ok']);
+  });
+
+  it('should record a failing profile and continue', async () => {
+    const summaries = await runBatch(
+      ['broken', 'fine'],
+      async profile => {
+        if (profile === 'broken') throw new Error('No Edge profile found matching "broken".');
+        return [record('skipped')];
+      },
+      { minGapMs: 0, maxGapMs: 0, sleep: async () => {} },
+    );
+
+    expect(summaries[0]).toMatchObject({ profile: 'broken', status: 'error' });
+    expect(summaries[0]!.error).toContain('No Edge profile found');
+    expect(summaries[1]).toMatchObject({ profile: 'fine', status: 'skipped' });
+  });
+
+  it('should record a signed-out profile as not-logged-in', async () => {
+    const summaries = await runBatch(
+      ['signed-out'],
+      async () => {
+        throw new NotLoggedInError();
+      },
+      { minGapMs: 0, maxGapMs: 0 },
+    );
+
+    expect(summaries[0]).toMatchObject({ profile: 'signed-out', status: 'not-logged-in', records: [] });
+  });
+
+  it('should report failed when any handler failed', async () => {
+    const summaries = await runBatch(['a'], async () => [record('ok'), record('failed')], {
+      minGapMs: 0,
+      maxGapMs: 0,
+    });
+
+    expect(summaries[0]!.status).toBe('failed');
+  });
+});
+
+describe('formatBatchSummary', () => {
+  it('should render one row per profile', () => {
+    const output = formatBatchSummary([
+      { profile: 'Work', status: 'ok', records: [record('ok', 3)], durationMs: 1500 },
+      { profile: 'Home', status: 'error', records: [], durationMs: 100, error: 'boom' },
+    ]);
+
+    expect(output).toContain('Batch Summary');
+    expect(output).toMatch(/Work\s+ok\s+ClickHandler=ok\s+3\s+1\.5s/);
+    expect(output).toMatch(/Home\s+error: boom\s+-\s+0\s+0\.1s/);
+  });
+});
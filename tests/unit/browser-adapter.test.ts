@@ -0,0 +1,206 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { chromium } from 'playwright';
+import { BrowserAdapter } from '../../src/core/browser-adapter';
+import { captureSnapshot } from '../../src/core/snapshot';
+import { builtInSelectors } from '../../src/core/selectors';
+import { RateLimiter } from '../../src/core/rate-limiter';
+import { Random } from '../../src/utils/random';
+
+// saveSnapshot's output for the raw pages in tests/fixtures/replay-capture
+const FIXTURE = 'tests/fixtures/replay';
+const CAPTURE = 'tests/fixtures/replay-capture';
+
+// Only launch() is faked, so replay setup can be checked without a browser
+vi.mock('playwright', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('playwright')>();
+  return { ...actual, chromium: { ...actual.chromium, launch: vi.fn() } };
+});
+
+// Keep the real Humanizer class but skip the waits
+vi.mock('../../src/utils/humanizer', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../src/utils/humanizer')>()),
+  randomDelay: vi.fn().mockResolvedValue(undefined),
+}));
+
+describe('BrowserAdapter.engageWithResults', () => {
+  const engagement = {
+    enabled: true,
+    minScrolls: 2,
+    maxScrolls: 3,
+    openResultChance: 1,
+    minDwellSeconds: 0,
+    maxDwellSeconds: 0,
+  };
+  let adapter: BrowserAdapter;
+  let page: any;
+  let link: any;
+  let tabs: any;
+
+  beforeEach(() => {
+    adapter = new BrowserAdapter(new Random(1));
+    adapter.humanizer.scrollWheelHuman = vi.fn().mockResolvedValue(undefined);
+    adapter.humanizer.clickLocatorHuman = vi.fn().mockResolvedValue(undefined);
+    link = { scrollIntoViewIfNeeded: vi.fn().mockResolvedValue(undefined) };
+    page = {
+      waitForSelector: vi.fn().mockResolvedValue(undefined),
+      locator: vi.fn().mockReturnValue({ count: vi.fn().mockResolvedValue(8), nth: vi.fn().mockReturnValue(link) }),
+      goBack: vi.fn().mockResolvedValue(undefined),
+    };
+    tabs = {
+      target: { url: () => 'https://example.com/article' },
+      navigated: false,
+      close: vi.fn().mockResolvedValue(undefined),
+    };
+    adapter.tabs.track = vi.fn().mockImplementation(async (_source, action) => {
+      await action();
+      return tabs;
+    });
+  });
+
+  it('should scroll, open one organic result, read it and close its tab', async () => {
+    const report = await adapter.engageWithResults(page, engagement, 'Test');
+
+    expect(report.scrolls).toBeGreaterThanOrEqual(2);
+    expect(report.scrolls).toBeLessThanOrEqual(3);
+    expect(report).toMatchObject({ openedResult: 'https://example.com/article', dwellMs: 0 });
+    expect(page.locator).toHaveBeenCalledWith('#b_results > li.b_algo h2 a');
+    expect(adapter.humanizer.clickLocatorHuman).toHaveBeenCalledWith(page, link);
+    expect(tabs.close).toHaveBeenCalled();
+    expect(page.goBack).not.toHaveBeenCalled();
+  });
+
+  it('should go back when the result opened in the results tab', async () => {
+    tabs.navigated = true;
+
+    await adapter.engageWithResults(page, engagement);
+
+    expect(page.goBack).toHaveBeenCalled();
+  });
+
+  it('should only scroll when no result is to be opened', async () => {
+    const report = await adapter.engageWithResults(page, { ...engagement, openResultChance: 0 });
+
+    expect(report.openedResult).toBeUndefined();
+    expect(adapter.tabs.track).not.toHaveBeenCalled();
+  });
+
+  it('should report a failed step instead of throwing', async () => {
+    adapter.humanizer.clickLocatorHuman = vi.fn().mockRejectedValue(new Error('Element not visible'));
+    adapter.tabs.track = vi.fn().mockImplementation(async (_source, action) => {
+      await action();
+      return tabs;
+    });
+
+    const report = await adapter.engageWithResults(page, engagement);
+
+    expect(report.error).toBe('Element not visible');
+  });
+});
+
+describe('BrowserAdapter replay mode', () => {
+  type RouteHandler = (route: any) => Promise<void>;
+  let routeHandler: RouteHandler | undefined;
+  let page: any;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    routeHandler = undefined;
+    page = {};
+    vi.mocked(chromium.launch).mockResolvedValue({
+      newContext: vi.fn().mockResolvedValue({
+        route: vi.fn().mockImplementation(async (_pattern: string, handler: RouteHandler) => {
+          routeHandler = handler;
+        }),
+        newPage: vi.fn().mockResolvedValue(page),
+      }),
+    } as any);
+  });
+
+  const request = async (url: string) => {
+    const fulfill = vi.fn().mockResolvedValue(undefined);
+    await routeHandler!({ request: () => ({ url: () => url }), fulfill });
+    return fulfill.mock.calls[0]![0] as { status: number; contentType: string; body: string };
+  };
+
+  it('should launch a profile-less browser and serve captured pages from the snapshot', async () => {
+    const adapter = new BrowserAdapter(new Random(1), { replayDir: FIXTURE });
+
+    await adapter.init('./ignored-user-data', true);
+
+    expect(chromium.launch).toHaveBeenCalledWith(expect.objectContaining({ headless: true }));
+    expect(adapter.getPage()).toBe(page);
+    expect(adapter.replaying).toBe(true);
+    const dashboard = await request('https://rewards.bing.com/');
+    expect(dashboard).toMatchObject({ status: 200, contentType: 'text/html; charset=utf-8' });
+    expect(dashboard.body).toContain('Chasing the northern lights');
+    // Parameter order does not matter
+    const activity = await request('https://www.bing.com/search?form=ML2PCR&q=northern+lights+forecast');
+    expect(activity.status).toBe(200);
+  });
+
+  it('should answer pages missing from the snapshot with a 404', async () => {
+    const adapter = new BrowserAdapter(new Random(1), { replayDir: FIXTURE });
+    await adapter.init('./ignored-user-data', true);
+
+    const missing = await request('https://rewards.bing.com/api/getuserinfo?type=1');
+
+    expect(missing.status).toBe(404);
+    expect(missing.body).toContain('Not in snapshot');
+  });
+
+  it('should capture raw pages and replay them stripped, matching the committed fixture', async () => {
+    const capture = JSON.parse(readFileSync(join(CAPTURE, 'capture.json'), 'utf-8'));
+    const [dashboard, activity] = capture.pages as { url: string; file: string }[];
+    const raw = (file: string) => readFileSync(join(CAPTURE, file), 'utf-8');
+    // A signed-in browser page as captureSnapshot sees it
+    const source: any = {
+      goto: vi.fn().mockResolvedValue(undefined),
+      waitForLoadState: vi.fn().mockResolvedValue(undefined),
+      content: vi.fn().mockResolvedValue(raw(dashboard!.file)),
+      locator: (selector: string) => ({
+        count: vi.fn().mockResolvedValue(selector === 'mee-card' ? 4 : 0),
+        first: () => ({ isVisible: vi.fn().mockResolvedValue(false) }),
+        locator: () => ({ evaluateAll: vi.fn().mockResolvedValue([activity!.url]) }),
+      }),
+      url: () => dashboard!.url,
+      context: () => ({
+        newPage: async () => ({
+          goto: vi.fn().mockResolvedValue(undefined),
+          waitForLoadState: vi.fn().mockResolvedValue(undefined),
+          content: vi.fn().mockResolvedValue(raw(activity!.file)),
+          close: vi.fn().mockResolvedValue(undefined),
+        }),
+      }),
+    };
+    const dir = mkdtempSync(join(tmpdir(), 'rewards-replay-'));
+
+    try {
+      const manifest = await captureSnapshot(source, dir, {
+        selectors: builtInSelectors(),
+        maxActivities: 1,
+        limiter: new RateLimiter({ maxActionsPerHour: 30 }),
+      });
+
+      const fixture = JSON.parse(readFileSync(join(FIXTURE, 'manifest.json'), 'utf-8'));
+      expect(manifest.pages).toEqual(fixture.pages);
+      for (const { file } of manifest.pages) {
+        expect(readFileSync(join(dir, file), 'utf-8')).toBe(readFileSync(join(FIXTURE, file), 'utf-8'));
+      }
+
+      const adapter = new BrowserAdapter(new Random(1), { replayDir: dir });
+      await adapter.init('./ignored-user-data', true);
+      // The live URL still carries its signature; the replay matches it anyway
+      const served = await request(activity!.url);
+      expect(served.status).toBe(200);
+      expect(served.body).toContain('Aurora forecast for the week');
+      expect(served.body).not.toMatch(/<script|value="|3F2A9C41D0B7/);
+      const home = await request(dashboard!.url);
+      expect(home.body).not.toMatch(/<script|value="|token=|alex\.sample/);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import {
+  resolveBrowserExecutable,
+  edgeCandidates,
+  BrowserNotFoundError,
+} from '../../src/utils/browser-executable';
+
+const linux = (installed: string[]) => ({
+  platform: 'linux' as const,
+  exists: (p: string) => installed.includes(p),
+});
+
+describe('edgeCandidates', () => {
+  it('should search stable, beta and dev packages on Linux', () => {
+    const candidates = edgeCandidates('msedge', 'linux');
+
+    expect(candidates).toEqual([
+      '/usr/bin/microsoft-edge-stable',
+      '/usr/local/bin/microsoft-edge-stable',
+      '/usr/bin/microsoft-edge',
+      '/usr/local/bin/microsoft-edge',
+      '/usr/bin/microsoft-edge-beta',
+      '/usr/local/bin/microsoft-edge-beta',
+      '/usr/bin/microsoft-edge-dev',
+      '/usr/local/bin/microsoft-edge-dev',
+      '/opt/microsoft/msedge/msedge',
+      '/opt/microsoft/msedge-beta/msedge',
+      '/opt/microsoft/msedge-dev/msedge',
+    ]);
+  });
+
+  it('should only look for beta builds on the msedge-beta channel', () => {
+    const candidates = edgeCandidates('msedge-beta', 'linux');
+
+    expect(candidates.every(c => c.includes('beta'))).toBe(true);
+  });
+
+  it('should use Program Files on Windows', () => {
+    const candidates = edgeCandidates('msedge', 'win32', {});
+
+    expect(candidates[0]).toBe('C:\\Program Files (x86)\\Microsoft\\Edge\\Application\\msedge.exe');
+  });
+});
+
+describe('resolveBrowserExecutable', () => {
+  it('should prefer the first installed Edge on Linux', () => {
+    const target = resolveBrowserExecutable(
+      { channel: 'msedge' },
+      linux(['/usr/bin/microsoft-edge-dev', '/usr/bin/microsoft-edge-stable']),
+    );
+
+    expect(target).toEqual({ executablePath: '/usr/bin/microsoft-edge-stable' });
+  });
+
+  it('should fall back to dev builds when stable is missing', () => {
+    const target = resolveBrowserExecutable({ channel: 'msedge' }, linux(['/opt/microsoft/msedge-dev/msedge']));
+
+    expect(target.executablePath).toBe('/opt/microsoft/msedge-dev/msedge');
+  });
+
+  it('should use bundled Chromium for the chromium channel', () => {
+    expect(resolveBrowserExecutable({ channel: 'chromium' }, linux([]))).toEqual({});
+  });
+
+  it('should honour an explicit executable path', () => {
+    const target = resolveBrowserExecutable(
+      { channel: 'msedge', executablePath: '/custom/edge' },
+      linux(['/custom/edge']),
+    );
+
+    expect(target).toEqual({ executablePath: '/custom/edge' });
+  });
+
+  it('should fail when the explicit executable path does not exist', () => {
+    expect(() =>
+      resolveBrowserExecutable({ channel: 'chromium', executablePath: '/missing/edge' }, linux([])),
+    ).toThrow(/Browser executable not found: \/missing\/edge/);
+  });
+
+  it('should list every searched path when no Edge is installed', () => {
+    let error: unknown;
+    try {
+      resolveBrowserExecutable({ channel: 'msedge-beta' }, linux([]));
+    } catch (err) {
+      error = err;
+    }
+
+    expect(error).toBeInstanceOf(BrowserNotFoundError);
+    expect((error as BrowserNotFoundError).searched).toContain('/usr/local/bin/microsoft-edge-beta');
+    expect((error as Error).message).toContain('  - /opt/microsoft/msedge-beta/msedge');
+    expect((error as Error).message).toMatch(/--channel chromium/);
+  });
+});
@@ -0,0 +1,186 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { runCli } from '../../src/cli';
+import { resolveCommand, type Command } from '../../src/cli/command';
+import { formatActivityLedger, formatMetricsCsv, ledgerSince } from '../../src/cli/commands/metrics';
+import { formatSelectorChecks } from '../../src/cli/commands/selectors';
+import type { SelectorPack } from '../../src/core/selectors';
+import { ExitCode } from '../../src/types';
+
+const fakeCommand = (path: string[], overrides: Partial<Command> = {}): Command => ({
+  path,
+  summary: `${path.join(' ')} summary`,
+  help: `${path.join(' ')} help`,
+  run: vi.fn().mockResolvedValue(ExitCode.Success),
+  ...overrides,
+});
+
+describe('resolveCommand', () => {
+  const run = fakeCommand(['run']);
+  const list = fakeCommand(['profiles', 'list']);
+  const commands = [run, list];
+
+  it('should default to run when argv starts with a flag', () => {
+    expect(resolveCommand(['--dry-run'], commands, run)).toEqual({ command: run, rest: ['--dry-run'] });
+    expect(resolveCommand([], commands, run).command).toBe(run);
+  });
+
+  it('should match two-word commands', () => {
+    expect(resolveCommand(['profiles', 'list', '-c', 'x.json'], commands, run)).toEqual({
+      command: list,
+      rest: ['-c', 'x.json'],
+    });
+  });
+
+  it('should report a bare group without a command', () => {
+    expect(resolveCommand(['profiles'], commands, run)).toEqual({ rest: [], group: 'profiles' });
+    expect(resolveCommand(['nope'], commands, run).group).toBeUndefined();
+  });
+});
+
+describe('runCli', () => {
+  let run: Command;
+  let list: Command;
+  let show: Command;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    run = fakeCommand(['run']);
+    list = fakeCommand(['profiles', 'list'], { configKeys: [] });
+    show = fakeCommand(['profiles', 'show'], { configKeys: [], maxArgs: 1 });
+  });
+
+  const cli = (argv: string[]) => runCli(argv, [run, list, show], {});
+
+  it('should run the default command with its parsed config', async () => {
+    const code = await cli(['--dry-run']);
+
+    expect(code).toBe(ExitCode.Success);
+    expect(vi.mocked(run.run).mock.calls[0]![0].loaded.config.dryRun).toBe(true);
+  });
+
+  it('should reject unknown flags instead of ignoring them', async () => {
+    const code = await cli(['run', '--dry-runn']);
+
+    expect(code).toBe(ExitCode.Fatal);
+    expect(run.run).not.toHaveBeenCalled();
+    expect(console.error).toHaveBeenCalledWith('Error: Unknown option: --dry-runn');
+  });
+
+  it('should reject config flags a command does not accept', async () => {
+    expect(await cli(['profiles', 'list', '--dry-run'])).toBe(ExitCode.Fatal);
+    expect(list.run).not.toHaveBeenCalled();
+  });
+
+  it('should pass positionals up to maxArgs', async () => {
+    expect(await cli(['profiles', 'show', 'Work'])).toBe(ExitCode.Success);
+    expect(vi.mocked(show.run).mock.calls[0]![0].args).toEqual(['Work']);
+
+    expect(await cli(['profiles', 'list', 'extra'])).toBe(ExitCode.Fatal);
+  });
+
+  it('should print per-command help without running it', async () => {
+    expect(await cli(['profiles', 'show', '--help'])).toBe(ExitCode.Success);
+
+    expect(console.log).toHaveBeenCalledWith('profiles show help');
+    expect(show.run).not.toHaveBeenCalled();
+  });
+
+  it('should fail on unknown commands and bare groups', async () => {
+    expect(await cli(['frobnicate'])).toBe(ExitCode.Fatal);
+    expect(await cli(['profiles'])).toBe(ExitCode.Fatal);
+    expect(await cli(['profiles', 'delete'])).toBe(ExitCode.Fatal);
+  });
+
+  it('should map deprecated action flags to their commands', async () => {
+    await cli(['--list-profiles']);
+
+    expect(list.run).toHaveBeenCalled();
+    expect(console.error).toHaveBeenCalledWith(expect.stringMatching(/--list-profiles is deprecated/));
+  });
+});
+
+describe('formatMetricsCsv', () => {
+  it('should write one row per run and quote JSON meta', () => {
+    const csv = formatMetricsCsv({
+      runs: [
+        {
+          timestamp: '2026-01-05T10:00:00.000Z',
+          handler: 'ClickHandler',
+          status: 'ok',
+          durationMs: 1200,
+          attempts: 2,
+          points: 30,
+          meta: { clicked: ['a', 'b'] },
+        },
+      ],
+      dailyPoints: [],
+    });
+
+    expect(csv.split('\n')).toEqual([
+      'timestamp,handler,status,durationMs,attempts,points,meta',
+      '2026-01-05T10:00:00.000Z,ClickHandler,ok,1200,2,30,"{""clicked"":[""a"",""b""]}"',
+      '',
+    ]);
+  });
+});
+
+describe('formatActivityLedger', () => {
+  const entry = (title: string, days: { date: string; attempts: number; failures: number }[]) => ({
+    key: `link:|${title}`,
+    title,
+    kind: 'url-reward' as const,
+    firstSeen: `${days[0]!.date}T09:00:00.000Z`,
+    lastAttempt: `${days.at(-1)!.date}T09:30:00.000Z`,
+    days: days.map(d => ({
+      ...d,
+      outcomes: [{ at: `${d.date}T09:30:00.000Z`, handler: 'click', status: d.failures ? 'failed' : 'clicked', attempts: 1 } as const],
+    })),
+  });
+
+  it('should total attempts per card and flag cards quarantined today', () => {
+    const entries = ledgerSince(
+      [
+        entry('Tour the Alps', [
+          { date: '2026-03-01', attempts: 5, failures: 0 },
+          { date: '2026-03-05', attempts: 3, failures: 3 },
+        ]),
+        entry('Old card', [{ date: '2026-02-01', attempts: 1, failures: 0 }]),
+      ],
+      '2026-03-01',
+    );
+
+    const lines = formatActivityLedger(entries, { today: '2026-03-05', quarantineAfter: 3 }).split('\n');
+
+    expect(lines).toHaveLength(4);
+    expect(lines[0]).toMatch(/^ {2}Activity\s+Kind\s+Last attempt\s+Outcome\s+Attempts\s+Failures\s+Today$/);
+    expect(lines[2]).toMatch(/^ {2}Tour the Alps\s+url-reward\s+2026-03-05 09:30\s+failed\s+8\s+3\s+quarantined$/);
+  });
+
+  it('should say when nothing was recorded', () => {
+    expect(formatActivityLedger([], { today: '2026-03-05', quarantineAfter: 3 })).toBe(
+      'No activity attempts recorded yet.\n',
+    );
+  });
+});
+
+describe('formatSelectorChecks', () => {
+  const pack = { version: 3, warnings: [] } as unknown as SelectorPack;
+
+  it('should mark unchecked detail concepts without naming one kind of page', () => {
+    const lines = formatSelectorChecks(pack, [
+      { concept: 'card', source: 'built-in', scope: 'section', required: true, counts: [{ selector: 'mee-card', matches: 12 }], active: 'mee-card' },
+      { concept: 'punchCardTask', source: 'built-in', scope: 'detail', required: false, counts: [] },
+      { concept: 'breakdownRow', source: 'built-in', scope: 'detail', required: false, counts: [] },
+    ]).split('\n');
+
+    expect(lines).toEqual([
+      'Selector pack: v3 (built-in)',
+      '',
+      '  ✓ card (required)',
+      '      →   12  mee-card',
+      '  - punchCardTask (only on detail pages or dialogs, not checked)',
+      '  - breakdownRow (only on detail pages or dialogs, not checked)',
+    ]);
+  });
+});
@@ -1,6 +1,11 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { ClickHandler } from '../../src/handlers/click-handler';
 import type { BrowserAdapter } from '../../src/core/browser-adapter';
+import { RateLimiter } from '../../src/core/rate-limiter';
+import { TabManager } from '../../src/core/tabs';
+import { ActivityLedger } from '../../src/core/activity-ledger';
+import { QuotaTracker } from '../../src/core/quota';
+import { searchQueryFromText } from '../../src/handlers/dashboard';
 
 // Mock the embeddings module to prevent model loading in tests
 vi.mock('../../src/utils/embeddings', () => ({
@@ -52,6 +57,8 @@ describe('ClickHandler', () => {
       locator: vi.fn().mockReturnValue(mockLocator),
       context: vi.fn().mockReturnValue(mockContext),
       goto: vi.fn().mockResolvedValue(undefined),
+      on: vi.fn(),
+      off: vi.fn(),
     };
 
     // Create mock browser adapter
@@ -75,12 +82,51 @@ describe('ClickHandler', () => {
 
   describe('explore query normalization', () => {
     it('should strip "search using bing to" prefix', () => {
-      const handler = new ClickHandler(mockBrowser);
-      const normalized = (handler as any).normalizeExploreQuery('Search using Bing to translate any word you want');
+      const normalized = searchQueryFromText('Search using Bing to translate any word you want');
       expect(normalized).toBe('translate any word you want');
     });
   });
 
+  describe('explore search engagement', () => {
+    let target: any;
+
+    beforeEach(() => {
+      target = {
+        bringToFront: vi.fn().mockResolvedValue(undefined),
+        url: () => 'https://www.bing.com/search?q=x',
+        keyboard: { press: vi.fn().mockResolvedValue(undefined) },
+        waitForLoadState: vi.fn().mockResolvedValue(undefined),
+      };
+      (mockBrowser as any).humanizer = { clearAndTypeHuman: vi.fn().mockResolvedValue(undefined) };
+      (mockBrowser as any).engageWithResults = vi.fn().mockResolvedValue({ scrolls: 2 });
+    });
+
+    it('should read the results with the engagement routine when enabled', async () => {
+      const engagement = {
+        enabled: true,
+        minScrolls: 1,
+        maxScrolls: 2,
+        openResultChance: 0.5,
+        minDwellSeconds: 5,
+        maxDwellSeconds: 10,
+      };
+      const handler = new ClickHandler(mockBrowser, { engagement });
+
+      await (handler as any).searchExploreQuery(target, 'whales');
+
+      expect(mockBrowser.engageWithResults).toHaveBeenCalledWith(target, engagement, 'ClickHandler');
+    });
+
+    it('should only wait for the results without engagement', async () => {
+      const handler = new ClickHandler(mockBrowser);
+
+      await (handler as any).searchExploreQuery(target, 'whales');
+
+      expect(target.keyboard.press).toHaveBeenCalledWith('Enter');
+      expect(mockBrowser.engageWithResults).not.toHaveBeenCalled();
+    });
+  });
+
   describe('run', () => {
     it('should navigate to rewards page', async () => {
       const handler = new ClickHandler(mockBrowser);
@@ -133,6 +179,7 @@ describe('ClickHandler', () => {
       mockActivityLocator.locator = vi.fn().mockImplementation((selector: string) => {
         if (selector.includes('title') || selector.includes('heading')) {
           return {
+            count: vi.fn().mockResolvedValue(1),
             first: vi.fn().mockReturnValue({
               textContent: vi.fn().mockResolvedValue('Test Activity'),
             }),
@@ -190,6 +237,9 @@ describe('ClickHandler', () => {
 
       // But should still report success in dry-run
       expect(result.status).toBe('ok');
+      expect(result.activities).toEqual([
+        expect.objectContaining({ status: 'clicked' }),
+      ]);
     });
   });
 
@@ -363,6 +413,309 @@ describe('ClickHandler', () => {
 
       expect(result.attempts).toBeLessThanOrEqual(1);
     });
+
+    it('should defer activities once the shared limiter is exhausted', async () => {
+      const card: any = {
+        isVisible: vi.fn().mockResolvedValue(true),
+        locator: vi.fn().mockImplementation((selector: string) => {
+          if (selector === 'a') {
+            return {
+              count: vi.fn().mockResolvedValue(1),
+              first: vi.fn().mockReturnValue({ ...mockLocator, count: vi.fn().mockResolvedValue(1) }),
+            };
+          }
+          return {
+            count: vi.fn().mockResolvedValue(0),
+            first: vi.fn().mockReturnValue({ textContent: vi.fn().mockResolvedValue('Explore card') }),
+          };
+        }),
+      };
+      mockPage.locator = vi.fn().mockImplementation((selector: string) => {
+        if (selector.includes('mee-card')) {
+          return { count: vi.fn().mockResolvedValue(2), nth: vi.fn().mockReturnValue(card) };
+        }
+        if (selector.includes('h1,h2,h3,h4')) {
+          return {
+            filter: vi.fn().mockReturnThis(),
+            first: vi.fn().mockReturnThis(),
+            locator: vi.fn().mockImplementation(() => ({
+              locator: vi.fn().mockReturnValue({ count: vi.fn().mockResolvedValue(0) }),
+            })),
+          };
+        }
+        return mockLocator;
+      });
+
+      const limiter = new RateLimiter({ maxActionsPerHour: 1 });
+      limiter.tryAcquire('click');
+
+      const handler = new ClickHandler(mockBrowser, { dryRun: true }, limiter);
+      const result = await handler.run(mockPage);
+
+      expect(result.attempts).toBe(0);
+      expect(result.status).toBe('skipped');
+      expect(result.meta!.deferredByRateLimit).toBe(2);
+      expect(result.activities!.map(a => a.status)).toEqual(['deferred', 'deferred']);
+      expect(limiter.getDeferredCount()).toBe(2);
+    });
+  });
+
+  describe('activity discovery', () => {
+    const offers = {
+      dashboard: {
+        morePromotions: [
+          {
+            offerId: 'ENUS_alps',
+            title: 'Tour the Alps',
+            pointProgressMax: 10,
+            complete: false,
+            destinationUrl: 'https://www.bing.com/search?q=alps',
+          },
+          { offerId: 'ENUS_done', title: 'Done already', pointProgressMax: 10, complete: true },
+        ],
+      },
+    };
+
+    // The dashboard answers its own data request while the handler navigates there
+    const serveDashboardData = (body: unknown) => {
+      let onResponse: ((response: any) => void) | undefined;
+      mockPage.on = vi.fn((_event: string, listener: (response: any) => void) => {
+        onResponse = listener;
+      });
+      mockBrowser.goto = vi.fn().mockImplementation(async () => {
+        onResponse?.({
+          url: () => 'https://rewards.bing.com/api/getuserinfo?type=1',
+          ok: () => true,
+          headers: () => ({ 'content-type': 'application/json' }),
+          json: async () => body,
+        });
+      });
+    };
+
+    it('should take activities from the dashboard data and log the strategy', async () => {
+      serveDashboardData(offers);
+      mockLocator.count.mockResolvedValue(1);
+      const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+      const handler = new ClickHandler(mockBrowser, { dryRun: true });
+
+      const result = await handler.run(mockPage);
+
+      expect(result.meta!.discovery).toBe('network');
+      expect(result.activities).toEqual([{ title: 'Tour the Alps', kind: 'url-reward', status: 'clicked', attempts: 1 }]);
+      expect(log).toHaveBeenCalledWith('[ClickHandler] Discovery: network (2 offers in dashboard data)');
+      expect(mockPage.off).toHaveBeenCalledWith('response', expect.any(Function));
+    });
+
+    it('should fall back to the DOM when the dashboard data has no offers', async () => {
+      serveDashboardData({ balance: 1200 });
+      const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+      const handler = new ClickHandler(mockBrowser, { dryRun: true });
+
+      const result = await handler.run(mockPage);
+
+      expect(result.meta!.discovery).toBe('dom');
+      expect(log).toHaveBeenCalledWith('[ClickHandler] Discovery: dom (no offers in dashboard data)');
+    });
+
+    it('should skip daily set offers once the daily-set quota is maxed', async () => {
+      const now = new Date();
+      const today = `${now.getMonth() + 1}/${now.getDate()}/${now.getFullYear()}`;
+      serveDashboardData({
+        dashboard: {
+          ...offers.dashboard,
+          dailySetPromotions: { [today]: [{ offerId: 'ENUS_ds1', title: 'Daily trivia', pointProgressMax: 10, complete: false }] },
+        },
+      });
+      mockLocator.count.mockResolvedValue(1);
+      const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+      const quota = new QuotaTracker();
+      quota.update({ readAt: now.toISOString(), categories: { 'daily-set': { earned: 30, max: 30 } } });
+      const handler = new ClickHandler(mockBrowser, { dryRun: true }, undefined, undefined, undefined, quota);
+
+      const result = await handler.run(mockPage);
+
+      expect(result.activities).toEqual([{ title: 'Tour the Alps', kind: 'url-reward', status: 'clicked', attempts: 1 }]);
+      expect(log).toHaveBeenCalledWith('[ClickHandler] Skipping Daily trivia: daily-set quota reached');
+    });
+
+    it('should not listen for responses when discovery is "dom"', async () => {
+      serveDashboardData(offers);
+      const handler = new ClickHandler(mockBrowser, { dryRun: true, discovery: 'dom' });
+
+      const result = await handler.run(mockPage);
+
+      expect(mockPage.on).not.toHaveBeenCalled();
+      expect(result.meta!.discovery).toBe('dom');
+    });
+  });
+
+  describe('completion verification', () => {
+    // "More activities" cards (one by default); completedAfter = how many completion checks report "not done"
+    const setUpCard = (completedAfter: number, titles = ['Daily poll']) => {
+      const cards = titles.map(title => {
+        let checks = 0;
+        const link: any = {
+          count: vi.fn().mockResolvedValue(1),
+          scrollIntoViewIfNeeded: vi.fn().mockResolvedValue(undefined),
+        };
+        return {
+          isVisible: vi.fn().mockResolvedValue(true),
+          locator: vi.fn().mockImplementation((selector: string) => {
+            if (selector.includes('SkypeCircleCheck')) {
+              return { count: vi.fn().mockImplementation(async () => (checks++ < completedAfter ? 0 : 1)) };
+            }
+            if (selector.includes('Points you will earn')) {
+              return { count: vi.fn().mockResolvedValue(1) };
+            }
+            if (selector.includes('Lock')) {
+              return { count: vi.fn().mockResolvedValue(0) };
+            }
+            if (selector === 'a') return { first: vi.fn().mockReturnValue(link) };
+            return {
+              count: vi.fn().mockResolvedValue(selector === 'h3' ? 1 : 0),
+              first: vi.fn().mockReturnValue({
+                textContent: vi.fn().mockResolvedValue(selector.includes('h3') ? title : null),
+              }),
+            };
+          }),
+        };
+      });
+      mockPage.locator = vi.fn().mockImplementation((selector: string) => {
+        if (selector.includes('h1,h2,h3,h4')) {
+          return {
+            filter: vi.fn().mockReturnThis(),
+            first: vi.fn().mockReturnThis(),
+            locator: vi.fn().mockImplementation(() => ({
+              locator: vi.fn().mockReturnValue({ count: vi.fn().mockResolvedValue(0) }),
+            })),
+          };
+        }
+        if (selector.includes('More activities')) {
+          return { count: vi.fn().mockResolvedValue(cards.length), nth: vi.fn().mockImplementation((i: number) => cards[i]) };
+        }
+        return { count: vi.fn().mockResolvedValue(0) };
+      });
+      mockPage.url = vi.fn().mockReturnValue('https://rewards.bing.com/');
+      mockPage.bringToFront = vi.fn().mockResolvedValue(undefined);
+      mockContext.pages = vi.fn().mockReturnValue([mockPage]);
+      mockContext.on = vi.fn();
+      mockContext.off = vi.fn();
+      mockPage.on = vi.fn();
+      mockPage.off = vi.fn();
+      mockPage.mainFrame = vi.fn();
+      (mockBrowser as any).humanizer = { clickLocatorHuman: vi.fn().mockResolvedValue(undefined) };
+      (mockBrowser as any).tabs = new TabManager({ openTimeoutMs: 0 });
+    };
+
+    it('should report clicked once the card shows its completion mark', async () => {
+      // Initial scan sees it incomplete, the first verification sees it done
+      setUpCard(1);
+      const handler = new ClickHandler(mockBrowser, { verifyRetries: 2, retryBackoffMs: 0 });
+
+      const result = await handler.run(mockPage);
+
+      expect(result.status).toBe('ok');
+      expect(result.attempts).toBe(1);
+      expect(result.activities).toEqual([
+        { title: 'Daily poll', kind: 'poll', status: 'clicked', attempts: 1 },
+      ]);
+    });
+
+    it('should re-check after a reload and retry the click before giving up', async () => {
+      setUpCard(Infinity);
+      const handler = new ClickHandler(mockBrowser, { verifyRetries: 2, retryBackoffMs: 0 });
+
+      const result = await handler.run(mockPage);
+
+      expect(result.status).toBe('failed');
+      expect(result.attempts).toBe(3);
+      expect(result.activities![0]).toMatchObject({ status: 'not-credited', attempts: 3 });
+      expect(result.meta!.notCreditedActivities).toEqual(['Daily poll']);
+      expect(result.meta!.totalNotCredited).toBe(1);
+      // Initial navigation plus one reload per retry
+      expect(mockBrowser.goto).toHaveBeenCalledTimes(3);
+    });
+
+    it('should count failed clicks toward maxClicks', async () => {
+      setUpCard(Infinity, ['Daily poll', 'Weekly poll', 'Monthly poll']);
+      (mockBrowser as any).humanizer.clickLocatorHuman.mockRejectedValue(new Error('detached'));
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const handler = new ClickHandler(mockBrowser, { maxClicks: 2, verifyRetries: 0, retryBackoffMs: 0 });
+
+      const result = await handler.run(mockPage);
+
+      expect(result.status).toBe('failed');
+      expect(result.activities!.map(a => a.status)).toEqual(['failed', 'failed']);
+      expect((mockBrowser as any).humanizer.clickLocatorHuman).toHaveBeenCalledTimes(2);
+    });
+
+    it('should leave quiz and poll cards to QuizHandler when skipInteractive is set', async () => {
+      setUpCard(1);
+      const handler = new ClickHandler(mockBrowser, { skipInteractive: true });
+
+      const result = await handler.run(mockPage);
+
+      expect(result.status).toBe('skipped');
+      expect(result.activities).toEqual([]);
+    });
+
+    it('should skip cards whose activity kind is not in activityKinds', async () => {
+      setUpCard(1);
+      const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+      const handler = new ClickHandler(mockBrowser, { activityKinds: ['url-reward', 'search'] });
+
+      const result = await handler.run(mockPage);
+
+      expect(result.status).toBe('skipped');
+      expect(result.activities).toEqual([]);
+      expect(log).toHaveBeenCalledWith('[ClickHandler] Skipping poll activity: Daily poll');
+    });
+
+    it('should record outcomes in the ledger and skip a card once it is quarantined', async () => {
+      setUpCard(Infinity);
+      const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+      const ledger = new ActivityLedger();
+      const handler = new ClickHandler(
+        mockBrowser,
+        { verifyRetries: 0, retryBackoffMs: 0, quarantineAfterFailures: 2 },
+        undefined,
+        undefined,
+        ledger,
+      );
+
+      await handler.run(mockPage);
+      await handler.run(mockPage);
+      const entry = ledger.get('link:|Daily poll')!;
+      expect(entry).toMatchObject({ title: 'Daily poll', kind: 'poll' });
+      expect(entry.days[0]).toMatchObject({ attempts: 2, failures: 2 });
+      expect(entry.days[0]!.outcomes.map(o => o.status)).toEqual(['not-credited', 'not-credited']);
+
+      const result = await handler.run(mockPage);
+      expect(result.status).toBe('skipped');
+      expect(result.activities).toEqual([]);
+      expect(log).toHaveBeenCalledWith('[ClickHandler] Skipping Daily poll: failed 2 times today');
+    });
+
+    it('should not record dry-run clicks in the ledger', async () => {
+      setUpCard(Infinity);
+      const ledger = new ActivityLedger();
+      const handler = new ClickHandler(mockBrowser, { dryRun: true }, undefined, undefined, ledger);
+
+      await handler.run(mockPage);
+
+      expect(ledger.list()).toEqual([]);
+    });
+
+    it('should accept a late credit found on the re-check without clicking again', async () => {
+      // Incomplete at scan and first verification, complete after the reload
+      setUpCard(2);
+      const handler = new ClickHandler(mockBrowser, { verifyRetries: 2, retryBackoffMs: 0 });
+
+      const result = await handler.run(mockPage);
+
+      expect(result.status).toBe('ok');
+      expect(result.attempts).toBe(1);
+    });
   });
 });
 
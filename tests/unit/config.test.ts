@@ -0,0 +1,266 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { loadConfig, formatConfig, ConfigError, getDefaultConfig, engagementFor } from '../../src/core/config';
+
+describe('loadConfig', () => {
+  let cwd: string;
+
+  beforeEach(() => {
+    cwd = mkdtempSync(join(tmpdir(), 'rewards-config-'));
+  });
+
+  afterEach(() => {
+    rmSync(cwd, { recursive: true, force: true });
+  });
+
+  const writeConfig = (data: unknown, name = 'rewards.config.json') => {
+    writeFileSync(join(cwd, name), JSON.stringify(data), 'utf-8');
+  };
+
+  it('should return defaults when nothing is configured', () => {
+    const loaded = loadConfig({ argv: [], env: {}, cwd });
+
+    expect(loaded.config).toEqual(getDefaultConfig());
+    expect(loaded.configFile).toBeUndefined();
+    expect(loaded.sources.dryRun).toEqual({ kind: 'default' });
+  });
+
+  it('should load rewards.config.json from the working directory', () => {
+    writeConfig({ maxActionsPerHour: 12, handlers: { click: { maxClicks: 5 } } });
+
+    const loaded = loadConfig({ argv: [], env: {}, cwd });
+
+    expect(loaded.config.maxActionsPerHour).toBe(12);
+    expect(loaded.config.handlers.click.maxClicks).toBe(5);
+    expect(loaded.config.handlers.click.enabled).toBe(true);
+    expect(loaded.sources['handlers.click.maxClicks']).toMatchObject({ kind: 'file' });
+  });
+
+  it('should apply precedence defaults < file < env < cli', () => {
+    writeConfig({ maxActionsPerHour: 12, dryRun: false });
+
+    const loaded = loadConfig({
+      argv: ['--max-actions', '8'],
+      env: { REWARDS_MAX_ACTIONS: '10', REWARDS_DRY_RUN: 'true' },
+      cwd,
+    });
+
+    expect(loaded.config.maxActionsPerHour).toBe(8);
+    expect(loaded.sources.maxActionsPerHour).toEqual({ kind: 'cli', flag: '--max-actions' });
+    expect(loaded.config.dryRun).toBe(true);
+    expect(loaded.sources.dryRun).toEqual({ kind: 'env', name: 'REWARDS_DRY_RUN' });
+  });
+
+  it('should honour --config and --flag=value syntax', () => {
+    writeConfig({ profileName: 'Work' }, 'team.json');
+
+    const loaded = loadConfig({ argv: ['--config=team.json', '--max-clicks=3'], env: {}, cwd });
+
+    expect(loaded.config.profileName).toBe('Work');
+    expect(loaded.config.handlers.click.maxClicks).toBe(3);
+  });
+
+  it('should collect positionals', () => {
+    const loaded = loadConfig({ argv: ['config', 'print', '--dry-run'], env: {}, cwd });
+
+    expect(loaded.positionals).toEqual(['config', 'print']);
+    expect(loaded.config.dryRun).toBe(true);
+  });
+
+  it('should report invalid values with their source', () => {
+    expect(() => loadConfig({ argv: ['--max-actions', 'lots'], env: {}, cwd })).toThrow(
+      /maxActionsPerHour: .*\(from cli --max-actions\)/,
+    );
+  });
+
+  it('should reject unknown keys in the config file', () => {
+    writeConfig({ maxActionPerHour: 5 });
+
+    expect(() => loadConfig({ argv: [], env: {}, cwd })).toThrow(ConfigError);
+    expect(() => loadConfig({ argv: [], env: {}, cwd })).toThrow(/maxActionPerHour/);
+  });
+
+  it('should refuse --confirm from the config file', () => {
+    writeConfig({ confirm: true });
+
+    expect(() => loadConfig({ argv: [], env: {}, cwd })).toThrow(ConfigError);
+    expect(() => loadConfig({ argv: [], env: {}, cwd })).toThrow(/confirm: only accepted on the command line \(from file /);
+  });
+
+  it('should only take --confirm from the command line', () => {
+    expect(loadConfig({ argv: [], env: { REWARDS_CONFIRM: 'true' }, cwd }).config.confirm).toBe(false);
+    expect(loadConfig({ argv: ['--confirm'], env: {}, cwd }).sources.confirm).toEqual({ kind: 'cli', flag: '--confirm' });
+  });
+
+  it('should fail when an explicit config file is missing', () => {
+    expect(() => loadConfig({ argv: ['--config', 'missing.json'], env: {}, cwd })).toThrow(
+      /Config file not found/,
+    );
+  });
+
+  it('should fail on malformed JSON', () => {
+    writeFileSync(join(cwd, 'rewards.config.json'), '{ nope', 'utf-8');
+
+    expect(() => loadConfig({ argv: [], env: {}, cwd })).toThrow(/Failed to read config file/);
+  });
+
+  it('should parse --profiles as a list', () => {
+    const loaded = loadConfig({ argv: ['--profiles', 'Work, Home'], env: {}, cwd });
+
+    expect(loaded.config.profileNames).toEqual(['Work', 'Home']);
+  });
+
+  it('should parse --activity-kinds and reject unknown kinds', () => {
+    const loaded = loadConfig({ argv: [], env: { REWARDS_ACTIVITY_KINDS: 'url-reward,quiz' }, cwd });
+
+    expect(loaded.config.activityKinds).toEqual(['url-reward', 'quiz']);
+    expect(() => loadConfig({ argv: ['--activity-kinds', 'url-reward,trivia'], env: {}, cwd })).toThrow(
+      /activityKinds\.1: Invalid enum value.*'promotional', received 'trivia'/,
+    );
+  });
+
+  it('should parse --discovery and reject unknown strategies', () => {
+    expect(loadConfig({ argv: [], env: {}, cwd }).config.handlers.click.discovery).toBe('network');
+    expect(loadConfig({ argv: ['--discovery', 'dom'], env: {}, cwd }).config.handlers.click.discovery).toBe('dom');
+    expect(() => loadConfig({ argv: [], env: { REWARDS_DISCOVERY: 'xhr' }, cwd })).toThrow(/handlers\.click\.discovery/);
+  });
+
+  it('should parse the search options and reject unknown generators', () => {
+    const loaded = loadConfig({ argv: ['--searches', '25'], env: { REWARDS_QUERY_GENERATOR: 'local' }, cwd });
+
+    expect(loaded.config.handlers.search).toEqual({
+      enabled: true,
+      maxSearches: 25,
+      generator: 'local',
+      locale: 'en-US',
+      historyDays: 14,
+    });
+    expect(() => loadConfig({ argv: ['--query-generator', 'openai'], env: {}, cwd })).toThrow(
+      /handlers\.search\.generator/,
+    );
+  });
+
+  it('should parse the query locale and history window', () => {
+    const loaded = loadConfig({ argv: ['--query-locale', 'fr-FR'], env: { REWARDS_QUERY_HISTORY_DAYS: '0' }, cwd });
+
+    expect(loaded.config.handlers.search).toMatchObject({ locale: 'fr-FR', historyDays: 0 });
+    expect(() => loadConfig({ argv: ['--query-locale', 'xx-XX'], env: {}, cwd })).toThrow(/handlers\.search\.locale/);
+  });
+
+  it('should apply per-task engagement overrides and reject inverted ranges', () => {
+    const defaults = loadConfig({ argv: [], env: {}, cwd }).config.engagement;
+    expect(engagementFor({ ...defaults, tasks: { explore: { openResultChance: 0 } } }, 'explore')).toMatchObject({
+      enabled: true,
+      openResultChance: 0,
+      minScrolls: defaults.minScrolls,
+    });
+    expect(loadConfig({ argv: ['--engagement=off', '--open-result-chance', '0.5'], env: {}, cwd }).config.engagement).toMatchObject({
+      enabled: false,
+      openResultChance: 0.5,
+    });
+    expect(() => loadConfig({ argv: ['--open-result-chance', '2'], env: {}, cwd })).toThrow(/engagement\.openResultChance/);
+
+    writeConfig({ engagement: { tasks: { search: { minScrolls: 9 } } } });
+    expect(() => loadConfig({ argv: [], env: {}, cwd })).toThrow(/engagement\.tasks\.search\.minScrolls/);
+  });
+
+  it('should leave mobile search off unless --mobile is given', () => {
+    expect(loadConfig({ argv: [], env: {}, cwd }).config.handlers.mobilesearch.enabled).toBe(false);
+
+    const loaded = loadConfig({
+      argv: ['--mobile', '--mobile-searches', '5'],
+      env: { REWARDS_MOBILE_DEVICE: 'iPhone 13' },
+      cwd,
+    });
+
+    expect(loaded.config.handlers.mobilesearch).toEqual({ enabled: true, maxSearches: 5, device: 'iPhone 13' });
+  });
+
+  it('should parse --quarantine-after and reject zero', () => {
+    expect(loadConfig({ argv: [], env: {}, cwd }).config.quarantineAfterFailures).toBe(3);
+    expect(loadConfig({ argv: ['--quarantine-after', '1'], env: {}, cwd }).config.quarantineAfterFailures).toBe(1);
+    expect(() => loadConfig({ argv: [], env: { REWARDS_QUARANTINE_AFTER: '0' }, cwd })).toThrow(
+      /quarantineAfterFailures/,
+    );
+  });
+
+  it('should reject --profile combined with batch flags', () => {
+    expect(() => loadConfig({ argv: ['--profile', 'Work', '--all-profiles'], env: {}, cwd })).toThrow(
+      /profileName: Use either profileName or profileNames\/allProfiles/,
+    );
+  });
+
+  it('should reject --replay combined with profile or daemon options', () => {
+    expect(loadConfig({ argv: ['--replay', './snap'], env: {}, cwd }).config.replayDir).toBe('./snap');
+    expect(() => loadConfig({ argv: ['--replay', './snap', '--daemon'], env: {}, cwd })).toThrow(/replayDir/);
+    expect(() => loadConfig({ argv: ['--replay', './snap', '--profile', 'Work'], env: {}, cwd })).toThrow(
+      /replayDir/,
+    );
+  });
+
+  it('should reject an inverted batch gap range', () => {
+    writeConfig({ batch: { minGapSeconds: 60, maxGapSeconds: 10 } });
+
+    expect(() => loadConfig({ argv: [], env: {}, cwd })).toThrow(/batch\.minGapSeconds/);
+  });
+
+  it('should read --seed and reject seeds outside 32 bits', () => {
+    expect(loadConfig({ argv: ['--seed', '12345'], env: {}, cwd }).config.randomSeed).toBe(12345);
+    expect(() => loadConfig({ argv: ['--seed=4294967296'], env: {}, cwd })).toThrow(/randomSeed/);
+  });
+
+  it('should accept browser options and reject unknown channels', () => {
+    const loaded = loadConfig({ argv: ['--headless', '--channel', 'msedge-beta'], env: {}, cwd });
+
+    expect(loaded.config.headless).toBe(true);
+    expect(loaded.config.channel).toBe('msedge-beta');
+    expect(() => loadConfig({ argv: ['--channel', 'firefox'], env: {}, cwd })).toThrow(/channel: .*\(from cli --channel\)/);
+  });
+
+  it('should reject unknown flags', () => {
+    expect(() => loadConfig({ argv: ['--dryrun'], env: {}, cwd })).toThrow(/Unknown option: --dryrun/);
+  });
+
+  it('should only accept the config flags listed in configKeys', () => {
+    expect(loadConfig({ argv: ['-p', 'Work'], env: {}, cwd, configKeys: ['profileName'] }).config.profileName).toBe(
+      'Work',
+    );
+    expect(() => loadConfig({ argv: ['--dry-run'], env: {}, cwd, configKeys: ['profileName'] })).toThrow(
+      /Unknown option: --dry-run/,
+    );
+  });
+
+  it('should parse command options and treat arguments after -- as positionals', () => {
+    const loaded = loadConfig({
+      argv: ['--top', '3', '--', '--not-a-flag'],
+      env: {},
+      cwd,
+      commandOptions: [{ name: 'top', flags: ['--top'], type: 'number' }],
+    });
+
+    expect(loaded.options).toEqual({ top: 3 });
+    expect(loaded.positionals).toEqual(['--not-a-flag']);
+  });
+
+  it('should fail when a flag value is missing', () => {
+    expect(() => loadConfig({ argv: ['--profile'], env: {}, cwd })).toThrow(/Missing value for --profile/);
+  });
+});
+
+describe('formatConfig', () => {
+  it('should list every value with its source', () => {
+    const cwd = mkdtempSync(join(tmpdir(), 'rewards-config-'));
+    try {
+      const loaded = loadConfig({ argv: ['--dry-run'], env: {}, cwd });
+      const output = formatConfig(loaded);
+
+      expect(output).toContain('Config file: (none)');
+      expect(output).toMatch(/dryRun\s+true\s+cli --dry-run/);
+      expect(output).toMatch(/handlers\.click\.maxClicks\s+20\s+default/);
+    } finally {
+      rmSync(cwd, { recursive: true, force: true });
+    }
+  });
+});
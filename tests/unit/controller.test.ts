@@ -0,0 +1,286 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Controller, totalPoints } from '../../src/core/controller';
+import { getDefaultConfig } from '../../src/core/config';
+import { RateLimiter } from '../../src/core/rate-limiter';
+import { QuotaTracker } from '../../src/core/quota';
+import { Random } from '../../src/utils/random';
+import type { HandlerRegistration } from '../../src/handlers/registry';
+import type { BrowserAdapter } from '../../src/core/browser-adapter';
+import type { ActionResult, DashboardOffer, ExtendedConfig, QuotaStatus } from '../../src/types';
+import type { MetricsStore } from '../../src/utils/storage';
+import type { Logger } from '../../src/utils/logger';
+
+const okResult = (meta?: Record<string, unknown>): ActionResult => ({
+  type: 'click',
+  status: 'ok',
+  attempts: 1,
+  durationMs: 5,
+  meta,
+});
+
+describe('Controller', () => {
+  let config: ExtendedConfig;
+  let metrics: MetricsStore;
+  let logger: Logger;
+  let calls: string[];
+  let limiter: RateLimiter;
+
+  const fakeRegistration = (id: string, run?: () => Promise<ActionResult>): HandlerRegistration => ({
+    id,
+    type: 'click',
+    create: () => ({
+      name: `${id}Handler`,
+      run: vi.fn().mockImplementation(async () => {
+        calls.push(id);
+        return run ? run() : okResult();
+      }),
+    }),
+  });
+
+  const createController = (
+    registrations: HandlerRegistration[],
+    readPoints?: () => Promise<number | null>,
+    scanOffers: () => Promise<DashboardOffer[]> = async () => [],
+    quota?: { tracker: QuotaTracker; read: () => Promise<QuotaStatus | null> },
+  ) =>
+    new Controller(
+      {
+        browser: {} as BrowserAdapter,
+        config,
+        limiter,
+        random: new Random(1),
+        quota: quota?.tracker,
+      },
+      { metrics, logger, readPoints, scanOffers, readQuota: quota?.read },
+      registrations,
+    );
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    calls = [];
+    config = getDefaultConfig();
+    limiter = new RateLimiter({ maxActionsPerHour: 30 });
+    metrics = { recordRun: vi.fn(), recordPoints: vi.fn(), recordOffers: vi.fn() } as unknown as MetricsStore;
+    logger = {
+      info: vi.fn(),
+      error: vi.fn(),
+      logResult: vi.fn(),
+    } as unknown as Logger;
+  });
+
+  it('should run handlers in handlerOrder', async () => {
+    config.handlerOrder = ['b', 'a'];
+    const controller = createController([fakeRegistration('a'), fakeRegistration('b')]);
+
+    const records = await controller.run({} as any);
+
+    expect(calls).toEqual(['b', 'a']);
+    expect(records.map(r => r.handler)).toEqual(['bHandler', 'aHandler']);
+  });
+
+  it('should skip disabled handlers', async () => {
+    config.handlerOrder = ['a', 'b'];
+    (config.handlers as any).b = { enabled: false };
+    const controller = createController([fakeRegistration('a'), fakeRegistration('b')]);
+
+    await controller.run({} as any);
+
+    expect(calls).toEqual(['a']);
+  });
+
+  it('should respect a registration-specific isEnabled', () => {
+    config.handlerOrder = ['click'];
+    config.skipClicks = true;
+    const controller = createController([
+      { ...fakeRegistration('click'), isEnabled: c => !c.skipClicks },
+    ]);
+
+    expect(controller.getPlan()).toEqual([]);
+  });
+
+  it('should reject unknown handler ids', () => {
+    config.handlerOrder = ['nope'];
+    const controller = createController([fakeRegistration('a')]);
+
+    expect(() => controller.getPlan()).toThrow(/Unknown handler\(s\) in handlerOrder: nope/);
+  });
+
+  it('should reject duplicate registrations', () => {
+    expect(() => createController([fakeRegistration('a'), fakeRegistration('a')])).toThrow(
+      /already registered/,
+    );
+  });
+
+  it('should record metrics and log each result', async () => {
+    config.handlerOrder = ['a'];
+    const controller = createController([fakeRegistration('a', async () => okResult({ n: 1 }))]);
+
+    await controller.run({} as any);
+
+    expect(metrics.recordRun).toHaveBeenCalledWith('aHandler', 'ok', 5, 1, { n: 1 }, undefined);
+    expect(logger.logResult).toHaveBeenCalledWith('aHandler', expect.objectContaining({ status: 'ok' }));
+  });
+
+  it('should credit each handler with the balance change it caused', async () => {
+    config.handlerOrder = ['a', 'b'];
+    const balances = [100, 130, 130];
+    const readPoints = vi.fn().mockImplementation(async () => balances.shift() ?? null);
+    const controller = createController([fakeRegistration('a'), fakeRegistration('b')], readPoints);
+
+    const records = await controller.run({} as any);
+
+    expect(records.map(r => r.result.points)).toEqual([30, 0]);
+    expect(metrics.recordPoints).toHaveBeenCalledTimes(1);
+    expect(metrics.recordPoints).toHaveBeenCalledWith(30, 'a');
+    expect(metrics.recordRun).toHaveBeenCalledWith('aHandler', 'ok', 5, 1, undefined, 30);
+    expect(totalPoints(records)).toBe(30);
+  });
+
+  it('should leave points unset when the balance is unreadable', async () => {
+    config.handlerOrder = ['a'];
+    const controller = createController([fakeRegistration('a')], async () => null);
+
+    const records = await controller.run({} as any);
+
+    expect(records[0]!.result.points).toBeUndefined();
+    expect(metrics.recordPoints).not.toHaveBeenCalled();
+    expect(totalPoints(records)).toBeNull();
+  });
+
+  it('should turn a thrown handler error into a failed result and continue', async () => {
+    config.handlerOrder = ['a', 'b'];
+    const controller = createController([
+      {
+        ...fakeRegistration('a', async () => {
+          throw new Error('boom');
+        }),
+        type: 'search',
+      },
+      fakeRegistration('b'),
+    ]);
+
+    const records = await controller.run({} as any);
+
+    expect(records[0]!.result.type).toBe('search');
+    expect(records[0]!.result.status).toBe('failed');
+    expect(records[0]!.result.meta).toEqual({ error: 'boom' });
+    expect(records[1]!.result.status).toBe('ok');
+    expect(logger.error).toHaveBeenCalled();
+  });
+
+  it('should record the dashboard offers before the first handler runs', async () => {
+    config.handlerOrder = ['a'];
+    const offers: DashboardOffer[] = [
+      { section: 'daily-set', title: 'Daily poll', kind: 'poll', points: 10, completed: false, locked: false },
+    ];
+    const scanOffers = vi.fn().mockImplementation(async () => {
+      expect(calls).toEqual([]);
+      return offers;
+    });
+    const controller = createController([fakeRegistration('a')], undefined, scanOffers);
+
+    await controller.run({} as any);
+
+    expect(metrics.recordOffers).toHaveBeenCalledWith(offers);
+    expect(logger.info).toHaveBeenCalledWith('Dashboard offers', {
+      meta: { summary: '1 activity: 1 poll (0 done, 0 locked)', offers },
+    });
+  });
+
+  it('should keep running when the dashboard scan fails', async () => {
+    config.handlerOrder = ['a'];
+    const controller = createController([fakeRegistration('a')], undefined, async () => {
+      throw new Error('detached');
+    });
+
+    const records = await controller.run({} as any);
+
+    expect(records[0]!.result.status).toBe('ok');
+    expect(metrics.recordOffers).not.toHaveBeenCalled();
+    expect(logger.error).toHaveBeenCalledWith('Dashboard scan failed', expect.any(Error));
+  });
+
+  it('should read the points breakdown into the quota before the first handler runs', async () => {
+    config.handlerOrder = ['a'];
+    const status: QuotaStatus = {
+      readAt: '2026-10-19T08:00:00.000Z',
+      categories: { 'pc-search': { earned: 45, max: 90 } },
+    };
+    const tracker = new QuotaTracker();
+    const read = vi.fn().mockImplementation(async () => {
+      expect(calls).toEqual([]);
+      return status;
+    });
+    const controller = createController([fakeRegistration('a')], undefined, undefined, { tracker, read });
+
+    await controller.run({} as any);
+
+    expect(read).toHaveBeenCalledTimes(1);
+    expect(tracker.remaining('pc-search')).toBe(45);
+    expect(logger.info).toHaveBeenCalledWith('Points breakdown', { meta: { ...status } });
+  });
+
+  it('should keep running when the points breakdown cannot be read', async () => {
+    config.handlerOrder = ['a'];
+    const tracker = new QuotaTracker();
+    const read = vi.fn().mockRejectedValue(new Error('detached'));
+    const controller = createController([fakeRegistration('a')], undefined, undefined, { tracker, read });
+
+    const records = await controller.run({} as any);
+
+    expect(records[0]!.result.status).toBe('ok');
+    expect(tracker.current).toBeNull();
+    expect(logger.error).toHaveBeenCalledWith('Points breakdown read failed', expect.any(Error));
+  });
+
+  it('should spend click budget on opening the points breakdown', async () => {
+    config.handlerOrder = ['a'];
+    const read = vi.fn().mockResolvedValue(null);
+    const controller = createController([fakeRegistration('a')], undefined, undefined, {
+      tracker: new QuotaTracker(),
+      read,
+    });
+
+    await controller.run({} as any);
+
+    expect(read).toHaveBeenCalledTimes(1);
+    expect(limiter.remaining()).toBe(29);
+  });
+
+  it('should keep the stored reading when the click budget is spent', async () => {
+    config.handlerOrder = ['a'];
+    limiter = new RateLimiter({ maxActionsPerHour: 0 });
+    const tracker = new QuotaTracker();
+    const read = vi.fn();
+    const controller = createController([fakeRegistration('a')], undefined, undefined, { tracker, read });
+
+    const records = await controller.run({} as any);
+
+    expect(read).not.toHaveBeenCalled();
+    expect(records[0]!.result.status).toBe('ok');
+    expect(console.log).toHaveBeenCalledWith(
+      'Rate limit reached, points breakdown not opened; handlers use their configured counts',
+    );
+  });
+
+  it('should not open the points breakdown in dry-run', async () => {
+    config.handlerOrder = ['a'];
+    config.dryRun = true;
+    const status: QuotaStatus = {
+      readAt: '2026-10-19T08:00:00.000Z',
+      categories: { 'pc-search': { earned: 90, max: 90 } },
+    };
+    const tracker = new QuotaTracker();
+    tracker.update(status);
+    const read = vi.fn();
+    const controller = createController([fakeRegistration('a')], undefined, undefined, { tracker, read });
+
+    await controller.run({} as any);
+
+    expect(read).not.toHaveBeenCalled();
+    expect(tracker.isMaxed('pc-search')).toBe(true);
+    expect(console.log).toHaveBeenCalledWith(
+      "[DRY-RUN] Would open the points breakdown; using today's earlier reading: pc-search 90/90",
+    );
+  });
+});
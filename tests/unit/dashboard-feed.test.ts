@@ -0,0 +1,140 @@
+import { describe, it, expect, vi } from 'vitest';
+import { EventEmitter } from 'events';
+import { DashboardFeed, extractFeedOffers, locateOffer } from '../../src/handlers/dashboard-feed';
+import { builtInSelectors } from '../../src/core/selectors';
+
+const today = new Date(2026, 9, 19, 12);
+
+const userInfo = {
+  dashboard: {
+    dailySetPromotions: {
+      '10/18/2026': [{ offerId: 'Global_DailySet_20261018_Child1', title: 'Yesterday', complete: false }],
+      '10/19/2026': [
+        {
+          offerId: 'Global_DailySet_20261019_Child1',
+          title: 'Tour the Alps ',
+          description: 'Plan a trip',
+          pointProgressMax: 10,
+          complete: false,
+          destinationUrl: 'https://www.bing.com/search?q=alps',
+          promotionType: 'urlreward',
+        },
+        { offerId: 'Global_DailySet_20261019_Child2', title: 'Lightspeed quiz', pointProgressMax: 30, complete: true },
+      ],
+    },
+    morePromotions: [
+      {
+        offerId: 'ENUS_promo',
+        title: 'Locked offer',
+        pointProgressMax: 5,
+        complete: false,
+        exclusiveLockedFeatureStatus: 'locked',
+      },
+      { offerId: '', title: 'No id' },
+    ],
+    punchCards: [{ parentPromotion: { offerId: 'ENUS_punch', title: 'Weekly streak', complete: false } }],
+  },
+};
+
+const jsonResponse = (body: unknown, overrides: Record<string, unknown> = {}) => ({
+  url: () => 'https://rewards.bing.com/api/getuserinfo?type=1',
+  ok: () => true,
+  headers: () => ({ 'content-type': 'application/json; charset=utf-8' }),
+  json: vi.fn().mockResolvedValue(body),
+  ...overrides,
+});
+
+describe('extractFeedOffers', () => {
+  it("should read today's daily set, more activities and punch cards", () => {
+    const offers = extractFeedOffers(userInfo, today);
+
+    expect(offers.map(o => [o.section, o.offerId])).toEqual([
+      ['daily-set', 'Global_DailySet_20261019_Child1'],
+      ['daily-set', 'Global_DailySet_20261019_Child2'],
+      ['more-activities', 'ENUS_promo'],
+      ['punch-cards', 'ENUS_punch'],
+    ]);
+    expect(offers[0]).toEqual({
+      section: 'daily-set',
+      offerId: 'Global_DailySet_20261019_Child1',
+      title: 'Tour the Alps',
+      description: 'Plan a trip',
+      points: 10,
+      url: 'https://www.bing.com/search?q=alps',
+      attributes: 'Global_DailySet_20261019_Child1 urlreward',
+      completed: false,
+      locked: false,
+    });
+    expect(offers[1]!.completed).toBe(true);
+    expect(offers[2]!.locked).toBe(true);
+    expect(offers[3]!.points).toBeNull();
+  });
+
+  it('should find nothing in unrelated JSON', () => {
+    expect(extractFeedOffers({ balance: 1200, items: [{ title: 'No offer id' }] }, today)).toEqual([]);
+    expect(extractFeedOffers(null, today)).toEqual([]);
+  });
+});
+
+describe('DashboardFeed', () => {
+  it('should collect offers from dashboard JSON responses and stop listening', async () => {
+    const page = new EventEmitter();
+    const feed = new DashboardFeed(page as any, { now: () => today });
+
+    page.emit('response', jsonResponse(userInfo));
+    page.emit('response', jsonResponse(userInfo, { headers: () => ({ 'content-type': 'text/html' }) }));
+    page.emit('response', jsonResponse(userInfo, { url: () => 'https://example.com/api' }));
+    page.emit('response', jsonResponse(null, { json: vi.fn().mockRejectedValue(new Error('not JSON')) }));
+
+    const offers = await feed.collect();
+    expect(offers).toHaveLength(4);
+    expect(page.listenerCount('response')).toBe(0);
+  });
+
+  it('should keep the most recent copy of an offer', async () => {
+    const page = new EventEmitter();
+    const feed = new DashboardFeed(page as any, { now: () => today });
+    const offer = { offerId: 'ENUS_promo', title: 'Promo', pointProgressMax: 5 };
+
+    page.emit('response', jsonResponse({ morePromotions: [{ ...offer, complete: false }] }));
+    page.emit('response', jsonResponse({ morePromotions: [{ ...offer, complete: true }] }));
+
+    expect(await feed.collect()).toMatchObject([{ offerId: 'ENUS_promo', completed: true }]);
+  });
+});
+
+describe('locateOffer', () => {
+  const offer = extractFeedOffers(userInfo, today)[0]!;
+
+  const fakePage = (matches: (selector: string) => number) => {
+    const locator = (selector: string): any => ({
+      selector,
+      first: () => locator(selector),
+      count: vi.fn().mockImplementation(async () => matches(selector)),
+      filter: (options: any) => locator(`${selector} >> ${options.hasText ?? options.has.selector}`),
+      locator: (inner: string) => locator(`${selector} ${inner}`),
+    });
+    return { locator } as any;
+  };
+
+  it('should find the link by offer id or destination URL in one lookup', async () => {
+    const page = fakePage(selector => (selector.includes('a[data-bi-id="Global_DailySet_20261019_Child1"]') ? 1 : 0));
+
+    const located: any = await locateOffer(page, offer, builtInSelectors());
+
+    expect(located!.link.selector).toContain('a[href="https://www.bing.com/search?q=alps"]');
+    expect(located!.link.count).toHaveBeenCalledTimes(1);
+    expect(located!.card.selector).toMatch(/^mee-card >> /);
+  });
+
+  it('should fall back to the card title, then give up', async () => {
+    const byTitle: any = await locateOffer(
+      fakePage(selector => (selector === 'mee-card >> Tour the Alps' ? 1 : 0)),
+      offer,
+      builtInSelectors(),
+    );
+    expect(byTitle!.link.selector).toBe('mee-card >> Tour the Alps a');
+
+    expect(await locateOffer(fakePage(() => 0), offer, builtInSelectors())).toBeNull();
+  });
+});
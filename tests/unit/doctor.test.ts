@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { runDoctorChecks } from '../../src/cli/commands/doctor';
+import { getDefaultConfig } from '../../src/core/config';
+import { AcknowledgementStore } from '../../src/core/safety';
+import * as edgeProfiles from '../../src/utils/edge-profiles';
+
+vi.mock('../../src/utils/edge-profiles', () => ({
+  scanEdgeProfiles: vi.fn(),
+  resolveProfileByName: vi.fn(),
+  getEdgeUserDataDir: vi.fn(() => '/home/me/.config/microsoft-edge'),
+}));
+
+describe('runDoctorChecks', () => {
+  let dir: string;
+  let acknowledgements: AcknowledgementStore;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'rewards-doctor-'));
+    acknowledgements = new AcknowledgementStore(join(dir, 'ack.json'));
+    vi.mocked(edgeProfiles.scanEdgeProfiles).mockReturnValue([
+      { folderName: 'Profile 1', displayName: 'Work', email: '', gaiaName: '' },
+    ]);
+    vi.mocked(edgeProfiles.resolveProfileByName).mockImplementation(name =>
+      name === 'Work' ? { userDataDir: '/edge', profileDir: 'Profile 1' } : null,
+    );
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const statusOf = (checks: ReturnType<typeof runDoctorChecks>, name: string) =>
+    checks.find(c => c.name === name)?.status;
+
+  it('should pass a healthy setup', () => {
+    acknowledgements.record('Profile 1');
+    const checks = runDoctorChecks(
+      { ...getDefaultConfig(), profileName: 'Work', channel: 'chromium' },
+      { nodeVersion: '20.11.0', exists: () => true, writable: () => true, acknowledgements },
+    );
+
+    expect(checks.every(c => c.status === 'ok')).toBe(true);
+    expect(statusOf(checks, 'Profile "Work"')).toBe('ok');
+    expect(statusOf(checks, 'TOS notice (Work)')).toBe('ok');
+  });
+
+  it('should fail on old Node.js, a missing browser and unknown profiles', () => {
+    const checks = runDoctorChecks(
+      { ...getDefaultConfig(), profileNames: ['Work', 'Ghost'] },
+      { nodeVersion: '18.19.0', exists: () => false, writable: () => true, acknowledgements },
+    );
+
+    expect(statusOf(checks, 'Node.js')).toBe('fail');
+    expect(statusOf(checks, 'Browser')).toBe('fail');
+    expect(checks.find(c => c.name === 'Browser')!.detail).toMatch(/Searched:/);
+    expect(statusOf(checks, 'Profile "Ghost"')).toBe('fail');
+    expect(statusOf(checks, 'Query bank')).toBe('warn');
+    expect(statusOf(checks, 'TOS notice (Work)')).toBe('warn');
+  });
+
+  it('should only warn when no Edge profiles exist', () => {
+    vi.mocked(edgeProfiles.scanEdgeProfiles).mockReturnValue([]);
+
+    const checks = runDoctorChecks(getDefaultConfig(), { exists: () => true, writable: () => false, acknowledgements });
+
+    expect(statusOf(checks, 'Edge profiles')).toBe('warn');
+    expect(statusOf(checks, 'Data directory')).toBe('fail');
+  });
+
+  it('should fail on a broken selector override file', () => {
+    writeFileSync(join(dir, 'rewards.selectors.json'), '{"version": 1, "selectors": {"cards": ["x"]}}');
+    const checks = runDoctorChecks(getDefaultConfig(), {
+      nodeVersion: '20.11.0',
+      exists: () => true,
+      writable: () => true,
+      cwd: dir,
+      acknowledgements,
+    });
+
+    expect(statusOf(checks, 'Selector pack')).toBe('fail');
+    expect(checks.find(c => c.name === 'Selector pack')!.detail).toMatch(/selectors/);
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { randomDelay, generateMousePath, Humanizer } from '../../src/utils/humanizer';
+import { Random } from '../../src/utils/random';
 
 describe('randomDelay', () => {
   it('should return a promise that resolves', async () => {
@@ -65,6 +66,13 @@ describe('generateMousePath', () => {
     expect(hasDeviation || path.length > 0).toBe(true);
   });
 
+  it('should be reproducible with a seeded generator', () => {
+    const first = generateMousePath(0, 0, 100, 100, 10, new Random(123));
+    const second = generateMousePath(0, 0, 100, 100, 10, new Random(123));
+
+    expect(second).toEqual(first);
+  });
+
   it('should use default steps when not specified', () => {
     const path = generateMousePath(0, 0, 100, 100);
     expect(path.length).toBe(51); // Default 50 steps + 1
@@ -136,6 +144,16 @@ describe('Humanizer', () => {
     });
   });
 
+  it('should move along the same path for the same seed', async () => {
+    await new Humanizer(new Random(5)).clickHuman(mockPage, '#a');
+    const firstMoves = mockMouse.move.mock.calls.slice();
+    mockMouse.move.mockClear();
+
+    await new Humanizer(new Random(5)).clickHuman(mockPage, '#a');
+
+    expect(mockMouse.move.mock.calls).toEqual(firstMoves);
+  });
+
   describe('typeHuman', () => {
     it('should click to focus then type each character', async () => {
       await humanizer.typeHuman(mockPage, '#input', 'hi');
@@ -155,4 +173,52 @@ describe('Humanizer', () => {
       expect(mockKeyboard.type).not.toHaveBeenCalled();
     });
   });
+
+  describe('tapHuman', () => {
+    it('should tap a point inside the element without moving the mouse', async () => {
+      mockPage.touchscreen = { tap: vi.fn().mockResolvedValue(undefined) };
+
+      await humanizer.tapHuman(mockPage, '#search');
+
+      expect(mockPage.touchscreen.tap).toHaveBeenCalledTimes(1);
+      const [x, y] = mockPage.touchscreen.tap.mock.calls[0];
+      expect(x).toBeGreaterThanOrEqual(100);
+      expect(x).toBeLessThanOrEqual(150);
+      expect(y).toBeGreaterThanOrEqual(100);
+      expect(y).toBeLessThanOrEqual(130);
+      expect(mockMouse.move).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('swipeScroll', () => {
+    it('should send a touch scroll gesture and detach the session', async () => {
+      const session = {
+        send: vi.fn().mockResolvedValue(undefined),
+        detach: vi.fn().mockResolvedValue(undefined),
+      };
+      mockPage.viewportSize = () => ({ width: 400, height: 800 });
+      mockPage.context = () => ({ newCDPSession: vi.fn().mockResolvedValue(session) });
+
+      await humanizer.swipeScroll(mockPage, 500);
+
+      expect(session.send).toHaveBeenCalledWith(
+        'Input.synthesizeScrollGesture',
+        expect.objectContaining({ yDistance: -500, gestureSourceType: 'touch' }),
+      );
+      expect(session.detach).toHaveBeenCalled();
+    });
+  });
+
+  describe('scrollWheelHuman', () => {
+    it('should scroll the whole distance in several wheel notches', async () => {
+      mockMouse.wheel = vi.fn().mockResolvedValue(undefined);
+
+      await humanizer.scrollWheelHuman(mockPage, -450);
+
+      const deltas = mockMouse.wheel.mock.calls.map(([, dy]: number[]) => dy);
+      expect(deltas.length).toBeGreaterThan(2);
+      expect(deltas.every((dy: number) => dy < 0 && dy >= -140)).toBe(true);
+      expect(deltas.reduce((a: number, b: number) => a + b, 0)).toBe(-450);
+    });
+  });
 });
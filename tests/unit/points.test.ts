@@ -0,0 +1,88 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Page } from 'playwright';
+import { parsePoints, readPointsBalance, PointsTracker } from '../../src/core/points';
+
+function mockPage(options: { api?: unknown; apiOk?: boolean; text?: string | null }): Page {
+  return {
+    request: {
+      get: vi.fn().mockResolvedValue({
+        ok: () => options.apiOk ?? options.api !== undefined,
+        json: vi.fn().mockResolvedValue(options.api),
+      }),
+    },
+    locator: vi.fn().mockReturnValue({
+      first: vi.fn().mockReturnValue({
+        textContent: options.text === undefined
+          ? vi.fn().mockRejectedValue(new Error('Timeout'))
+          : vi.fn().mockResolvedValue(options.text),
+      }),
+    }),
+  } as unknown as Page;
+}
+
+describe('parsePoints', () => {
+  it('should parse balances with separators', () => {
+    expect(parsePoints('12,345')).toBe(12345);
+    expect(parsePoints(' 1 234 points')).toBe(1234);
+    expect(parsePoints('980')).toBe(980);
+  });
+
+  it('should return null without a number', () => {
+    expect(parsePoints('')).toBeNull();
+    expect(parsePoints(null)).toBeNull();
+    expect(parsePoints('points')).toBeNull();
+  });
+});
+
+describe('readPointsBalance', () => {
+  it('should prefer the user info API', async () => {
+    const page = mockPage({ api: { dashboard: { userStatus: { availablePoints: 4321 } } }, text: '1' });
+
+    expect(await readPointsBalance(page)).toBe(4321);
+    expect(page.locator).not.toHaveBeenCalled();
+  });
+
+  it('should read only the dashboard counter when the API is off', async () => {
+    const page = mockPage({ api: { dashboard: { userStatus: { availablePoints: 4321 } } }, text: '1,050' });
+
+    expect(await readPointsBalance(page, undefined, { api: false })).toBe(1050);
+    expect(page.request.get).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to the dashboard counter', async () => {
+    const page = mockPage({ apiOk: false, text: '1,050' });
+
+    expect(await readPointsBalance(page)).toBe(1050);
+  });
+
+  it('should return null when nothing is readable', async () => {
+    expect(await readPointsBalance(mockPage({ apiOk: false }))).toBeNull();
+    expect(await readPointsBalance({} as Page)).toBeNull();
+  });
+});
+
+describe('PointsTracker', () => {
+  it('should report the change since the previous reading', async () => {
+    const balances = [100, 110, 110, 125];
+    const tracker = new PointsTracker(async () => balances.shift() ?? null);
+
+    await tracker.read();
+    expect(await tracker.delta()).toBe(10);
+    expect(await tracker.delta()).toBe(0);
+    expect(await tracker.delta()).toBe(15);
+    expect(tracker.range).toEqual({ start: 100, end: 125 });
+  });
+
+  it('should return null when a reading fails and resume afterwards', async () => {
+    const balances: (number | null)[] = [100, null, 120];
+    const tracker = new PointsTracker(async () => balances.shift() ?? null);
+
+    await tracker.read();
+    expect(await tracker.delta()).toBeNull();
+    expect(await tracker.delta()).toBe(20);
+  });
+
+  it('should have no range before a successful reading', () => {
+    expect(new PointsTracker(async () => null).range).toBeNull();
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PunchCardHandler, classifyPunchCardTask } from '../../src/handlers/punch-card-handler';
+import { PunchCardStore } from '../../src/core/punch-cards';
+import { TabManager } from '../../src/core/tabs';
+import { RateLimiter } from '../../src/core/rate-limiter';
+import type { BrowserAdapter } from '../../src/core/browser-adapter';
+
+// Mock the humanizer module to avoid real delays in tests
+vi.mock('../../src/utils/humanizer', () => ({
+  randomDelay: vi.fn().mockResolvedValue(undefined),
+}));
+
+const CARD_URL = 'https://rewards.bing.com/punchcard/weekly';
+
+describe('classifyPunchCardTask', () => {
+  it('should sort tasks into click, search and unsupported', () => {
+    expect(classifyPunchCardTask('Visit the Xbox page')).toBe('click');
+    expect(classifyPunchCardTask('Search on Bing for recipes')).toBe('search');
+    expect(classifyPunchCardTask('Buy a game in the Microsoft Store')).toBe('unsupported');
+    expect(classifyPunchCardTask('Take the weekly quiz')).toBe('unsupported');
+  });
+});
+
+describe('PunchCardHandler', () => {
+  let browser: BrowserAdapter;
+  let page: any;
+  let clickLocatorHuman: ReturnType<typeof vi.fn>;
+  let clearAndTypeHuman: ReturnType<typeof vi.fn>;
+  let done: Record<string, boolean>;
+
+  const row = (title: string, text: string, description?: string) => ({
+    textContent: vi.fn().mockResolvedValue(text),
+    locator: vi.fn().mockImplementation((selector: string) => {
+      if (selector.includes('SkypeCircleCheck')) {
+        return { count: vi.fn().mockImplementation(async () => (done[title] ? 1 : 0)) };
+      }
+      if (selector === 'a') return { first: () => ({ title, count: vi.fn().mockResolvedValue(1) }) };
+      if (selector === '.mee-paragraph' && description) {
+        return { count: vi.fn().mockResolvedValue(1), first: () => ({ textContent: vi.fn().mockResolvedValue(description) }) };
+      }
+      return {
+        count: vi.fn().mockResolvedValue(selector === 'h3' ? 1 : 0),
+        first: () => ({ textContent: vi.fn().mockResolvedValue(title) }),
+      };
+    }),
+  });
+
+  const setUp = (rows: ReturnType<typeof row>[], cards = 1) => {
+    const punchCard = {
+      isVisible: vi.fn().mockResolvedValue(true),
+      locator: vi.fn().mockImplementation((selector: string) => {
+        if (selector.includes('SkypeCircleCheck') || selector.includes('Lock')) {
+          return { count: vi.fn().mockResolvedValue(0) };
+        }
+        if (selector === 'a') return { first: () => ({ getAttribute: vi.fn().mockResolvedValue('/punchcard/weekly') }) };
+        return {
+          count: vi.fn().mockResolvedValue(selector === 'h3' ? 1 : 0),
+          first: () => ({ textContent: vi.fn().mockResolvedValue('Weekly streak') }),
+        };
+      }),
+    };
+    const section = { count: vi.fn().mockResolvedValue(cards), nth: () => punchCard };
+
+    page = {
+      url: () => CARD_URL,
+      context: () => ({ pages: () => [page], on: vi.fn(), off: vi.fn() }),
+      on: vi.fn(),
+      off: vi.fn(),
+      mainFrame: vi.fn(),
+      bringToFront: vi.fn().mockResolvedValue(undefined),
+      goto: vi.fn().mockResolvedValue(undefined),
+      keyboard: { press: vi.fn().mockResolvedValue(undefined) },
+      locator: vi.fn().mockImplementation((selector: string) => {
+        if (selector.includes('h1,h2,h3,h4')) {
+          return { filter: () => ({ first: () => ({ locator: () => ({ locator: () => section }) }) }) };
+        }
+        return { count: vi.fn().mockResolvedValue(rows.length), all: vi.fn().mockResolvedValue(rows) };
+      }),
+    };
+    clickLocatorHuman = vi.fn().mockImplementation(async (_page, link: { title: string }) => {
+      done[link.title] = true;
+    });
+    clearAndTypeHuman = vi.fn().mockResolvedValue(undefined);
+    browser = {
+      goto: vi.fn().mockResolvedValue(undefined),
+      humanizer: { clickLocatorHuman, clearAndTypeHuman },
+      tabs: new TabManager({ openTimeoutMs: 0 }),
+    } as unknown as BrowserAdapter;
+  };
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    done = { 'Already done': true };
+  });
+
+  it('should perform incomplete click and search tasks and save progress', async () => {
+    setUp([
+      row('Already done', 'Already done Visit the page'),
+      row('Visit Xbox', 'Visit Xbox Open the Xbox page'),
+      row('Search recipes', 'Search recipes Search on Bing for recipes', 'Search on Bing for recipes'),
+      row('Buy a game', 'Buy a game in the Store'),
+    ]);
+    const store = new PunchCardStore();
+
+    const result = await new PunchCardHandler(browser, {}, undefined, undefined, store).run(page);
+
+    expect(result.type).toBe('punchcard');
+    expect(result.status).toBe('ok');
+    expect(result.activities!.map(a => [a.title, a.kind, a.status])).toEqual([
+      ['Weekly streak: Visit Xbox', 'punchcard-click', 'clicked'],
+      ['Weekly streak: Search recipes', 'punchcard-search', 'clicked'],
+    ]);
+    // The search task types its query after following the link
+    expect(clearAndTypeHuman).toHaveBeenCalledTimes(1);
+    expect(clearAndTypeHuman).toHaveBeenCalledWith(page, '#sb_form_q, [name="q"]', 'recipes');
+    expect(page.keyboard.press).toHaveBeenCalledWith('Enter');
+    expect(browser.goto).toHaveBeenCalledWith(CARD_URL);
+    expect(store.get(CARD_URL)).toMatchObject({ totalTasks: 4, completedTasks: 3 });
+    expect(result.meta!.punchCards).toEqual([{ title: 'Weekly streak', completed: 3, total: 4 }]);
+  });
+
+  it('should skip cards finished on an earlier run without opening them', async () => {
+    setUp([row('Already done', 'Already done')]);
+    const store = new PunchCardStore();
+    store.record({ title: 'Weekly streak', url: CARD_URL }, [
+      { title: 'Already done', kind: 'click', completed: true },
+    ]);
+
+    const result = await new PunchCardHandler(browser, {}, undefined, undefined, store).run(page);
+
+    expect(result.status).toBe('skipped');
+    expect(result.meta).toEqual({ reason: 'No open punch cards' });
+    expect(browser.goto).not.toHaveBeenCalledWith(CARD_URL);
+  });
+
+  it('should stop at maxTasks', async () => {
+    setUp([row('One', 'One'), row('Two', 'Two'), row('Three', 'Three')]);
+
+    const result = await new PunchCardHandler(browser, { maxTasks: 2 }).run(page);
+
+    expect(result.activities).toHaveLength(2);
+    expect(clickLocatorHuman).toHaveBeenCalledTimes(2);
+  });
+
+  it('should count failed tasks toward maxTasks', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    setUp([row('One', 'One'), row('Two', 'Two'), row('Three', 'Three')]);
+    clickLocatorHuman.mockRejectedValue(new Error('detached'));
+
+    const result = await new PunchCardHandler(browser, { maxTasks: 2 }).run(page);
+
+    expect(result.status).toBe('failed');
+    expect(result.activities!.map(a => a.status)).toEqual(['failed', 'failed']);
+    expect(clickLocatorHuman).toHaveBeenCalledTimes(2);
+  });
+
+  it('should defer a search task without budget for both its click and its search', async () => {
+    setUp([row('Search recipes', 'Search on Bing for recipes')]);
+    const limiter = new RateLimiter({ maxActionsPerHour: 1 });
+
+    const result = await new PunchCardHandler(browser, {}, limiter).run(page);
+
+    expect(result.activities).toEqual([
+      { title: 'Weekly streak: Search recipes', kind: 'punchcard-search', status: 'deferred' },
+    ]);
+    expect(clickLocatorHuman).not.toHaveBeenCalled();
+    expect(limiter.remaining()).toBe(1);
+  });
+
+  it('should neither click nor save progress in dry-run mode', async () => {
+    setUp([row('Visit Xbox', 'Visit Xbox')]);
+    const store = new PunchCardStore();
+
+    const result = await new PunchCardHandler(browser, { dryRun: true }, undefined, undefined, store).run(page);
+
+    expect(result.activities![0]!.status).toBe('clicked');
+    expect(clickLocatorHuman).not.toHaveBeenCalled();
+    expect(store.list()).toEqual([]);
+  });
+});
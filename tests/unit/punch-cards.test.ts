@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { PunchCardStore, type PunchCardTask } from '../../src/core/punch-cards';
+
+const tasks = (...completed: boolean[]): PunchCardTask[] =>
+  completed.map((done, i) => ({ title: `Task ${i + 1}`, kind: 'click', completed: done }));
+
+describe('PunchCardStore', () => {
+  let dir: string;
+  let filePath: string;
+  const card = { title: 'Weekly streak', url: 'https://rewards.bing.com/punchcard/abc' };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'rewards-punch-'));
+    filePath = join(dir, 'punchcards.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should record progress and keep one history entry per day', () => {
+    const store = new PunchCardStore({ filePath, now: () => new Date('2026-03-01T10:00:00Z') });
+    store.record(card, tasks(true, false, false));
+    const progress = store.record(card, tasks(true, true, false));
+
+    expect(progress).toMatchObject({ totalTasks: 3, completedTasks: 2 });
+    expect(progress.history).toEqual([{ date: '2026-03-01', completed: 2, total: 3 }]);
+    expect(progress.tasks['Task 2']).toEqual({ kind: 'click', completedOn: '2026-03-01' });
+    expect(progress.tasks['Task 3']).toEqual({ kind: 'click' });
+  });
+
+  it('should carry progress across days and processes', () => {
+    let now = new Date('2026-03-01T10:00:00Z');
+    new PunchCardStore({ filePath, now: () => now }).record(card, tasks(true, false));
+    now = new Date('2026-03-02T10:00:00Z');
+    const progress = new PunchCardStore({ filePath, now: () => now }).record(card, tasks(true, true));
+
+    expect(progress.history.map(h => h.date)).toEqual(['2026-03-01', '2026-03-02']);
+    // The first completion date sticks
+    expect(progress.tasks['Task 1']!.completedOn).toBe('2026-03-01');
+    expect(progress.tasks['Task 2']!.completedOn).toBe('2026-03-02');
+  });
+
+  it('should report a card complete only when every task is done', () => {
+    const store = new PunchCardStore({ filePath });
+    expect(store.isComplete(card.url)).toBe(false);
+
+    store.record(card, tasks(true, false));
+    expect(store.isComplete(card.url)).toBe(false);
+
+    store.record(card, tasks(true, true));
+    expect(store.isComplete(card.url)).toBe(true);
+  });
+
+  it('should keep profiles apart', () => {
+    new PunchCardStore({ filePath, profileKey: 'Profile 1' }).record(card, tasks(true));
+
+    expect(new PunchCardStore({ filePath, profileKey: 'Profile 2' }).list()).toEqual([]);
+    expect(new PunchCardStore({ filePath, profileKey: 'Profile 1' }).list()).toHaveLength(1);
+  });
+});
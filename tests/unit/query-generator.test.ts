@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { LocalQueryGenerator, createQueryGenerator } from '../../src/utils/query-generator';
+import { QueryHistory } from '../../src/utils/query-history';
+import { Random } from '../../src/utils/random';
+
+describe('LocalQueryGenerator', () => {
+  it('should return the requested number of distinct queries', async () => {
+    const queries = await new LocalQueryGenerator(new Random(1)).generate(30);
+
+    expect(queries).toHaveLength(30);
+    expect(new Set(queries).size).toBe(30);
+    expect(queries.every(q => q.length > 0 && !q.includes('{topic}'))).toBe(true);
+  });
+
+  it('should repeat the same queries for the same seed', async () => {
+    const first = await new LocalQueryGenerator(new Random(42)).generate(10);
+    const second = await createQueryGenerator('local', new Random(42)).generate(10);
+
+    expect(second).toEqual(first);
+    expect(await new LocalQueryGenerator(new Random(43)).generate(10)).not.toEqual(first);
+  });
+
+  it('should fill template slots from the locale word lists', async () => {
+    const queries = await new LocalQueryGenerator(new Random(7), { locale: 'de-DE' }).generate(500);
+
+    expect(queries.length).toBeGreaterThan(100);
+    expect(queries.some(q => / in (Berlin|Hamburg|München|Köln|Leipzig|Freiburg)$/.test(q))).toBe(true);
+    expect(queries.every(q => !/[{}]/.test(q))).toBe(true);
+    // The English search-intent terms only go with English corpora
+    expect(queries).not.toContain('usd to rmb');
+  });
+
+  it('should leave out queries searched within the history window', async () => {
+    const history = new QueryHistory({ days: 14 });
+    const generator = new LocalQueryGenerator(new Random(3), { history });
+    const [first, second] = await generator.generate(2);
+    generator.markUsed(first!);
+
+    const all = await new LocalQueryGenerator(new Random(3), { history }).generate(10_000);
+
+    expect(all).not.toContain(first);
+    expect(all).toContain(second);
+  });
+});
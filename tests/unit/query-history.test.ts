@@ -0,0 +1,54 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { QueryHistory, normalizeQuery } from '../../src/utils/query-history';
+
+describe('QueryHistory', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'rewards-queries-'));
+    filePath = join(dir, 'queries.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should keep a searched query off the list for the configured days', () => {
+    let now = new Date('2026-03-01T10:00:00Z');
+    const history = new QueryHistory({ filePath, days: 3, now: () => now });
+    history.record('Banana  Bread');
+
+    expect(history.isRecent('banana bread')).toBe(true);
+    // Another process reading the same file sees it too
+    expect(new QueryHistory({ filePath, days: 3, now: () => now }).recent()).toEqual(new Set(['banana bread']));
+
+    now = new Date('2026-03-04T11:00:00Z');
+    expect(history.isRecent('banana bread')).toBe(false);
+  });
+
+  it('should drop expired queries on the next write and track profiles separately', () => {
+    let now = new Date('2026-03-01T10:00:00Z');
+    const work = new QueryHistory({ filePath, profileKey: 'Profile 1', days: 1, now: () => now });
+    const personal = new QueryHistory({ filePath, profileKey: 'Profile 2', days: 1, now: () => now });
+    work.record('kayaking');
+    personal.record('stargazing');
+
+    now = new Date('2026-03-03T10:00:00Z');
+    work.record('cold brew');
+
+    expect(work.recent()).toEqual(new Set(['cold brew']));
+    expect(personal.isRecent('kayaking')).toBe(false);
+    expect(normalizeQuery('  Cold   Brew ')).toBe('cold brew');
+  });
+
+  it('should record nothing when days is 0', () => {
+    const history = new QueryHistory({ days: 0 });
+    history.record('kayaking');
+
+    expect(history.recent().size).toBe(0);
+  });
+});
@@ -0,0 +1,258 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { QuizHandler } from '../../src/handlers/quiz-handler';
+import { ActivityLedger } from '../../src/core/activity-ledger';
+import { classifyInteractiveCard } from '../../src/handlers/dashboard';
+import type { BrowserAdapter } from '../../src/core/browser-adapter';
+import { RateLimiter } from '../../src/core/rate-limiter';
+import { QuotaTracker } from '../../src/core/quota';
+import { TabManager } from '../../src/core/tabs';
+import { Random } from '../../src/utils/random';
+
+// Mock the humanizer module to avoid real delays in tests
+vi.mock('../../src/utils/humanizer', () => ({
+  randomDelay: vi.fn().mockResolvedValue(undefined),
+}));
+
+describe('classifyInteractiveCard', () => {
+  it('should recognize quiz, poll and This or That cards', () => {
+    expect(classifyInteractiveCard('Supersonic quiz Answer questions')).toBe('quiz');
+    expect(classifyInteractiveCard('Test your smarts')).toBe('quiz');
+    expect(classifyInteractiveCard('Daily poll Pick a side')).toBe('poll');
+    expect(classifyInteractiveCard('This or That? Guess the answer in this quiz')).toBe('this-or-that');
+  });
+
+  it('should return null for plain click cards', () => {
+    expect(classifyInteractiveCard('Explore on Bing Search for hiking trails')).toBeNull();
+  });
+});
+
+describe('QuizHandler', () => {
+  let browser: BrowserAdapter;
+  let page: any;
+  let clickLocatorHuman: ReturnType<typeof vi.fn>;
+  let quiz: { question: number; questions: number; correct: number; done: boolean };
+  let balance: number;
+  let startVisible: boolean;
+
+  const card = (text: string, title: string) => ({
+    isVisible: vi.fn().mockResolvedValue(true),
+    textContent: vi.fn().mockResolvedValue(text),
+    locator: vi.fn().mockImplementation((selector: string) => {
+      if (selector.includes('SkypeCircleCheck') || selector.includes('Lock')) {
+        return { count: vi.fn().mockResolvedValue(0) };
+      }
+      if (selector === 'a') return { first: () => ({ count: vi.fn().mockResolvedValue(1) }) };
+      return {
+        count: vi.fn().mockResolvedValue(selector === 'h3' ? 1 : 0),
+        first: () => ({ textContent: vi.fn().mockResolvedValue(title) }),
+      };
+    }),
+  });
+
+  const option = (index: number) => ({ index, isVisible: vi.fn().mockResolvedValue(true) });
+
+  const setUp = (cards: ReturnType<typeof card>[]) => {
+    const dailySet = { count: vi.fn().mockResolvedValue(cards.length), nth: (i: number) => cards[i] };
+    const empty = { count: vi.fn().mockResolvedValue(0) };
+    const heading = (section: unknown) => ({ locator: () => ({ locator: () => section }) });
+
+    page = {
+      context: () => ({ pages: () => [page], on: vi.fn(), off: vi.fn() }),
+      on: vi.fn(),
+      off: vi.fn(),
+      mainFrame: vi.fn(),
+      bringToFront: vi.fn().mockResolvedValue(undefined),
+      request: {
+        get: vi.fn().mockImplementation(async () => ({
+          ok: () => true,
+          json: async () => ({ dashboard: { userStatus: { availablePoints: balance } } }),
+        })),
+      },
+      locator: vi.fn().mockImplementation((selector: string) => {
+        if (selector.includes('h1,h2,h3,h4')) {
+          return {
+            filter: ({ hasText }: { hasText: RegExp }) => ({
+              first: () => heading(hasText.test('Daily set') ? dailySet : empty),
+            }),
+          };
+        }
+        if (selector.includes('rqAnswerOption')) {
+          return { all: vi.fn().mockResolvedValue([0, 1, 2, 3].map(option)) };
+        }
+        if (selector.includes('btoption')) {
+          return { all: vi.fn().mockResolvedValue([option(0), option(1)]) };
+        }
+        if (selector.includes('quizCompleteContainer')) {
+          return { first: () => ({ isVisible: vi.fn().mockImplementation(async () => quiz.done) }) };
+        }
+        if (selector.includes('rqStartQuiz')) {
+          return { first: () => ({ isVisible: vi.fn().mockImplementation(async () => startVisible) }) };
+        }
+        // Question text and progress counter
+        return {
+          count: vi.fn().mockResolvedValue(0),
+          first: () => ({ textContent: vi.fn().mockImplementation(async () => `Q${quiz.question}`) }),
+        };
+      }),
+    };
+
+    clickLocatorHuman = vi.fn().mockImplementation(async (_page, target: { index?: number }) => {
+      if (target.index === quiz.correct) {
+        quiz.question++;
+        quiz.done = quiz.question > quiz.questions;
+        // A finished quiz is credited 10 points
+        if (quiz.done) balance += 10;
+      }
+    });
+    browser = {
+      goto: vi.fn().mockResolvedValue(undefined),
+      humanizer: { clickLocatorHuman },
+      tabs: new TabManager({ openTimeoutMs: 0 }),
+    } as unknown as BrowserAdapter;
+  };
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    quiz = { question: 1, questions: 3, correct: 2, done: false };
+    balance = 1000;
+    startVisible = false;
+  });
+
+  it('should skip when there are no quiz cards', async () => {
+    setUp([card('Explore on Bing', 'Explore')]);
+    const result = await new QuizHandler(browser).run(page);
+
+    expect(result.type).toBe('quiz');
+    expect(result.status).toBe('skipped');
+    expect(result.meta).toEqual({ reason: 'No unanswered quizzes' });
+  });
+
+  it('should answer every question, retrying wrong options', async () => {
+    setUp([card('Lightspeed quiz', 'Lightspeed quiz')]);
+    const result = await new QuizHandler(browser, {}, undefined, new Random(7)).run(page);
+
+    expect(result.status).toBe('ok');
+    const activity = result.activities![0]!;
+    expect(activity).toMatchObject({ title: 'Lightspeed quiz', kind: 'quiz', status: 'clicked' });
+    expect(activity.questions!.map(q => q.status)).toEqual(['answered', 'answered', 'answered']);
+    expect(activity.questions!.every(q => q.tries >= 1 && q.tries <= 4)).toBe(true);
+    // Card click plus one click per try
+    const tries = activity.questions!.reduce((sum, q) => sum + q.tries, 0);
+    expect(clickLocatorHuman).toHaveBeenCalledTimes(1 + tries);
+  });
+
+  it('should credit each card with the points it earned', async () => {
+    setUp([card('Lightspeed quiz', 'Lightspeed quiz')]);
+    const ledger = new ActivityLedger();
+    const result = await new QuizHandler(browser, {}, undefined, new Random(7), ledger).run(page);
+
+    expect(result.activities![0]).toMatchObject({ status: 'clicked', points: 10 });
+    expect(ledger.list()[0]!.days[0]!.outcomes).toMatchObject([{ handler: 'quiz', status: 'clicked', points: 10 }]);
+  });
+
+  it('should answer a poll with a single click', async () => {
+    setUp([card('Daily poll', 'Daily poll')]);
+    const result = await new QuizHandler(browser).run(page);
+
+    expect(result.activities![0]).toMatchObject({
+      kind: 'poll',
+      status: 'clicked',
+      questions: [{ question: 1, tries: 1, status: 'answered' }],
+    });
+  });
+
+  it('should report a question whose options never advance as failed', async () => {
+    quiz.correct = 99;
+    setUp([card('Supersonic quiz', 'Supersonic quiz')]);
+    const result = await new QuizHandler(browser).run(page);
+
+    expect(result.status).toBe('failed');
+    expect(result.activities![0]!.questions).toEqual([{ question: 1, tries: 4, status: 'failed' }]);
+  });
+
+  it('should skip a quiz that already failed quarantineAfterFailures times today', async () => {
+    quiz.correct = 99;
+    setUp([card('Supersonic quiz', 'Supersonic quiz')]);
+    const ledger = new ActivityLedger();
+    const handler = new QuizHandler(browser, { quarantineAfterFailures: 1 }, undefined, undefined, ledger);
+
+    await handler.run(page);
+    expect(ledger.list()).toMatchObject([{ title: 'Supersonic quiz', kind: 'quiz', days: [{ failures: 1 }] }]);
+
+    const result = await handler.run(page);
+    expect(result.status).toBe('skipped');
+    expect(result.activities).toEqual([]);
+  });
+
+  it('should defer cards once the hourly budget is spent', async () => {
+    setUp([card('Daily poll', 'Daily poll'), card('Lightspeed quiz', 'Lightspeed quiz')]);
+    const limiter = new RateLimiter({ maxActionsPerHour: 1 });
+    limiter.tryAcquire('click');
+
+    const result = await new QuizHandler(browser, {}, limiter).run(page);
+
+    expect(result.status).toBe('skipped');
+    expect(result.activities!.map(a => a.status)).toEqual(['deferred', 'deferred']);
+    expect(clickLocatorHuman).not.toHaveBeenCalled();
+  });
+
+  it('should defer a quiz the hourly budget cuts short without counting a failure', async () => {
+    quiz.correct = 99;
+    setUp([card('Supersonic quiz', 'Supersonic quiz')]);
+    // The card click plus two tries on the first question
+    const limiter = new RateLimiter({ maxActionsPerHour: 3 });
+    const ledger = new ActivityLedger();
+
+    const result = await new QuizHandler(browser, { quarantineAfterFailures: 1 }, limiter, undefined, ledger).run(page);
+
+    expect(result.status).toBe('skipped');
+    expect(result.activities![0]).toMatchObject({
+      status: 'deferred',
+      questions: [{ question: 1, tries: 2, status: 'deferred' }],
+    });
+    expect(result.meta).toEqual({ totalAnswered: 0, totalFailed: 0, deferredByRateLimit: 1 });
+    expect(ledger.list()).toEqual([]);
+  });
+
+  it('should defer a quiz when the budget runs out before its start button', async () => {
+    startVisible = true;
+    setUp([card('Lightspeed quiz', 'Lightspeed quiz')]);
+    // Only the card click fits
+    const limiter = new RateLimiter({ maxActionsPerHour: 1 });
+
+    const result = await new QuizHandler(browser, {}, limiter).run(page);
+
+    expect(result.activities![0]).toMatchObject({
+      status: 'deferred',
+      questions: [{ question: 1, tries: 0, status: 'deferred' }],
+    });
+    expect(clickLocatorHuman).toHaveBeenCalledTimes(1);
+  });
+
+  it('should leave the daily set alone once the daily-set quota is maxed', async () => {
+    setUp([card('Lightspeed quiz', 'Lightspeed quiz')]);
+    const quota = new QuotaTracker();
+    quota.update({ readAt: new Date().toISOString(), categories: { 'daily-set': { earned: 30, max: 30 } } });
+
+    const result = await new QuizHandler(browser, {}, undefined, undefined, undefined, quota).run(page);
+
+    expect(result.status).toBe('skipped');
+    expect(result.meta).toEqual({ reason: 'No unanswered quizzes' });
+    expect(clickLocatorHuman).not.toHaveBeenCalled();
+  });
+
+  it('should only log in dry-run mode', async () => {
+    setUp([card('This or That?', 'This or That?')]);
+    const result = await new QuizHandler(browser, { dryRun: true }).run(page);
+
+    expect(result.activities).toEqual([{ title: 'This or That?', kind: 'this-or-that', status: 'clicked' }]);
+    expect(clickLocatorHuman).not.toHaveBeenCalled();
+  });
+
+  it('should leave quiz kinds missing from activityKinds alone', async () => {
+    setUp([card('Daily poll', 'Daily poll'), card('Lightspeed quiz', 'Lightspeed quiz')]);
+    const result = await new QuizHandler(browser, { dryRun: true, activityKinds: ['quiz'] }).run(page);
+
+    expect(result.activities).toEqual([{ title: 'Lightspeed quiz', kind: 'quiz', status: 'clicked' }]);
+  });
+});
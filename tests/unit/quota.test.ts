@@ -0,0 +1,186 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import type { Page } from 'playwright';
+import {
+  QuotaStore,
+  QuotaTracker,
+  formatQuota,
+  parseBreakdown,
+  parseProgress,
+  quotaCategory,
+  readQuotaStatus,
+} from '../../src/core/quota';
+import type { QuotaStatus } from '../../src/types';
+
+const none = () => ({ count: vi.fn().mockResolvedValue(0) });
+const text = (value: string) => ({
+  count: vi.fn().mockResolvedValue(1),
+  first: () => ({ textContent: vi.fn().mockResolvedValue(value) }),
+});
+
+// A breakdown row with its title and progress under the built-in selectors
+const row = (title: string, progress: string) => ({
+  locator: (selector: string) =>
+    selector === '.title-detail a' ? text(title) : selector === '.pointsDetail' ? text(progress) : none(),
+});
+
+function breakdownPage(rows: ReturnType<typeof row>[] | null) {
+  const link = { click: vi.fn().mockResolvedValue(undefined) };
+  const page = {
+    locator: vi.fn((selector: string) => {
+      if (selector === '#dailypointColumnCalltoAction') {
+        return { count: vi.fn().mockResolvedValue(rows ? 1 : 0), first: () => link };
+      }
+      if (selector.includes(', ')) {
+        return { first: () => ({ waitFor: vi.fn().mockResolvedValue(undefined) }) };
+      }
+      if (selector === '.pointsBreakdownCard') {
+        return { count: vi.fn().mockResolvedValue(rows?.length ?? 0), all: vi.fn().mockResolvedValue(rows) };
+      }
+      return none();
+    }),
+    keyboard: { press: vi.fn().mockResolvedValue(undefined) },
+  };
+  return { page: page as unknown as Page, link, keyboard: page.keyboard };
+}
+
+describe('parseProgress', () => {
+  it('should read earned and max points', () => {
+    expect(parseProgress('45 / 90')).toEqual({ earned: 45, max: 90 });
+    expect(parseProgress('1,200/1,500 points')).toEqual({ earned: 1200, max: 1500 });
+  });
+
+  it('should return null without both numbers', () => {
+    expect(parseProgress('45 points')).toBeNull();
+    expect(parseProgress('')).toBeNull();
+    expect(parseProgress(null)).toBeNull();
+  });
+});
+
+describe('quotaCategory', () => {
+  it('should map breakdown titles to categories', () => {
+    expect(quotaCategory('PC search')).toBe('pc-search');
+    expect(quotaCategory('Bing search')).toBe('pc-search');
+    expect(quotaCategory('Mobile search')).toBe('mobile-search');
+    expect(quotaCategory('Daily set')).toBe('daily-set');
+    expect(quotaCategory('Microsoft Edge bonus')).toBe('edge-bonus');
+    expect(quotaCategory('Other activities')).toBeNull();
+  });
+});
+
+describe('parseBreakdown', () => {
+  it('should keep known categories with readable progress', () => {
+    const readAt = new Date('2026-10-19T08:00:00Z');
+
+    expect(
+      parseBreakdown(
+        [
+          { title: 'PC search', progress: '45 / 90' },
+          { title: 'Mobile search', progress: 'Not available' },
+          { title: 'Other activities', progress: '10 / 10' },
+        ],
+        readAt,
+      ),
+    ).toEqual({ readAt: '2026-10-19T08:00:00.000Z', categories: { 'pc-search': { earned: 45, max: 90 } } });
+  });
+
+  it('should return null when no row is usable', () => {
+    expect(parseBreakdown([])).toBeNull();
+    expect(parseBreakdown([{ title: 'Other activities', progress: '10 / 10' }])).toBeNull();
+  });
+});
+
+describe('readQuotaStatus', () => {
+  it('should open the breakdown, read its rows and close it', async () => {
+    const { page, link, keyboard } = breakdownPage([
+      row('PC search', '30 / 90'),
+      row('Daily set', '30 / 30'),
+    ]);
+    const click = vi.fn().mockResolvedValue(undefined);
+
+    const status = await readQuotaStatus(page, { click, now: () => new Date('2026-10-19T08:00:00Z') });
+
+    expect(click).toHaveBeenCalledWith(link);
+    expect(status).toEqual({
+      readAt: '2026-10-19T08:00:00.000Z',
+      categories: { 'pc-search': { earned: 30, max: 90 }, 'daily-set': { earned: 30, max: 30 } },
+    });
+    expect(keyboard.press).toHaveBeenCalledWith('Escape');
+  });
+
+  it('should return null when the dashboard has no breakdown link', async () => {
+    const { page, keyboard } = breakdownPage(null);
+
+    expect(await readQuotaStatus(page)).toBeNull();
+    expect(keyboard.press).not.toHaveBeenCalled();
+  });
+});
+
+describe('QuotaStore', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'rewards-quota-'));
+    filePath = join(dir, 'quota.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const status = (earned: number): QuotaStatus => ({
+    readAt: '2026-10-19T08:00:00.000Z',
+    categories: { 'pc-search': { earned, max: 90 } },
+  });
+
+  it('should keep the latest reading per day and profile', () => {
+    let now = new Date('2026-10-18T10:00:00Z');
+    const work = new QuotaStore({ filePath, profileKey: 'Profile 1', now: () => now });
+    work.record(status(30));
+    now = new Date('2026-10-19T09:00:00Z');
+    work.record(status(45));
+    work.record(status(60));
+
+    // Another process reading the same file sees it too
+    expect(new QuotaStore({ filePath, profileKey: 'Profile 1', now: () => now }).current()).toEqual(status(60));
+    expect(work.list().map(d => d.date)).toEqual(['2026-10-18', '2026-10-19']);
+    expect(new QuotaStore({ filePath, profileKey: 'Profile 2', now: () => now }).current()).toBeUndefined();
+  });
+
+  it('should start a new day without a reading', () => {
+    let now = new Date('2026-10-18T10:00:00Z');
+    const store = new QuotaStore({ now: () => now });
+    store.record(status(90));
+
+    now = new Date('2026-10-19T10:00:00Z');
+    expect(store.current()).toBeUndefined();
+  });
+});
+
+describe('QuotaTracker', () => {
+  it('should report what is left per category', () => {
+    const tracker = new QuotaTracker();
+    expect(tracker.remaining('pc-search')).toBeNull();
+    expect(tracker.isMaxed('pc-search')).toBe(false);
+
+    tracker.update({
+      readAt: '2026-10-19T08:00:00.000Z',
+      categories: { 'pc-search': { earned: 45, max: 90 }, 'daily-set': { earned: 30, max: 30 } },
+    });
+
+    expect(tracker.remaining('pc-search')).toBe(45);
+    expect(tracker.isMaxed('daily-set')).toBe(true);
+    expect(tracker.remaining('mobile-search')).toBeNull();
+    expect(formatQuota(tracker.current!)).toBe('pc-search 45/90, daily-set 30/30');
+  });
+
+  it("should start from today's stored reading", () => {
+    const store = new QuotaStore();
+    store.record({ readAt: '2026-10-19T08:00:00.000Z', categories: { 'mobile-search': { earned: 60, max: 60 } } });
+
+    expect(new QuotaTracker(store).isMaxed('mobile-search')).toBe(true);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { Random, createSeed } from '../../src/utils/random';
+
+describe('Random', () => {
+  it('should produce the same sequence for the same seed', () => {
+    const a = new Random(42);
+    const b = new Random(42);
+
+    expect(Array.from({ length: 5 }, () => a.next())).toEqual(Array.from({ length: 5 }, () => b.next()));
+  });
+
+  it('should produce different sequences for different seeds', () => {
+    expect(new Random(1).next()).not.toBe(new Random(2).next());
+  });
+
+  it('should keep values in range', () => {
+    const random = new Random(7);
+    for (let i = 0; i < 200; i++) {
+      const n = random.next();
+      expect(n).toBeGreaterThanOrEqual(0);
+      expect(n).toBeLessThan(1);
+
+      const k = random.int(3, 5);
+      expect([3, 4, 5]).toContain(k);
+    }
+  });
+
+  it('should generate a seed when none is given', () => {
+    const random = new Random();
+
+    expect(Number.isInteger(random.seed)).toBe(true);
+    expect(random.seed).toBeGreaterThanOrEqual(0);
+    expect(createSeed()).toBeLessThanOrEqual(0xffffffff);
+  });
+
+  it('should derive streams from the seed alone', () => {
+    const used = new Random(5);
+    used.next();
+    used.next();
+
+    expect(used.derive('search').next()).toBe(new Random(5).derive('search').next());
+    expect(new Random(5).derive('search').next()).not.toBe(new Random(5).derive('mobilesearch').next());
+    expect(new Random(5).derive('search').next()).not.toBe(new Random(6).derive('search').next());
+  });
+
+  it('should pick and shuffle deterministically', () => {
+    const items = ['a', 'b', 'c', 'd'];
+
+    expect(new Random(9).pick(items)).toBe(new Random(9).pick(items));
+    expect(new Random(9).shuffle(items)).toEqual(new Random(9).shuffle(items));
+    expect(new Random(9).shuffle(items).sort()).toEqual(items);
+    expect(new Random(9).pick([])).toBeUndefined();
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { RateLimiter } from '../../src/core/rate-limiter';
+
+describe('RateLimiter', () => {
+  let dir: string;
+  let now: number;
+  const clock = () => now;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'rewards-limiter-'));
+    now = 1_700_000_000_000;
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should allow actions up to the hourly limit', () => {
+    const limiter = new RateLimiter({ maxActionsPerHour: 2, now: clock });
+
+    expect(limiter.tryAcquire('click')).toBe(true);
+    expect(limiter.tryAcquire('search')).toBe(true);
+    expect(limiter.tryAcquire('click')).toBe(false);
+    expect(limiter.remaining()).toBe(0);
+  });
+
+  it('should count refused actions as deferred', () => {
+    const limiter = new RateLimiter({ maxActionsPerHour: 1, now: clock });
+
+    limiter.tryAcquire('click');
+    limiter.tryAcquire('click');
+    limiter.tryAcquire('type');
+
+    expect(limiter.getDeferredCount()).toBe(2);
+  });
+
+  it('should free budget as actions leave the rolling window', () => {
+    const limiter = new RateLimiter({ maxActionsPerHour: 1, now: clock });
+
+    limiter.tryAcquire('click');
+    now += 30 * 60 * 1000;
+    expect(limiter.tryAcquire('click')).toBe(false);
+
+    now += 31 * 60 * 1000;
+    expect(limiter.tryAcquire('click')).toBe(true);
+  });
+
+  it('should share the budget across instances through the file', () => {
+    const filePath = join(dir, 'ratelimit.json');
+    const first = new RateLimiter({ maxActionsPerHour: 2, filePath, now: clock });
+    const second = new RateLimiter({ maxActionsPerHour: 2, filePath, now: clock });
+
+    expect(first.tryAcquire('click')).toBe(true);
+    expect(second.tryAcquire('click')).toBe(true);
+    expect(first.tryAcquire('click')).toBe(false);
+  });
+
+  it('should keep separate budgets per profile', () => {
+    const filePath = join(dir, 'ratelimit.json');
+    const work = new RateLimiter({ maxActionsPerHour: 1, filePath, profileKey: 'Work', now: clock });
+    const home = new RateLimiter({ maxActionsPerHour: 1, filePath, profileKey: 'Home', now: clock });
+
+    expect(work.tryAcquire('click')).toBe(true);
+    expect(home.tryAcquire('click')).toBe(true);
+    expect(work.tryAcquire('click')).toBe(false);
+  });
+
+  it('should not consume budget in dry-run', () => {
+    const limiter = new RateLimiter({ maxActionsPerHour: 1, dryRun: true, now: clock });
+
+    expect(limiter.tryAcquire('click')).toBe(true);
+    expect(limiter.tryAcquire('click')).toBe(true);
+    expect(limiter.remaining()).toBe(1);
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { buildRunReport, overallOutcome, profileOutcome, exitCodeFor } from '../../src/core/report';
+import { getDefaultConfig } from '../../src/core/config';
+import type { ProfileRunSummary } from '../../src/core/batch';
+import { ExitCode } from '../../src/types';
+
+const summary = (status: ProfileRunSummary['status'], profile = 'default'): ProfileRunSummary => ({
+  profile,
+  status,
+  records: [],
+  durationMs: 5,
+});
+
+describe('profileOutcome', () => {
+  it('should map profile statuses to run outcomes', () => {
+    expect(profileOutcome(summary('ok'))).toBe('success');
+    expect(profileOutcome(summary('skipped'))).toBe('success');
+    expect(profileOutcome(summary('failed'))).toBe('partial');
+    expect(profileOutcome(summary('not-logged-in'))).toBe('not-logged-in');
+    expect(profileOutcome(summary('error'))).toBe('fatal');
+  });
+});
+
+describe('overallOutcome', () => {
+  it('should be success when every profile succeeded', () => {
+    expect(overallOutcome(['success', 'success'])).toBe('success');
+  });
+
+  it('should be partial when some but not all profiles failed or crashed', () => {
+    expect(overallOutcome(['success', 'partial'])).toBe('partial');
+    expect(overallOutcome(['success', 'fatal'])).toBe('partial');
+  });
+
+  it('should be fatal only when every profile crashed', () => {
+    expect(overallOutcome(['fatal'])).toBe('fatal');
+    expect(overallOutcome(['fatal', 'fatal'])).toBe('fatal');
+  });
+
+  it('should prefer not-logged-in over other outcomes', () => {
+    expect(overallOutcome(['fatal', 'not-logged-in'])).toBe('not-logged-in');
+  });
+});
+
+describe('exitCodeFor', () => {
+  it('should give each outcome a distinct exit code', () => {
+    expect(exitCodeFor('success')).toBe(ExitCode.Success);
+    expect(exitCodeFor('partial')).toBe(ExitCode.PartialFailure);
+    expect(exitCodeFor('not-logged-in')).toBe(ExitCode.NotLoggedIn);
+    expect(exitCodeFor('fatal')).toBe(ExitCode.Fatal);
+  });
+});
+
+describe('buildRunReport', () => {
+  it('should include config, handler results and per-activity outcomes', () => {
+    const config = { ...getDefaultConfig(), randomSeed: 42 };
+    const report = buildRunReport(
+      config,
+      [
+        {
+          profile: 'Work',
+          status: 'failed',
+          durationMs: 1200,
+          records: [
+            {
+              id: 'click',
+              handler: 'ClickHandler',
+              result: {
+                type: 'click',
+                status: 'failed',
+                attempts: 1,
+                durationMs: 1000,
+                activities: [{ title: 'Daily poll', kind: 'standard', status: 'failed' }],
+              },
+            },
+          ],
+        },
+        { ...summary('error', 'Home'), error: 'boom', seed: 7 },
+      ],
+      { startedAt: new Date('2026-01-01T09:00:00Z'), finishedAt: new Date('2026-01-01T09:05:00Z') },
+    );
+
+    expect(report).toMatchObject({
+      version: 1,
+      startedAt: '2026-01-01T09:00:00.000Z',
+      finishedAt: '2026-01-01T09:05:00.000Z',
+      outcome: 'partial',
+      exitCode: ExitCode.PartialFailure,
+      pointsDelta: null,
+    });
+    expect(report.config.randomSeed).toBe(42);
+    expect(report.profiles[0]!.handlers[0]!.result.status).toBe('failed');
+    expect(report.profiles[0]!.activities).toEqual([
+      { title: 'Daily poll', kind: 'standard', status: 'failed', handler: 'ClickHandler' },
+    ]);
+    expect(report.profiles[1]).toMatchObject({ profile: 'Home', outcome: 'fatal', error: 'boom', seed: 7 });
+    expect(report.profiles[0]).not.toHaveProperty('seed');
+  });
+
+  it('should sum points per profile and across profiles', () => {
+    const withPoints = (points?: number): ProfileRunSummary['records'][number] => ({
+      id: 'click',
+      handler: 'ClickHandler',
+      result: { type: 'click', status: 'ok', attempts: 1, durationMs: 1, points },
+    });
+    const report = buildRunReport(
+      getDefaultConfig(),
+      [
+        { ...summary('ok', 'Work'), records: [withPoints(30), withPoints(10)] },
+        { ...summary('ok', 'Home'), records: [withPoints(undefined)] },
+      ],
+      { startedAt: new Date(0), finishedAt: new Date(1) },
+    );
+
+    expect(report.profiles.map(p => p.pointsDelta)).toEqual([40, null]);
+    expect(report.pointsDelta).toBe(40);
+  });
+
+  it('should round-trip through JSON', () => {
+    const report = buildRunReport(getDefaultConfig(), [summary('ok')], {
+      startedAt: new Date(0),
+      finishedAt: new Date(1000),
+    });
+
+    expect(JSON.parse(JSON.stringify(report))).toEqual(report);
+  });
+});
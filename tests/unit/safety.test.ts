@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join, resolve } from 'path';
+import {
+  AcknowledgementStore,
+  SafetyGateError,
+  ensureLiveRunAllowed,
+  isTestProfile,
+  liveProfileFor,
+} from '../../src/core/safety';
+import { getDefaultConfig } from '../../src/core/config';
+import { ExitCode, type ExtendedConfig } from '../../src/types';
+
+describe('ensureLiveRunAllowed', () => {
+  let dir: string;
+  let store: AcknowledgementStore;
+
+  const work = { key: 'Profile 1', names: ['Work', 'Profile 1'] };
+  const sandbox = { key: 'Profile 2', names: ['Sandbox', 'Profile 2'] };
+
+  const config = (overrides: Partial<ExtendedConfig> = {}): ExtendedConfig => ({
+    ...getDefaultConfig(),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'rewards-ack-'));
+    store = new AcknowledgementStore(join(dir, 'ack.json'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should allow dry runs without acknowledgement or --confirm', async () => {
+    await expect(
+      ensureLiveRunAllowed({ config: config({ dryRun: true }), profiles: [work], store, interactive: false }),
+    ).resolves.toBeUndefined();
+  });
+
+  it('should allow replays without acknowledgement or --confirm', async () => {
+    await expect(
+      ensureLiveRunAllowed({ config: config({ replayDir: './snap' }), profiles: [work], store, interactive: false }),
+    ).resolves.toBeUndefined();
+  });
+
+  it('should require --confirm for profiles that are not test accounts', async () => {
+    store.record(work.key);
+
+    const result = ensureLiveRunAllowed({ config: config(), profiles: [work], store, interactive: false });
+
+    await expect(result).rejects.toThrow(SafetyGateError);
+    await expect(result).rejects.toMatchObject({ exitCode: ExitCode.ConfirmationRequired });
+  });
+
+  it('should not require --confirm for profiles listed in testProfiles', async () => {
+    store.record(sandbox.key);
+
+    await expect(
+      ensureLiveRunAllowed({
+        config: config({ testProfiles: ['sandbox'] }),
+        profiles: [sandbox],
+        store,
+        interactive: false,
+      }),
+    ).resolves.toBeUndefined();
+  });
+
+  it('should fail non-interactive runs without a stored acknowledgement', async () => {
+    const result = ensureLiveRunAllowed({ config: config({ confirm: true }), profiles: [work], store, interactive: false });
+
+    await expect(result).rejects.toMatchObject({ exitCode: ExitCode.AcknowledgementRequired });
+    await expect(result).rejects.toThrow(/interactive terminal/);
+  });
+
+  it('should prompt once per profile and persist the acknowledgement', async () => {
+    const ask = vi.fn().mockResolvedValue('i agree');
+
+    await ensureLiveRunAllowed({ config: config({ confirm: true }), profiles: [work], store, interactive: true, ask });
+    await ensureLiveRunAllowed({
+      config: config({ confirm: true }),
+      profiles: [work],
+      store: new AcknowledgementStore(join(dir, 'ack.json')),
+      interactive: false,
+    });
+
+    expect(ask).toHaveBeenCalledTimes(1);
+    expect(store.has(sandbox.key)).toBe(false);
+  });
+
+  it('should reject a declined prompt without recording it', async () => {
+    const ask = vi.fn().mockResolvedValue('no');
+
+    await expect(
+      ensureLiveRunAllowed({ config: config({ confirm: true }), profiles: [work], store, interactive: true, ask }),
+    ).rejects.toMatchObject({ exitCode: ExitCode.AcknowledgementRequired });
+    expect(store.has(work.key)).toBe(false);
+  });
+
+  it('should key each custom user data dir separately', async () => {
+    const ask = vi.fn().mockResolvedValue('I AGREE');
+    const first = liveProfileFor(config({ userDataDir: './data-a' }));
+    const second = liveProfileFor(config({ userDataDir: './data-b' }));
+
+    await ensureLiveRunAllowed({ config: config({ confirm: true }), profiles: [first], store, interactive: true, ask });
+
+    expect(first.key).toBe(resolve('./data-a'));
+    expect(store.has(second.key)).toBe(false);
+    await expect(
+      ensureLiveRunAllowed({ config: config({ confirm: true }), profiles: [second], store, interactive: false }),
+    ).rejects.toMatchObject({ exitCode: ExitCode.AcknowledgementRequired });
+  });
+
+  it('should key an Edge profile by its folder', () => {
+    expect(liveProfileFor(config({ profileName: 'Work', profileDir: 'Profile 1' }))).toEqual(work);
+  });
+});
+
+describe('isTestProfile', () => {
+  it('should match any profile name case-insensitively', () => {
+    const config = { ...getDefaultConfig(), testProfiles: ['profile 2'] };
+
+    expect(isTestProfile(config, { key: 'Profile 2', names: ['Sandbox', 'Profile 2'] })).toBe(true);
+    expect(isTestProfile(config, { key: 'Default', names: ['Work', 'Default'] })).toBe(false);
+  });
+});
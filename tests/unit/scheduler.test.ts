@@ -0,0 +1,208 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { getEventListeners } from 'events';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Scheduler, parseWindow, localDateKey, runDaemon } from '../../src/core/scheduler';
+
+const at = (hour: number, minute = 0, day = 5) => new Date(2026, 0, day, hour, minute);
+
+describe('parseWindow', () => {
+  it('should parse HH:MM-HH:MM into minutes', () => {
+    expect(parseWindow('8:05-10:30')).toEqual({ id: '08:05-10:30', startMinutes: 485, endMinutes: 630 });
+  });
+
+  it('should reject malformed and inverted windows', () => {
+    expect(() => parseWindow('morning')).toThrow(/Expected HH:MM-HH:MM/);
+    expect(() => parseWindow('25:00-26:00')).toThrow(/Invalid time/);
+    expect(() => parseWindow('22:00-06:00')).toThrow(/must end after it starts/);
+  });
+});
+
+describe('Scheduler', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'rewards-schedule-'));
+    filePath = join(dir, 'schedule.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const create = (overrides: Partial<ConstructorParameters<typeof Scheduler>[0]> = {}) =>
+    new Scheduler({ windows: ['09:00-11:00'], profileKey: 'default', filePath, random: () => 0.5, ...overrides });
+
+  it('should pick a randomized time inside the window', () => {
+    const run = create().nextRun(at(7));
+
+    expect(run.date).toBe(localDateKey(at(7)));
+    expect(run.plannedAt).toBe(at(10).getTime());
+    expect(run.status).toBe('pending');
+  });
+
+  it('should never plan before now when starting mid-window', () => {
+    const run = create({ random: () => 0 }).nextRun(at(10));
+
+    expect(run.plannedAt).toBe(at(10).getTime());
+  });
+
+  it('should keep the planned time across restarts', () => {
+    const first = create({ random: () => 0.1 }).nextRun(at(7));
+    const second = create({ random: () => 0.9 }).nextRun(at(8));
+
+    expect(second.plannedAt).toBe(first.plannedAt);
+  });
+
+  it('should move to the next day once today is done', () => {
+    const scheduler = create();
+    scheduler.markDone(scheduler.nextRun(at(7)), at(10, 5).getTime());
+
+    const restarted = create().nextRun(at(10, 30));
+
+    expect(restarted.date).toBe(localDateKey(at(0, 0, 6)));
+  });
+
+  it('should mark a window missed after sleeping through it', () => {
+    const scheduler = create();
+    scheduler.nextRun(at(7));
+
+    const next = scheduler.nextRun(at(12));
+
+    expect(next.date).toBe(localDateKey(at(0, 0, 6)));
+  });
+
+  it('should skip windows already completed according to metrics', () => {
+    const metrics = { hasSuccessfulRunBetween: vi.fn().mockReturnValueOnce(true).mockReturnValue(false) };
+    const scheduler = create({ windows: ['09:00-11:00'], metrics });
+
+    const next = scheduler.nextRun(at(7));
+
+    expect(next.date).not.toBe(localDateKey(at(7)));
+    expect(metrics.hasSuccessfulRunBetween).toHaveBeenCalledWith(at(0).getTime(), at(11).getTime());
+  });
+
+  it('should not let its own late-finishing run cover the next window', () => {
+    const metrics = { hasSuccessfulRunBetween: vi.fn().mockReturnValue(false) };
+    const scheduler = create({ windows: ['09:00-11:00', '18:00-20:00'], metrics });
+    scheduler.markDone(scheduler.nextRun(at(7)), at(11, 10).getTime());
+
+    scheduler.nextRun(at(12));
+
+    expect(metrics.hasSuccessfulRunBetween).toHaveBeenLastCalledWith(at(11, 10).getTime() + 1, at(20).getTime());
+  });
+
+  it('should plan each window of the day in order', () => {
+    const scheduler = create({ windows: ['18:00-20:00', '09:00-11:00'] });
+    const morning = scheduler.nextRun(at(7));
+    scheduler.markDone(morning, at(10, 1).getTime());
+
+    expect(morning.windowId).toBe('09:00-11:00');
+    expect(scheduler.nextRun(at(10, 2)).windowId).toBe('18:00-20:00');
+  });
+
+  it('should keep state separate per profile', () => {
+    const work = create({ profileKey: 'Work' });
+    work.markDone(work.nextRun(at(7)), at(10).getTime());
+
+    const home = create({ profileKey: 'Home' }).nextRun(at(10, 30));
+
+    expect(home.date).toBe(localDateKey(at(7)));
+  });
+});
+
+describe('runDaemon', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'rewards-daemon-'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should sleep in ticks until the planned time, run once, then stop on abort', async () => {
+    let clock = at(7).getTime();
+    const stop = new AbortController();
+    const scheduler = new Scheduler({
+      windows: ['09:00-11:00'],
+      profileKey: 'default',
+      filePath: join(dir, 'schedule.json'),
+      random: () => 0.5,
+    });
+    const sleeps: number[] = [];
+    const runOnce = vi.fn().mockImplementation(async () => {
+      stop.abort();
+    });
+
+    await runDaemon(scheduler, runOnce, {
+      signal: stop.signal,
+      tickMs: 60 * 60 * 1000,
+      now: () => new Date(clock),
+      sleep: async ms => {
+        sleeps.push(ms);
+        clock += ms;
+      },
+    });
+
+    expect(runOnce).toHaveBeenCalledTimes(1);
+    expect(sleeps).toEqual([60 * 60 * 1000, 60 * 60 * 1000, 60 * 60 * 1000]);
+  });
+
+  it('should not leave an abort listener behind on each tick', async () => {
+    const stop = new AbortController();
+    const scheduler = new Scheduler({
+      windows: ['09:00-11:00'],
+      profileKey: 'default',
+      filePath: join(dir, 'schedule.json'),
+      random: () => 0.5,
+    });
+    const listeners: number[] = [];
+    let calls = 0;
+
+    await runDaemon(scheduler, vi.fn(), {
+      signal: stop.signal,
+      tickMs: 1,
+      now: () => {
+        listeners.push(getEventListeners(stop.signal, 'abort').length);
+        if (++calls > 40) stop.abort();
+        return at(7);
+      },
+    });
+
+    expect(Math.max(...listeners)).toBe(0);
+  });
+
+  it('should keep going when a scheduled run throws', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const stop = new AbortController();
+    const scheduler = new Scheduler({
+      windows: ['09:00-11:00'],
+      profileKey: 'default',
+      filePath: join(dir, 'schedule.json'),
+      random: () => 0,
+    });
+    let calls = 0;
+
+    await runDaemon(
+      scheduler,
+      async () => {
+        calls++;
+        throw new Error('browser crashed');
+      },
+      {
+        signal: stop.signal,
+        now: () => at(9, 30),
+        sleep: async () => {
+          stop.abort();
+        },
+      },
+    );
+
+    expect(calls).toBe(1);
+  });
+});
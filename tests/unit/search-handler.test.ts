@@ -0,0 +1,249 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { SearchHandler } from '../../src/handlers/search-handler';
+import { RateLimiter } from '../../src/core/rate-limiter';
+import { QuotaTracker } from '../../src/core/quota';
+import type { QuotaStatus } from '../../src/types';
+import type { BrowserAdapter } from '../../src/core/browser-adapter';
+import type { QueryGenerator } from '../../src/utils/query-generator';
+
+// Mock the humanizer module to avoid real delays in tests
+vi.mock('../../src/utils/humanizer', () => ({
+  randomDelay: vi.fn().mockResolvedValue(undefined),
+}));
+
+const fixedQueries = (...queries: string[]): QueryGenerator => ({
+  name: 'fixed',
+  generate: vi.fn().mockImplementation(async (count: number) => queries.slice(0, count)),
+});
+
+const quotaOf = (categories: QuotaStatus['categories']): QuotaTracker => {
+  const quota = new QuotaTracker();
+  quota.update({ readAt: new Date().toISOString(), categories });
+  return quota;
+};
+
+describe('SearchHandler', () => {
+  let browser: BrowserAdapter;
+  let page: any;
+  let clearAndTypeHuman: ReturnType<typeof vi.fn>;
+  let url: string;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    url = 'https://rewards.bing.com/';
+    page = {
+      url: () => url,
+      keyboard: {
+        press: vi.fn().mockImplementation(async () => {
+          url = 'https://www.bing.com/search?q=x';
+        }),
+      },
+      waitForLoadState: vi.fn().mockResolvedValue(undefined),
+    };
+    clearAndTypeHuman = vi.fn().mockResolvedValue(undefined);
+    browser = {
+      goto: vi.fn().mockImplementation(async (to: string) => {
+        url = to;
+      }),
+      humanizer: { clearAndTypeHuman },
+    } as unknown as BrowserAdapter;
+  });
+
+  it('should type each query into Bing and list the outcomes in meta', async () => {
+    const handler = new SearchHandler(browser, {}, undefined, undefined, fixedQueries('banana bread', 'kayaking'));
+
+    const result = await handler.run(page);
+
+    expect(result).toMatchObject({ type: 'search', status: 'ok', attempts: 2 });
+    expect(result.meta).toMatchObject({
+      generator: 'fixed',
+      totalSearched: 2,
+      totalFailed: 0,
+      deferredByRateLimit: 0,
+    });
+    expect((result.meta!.searches as any[]).map(s => [s.query, s.status])).toEqual([
+      ['banana bread', 'searched'],
+      ['kayaking', 'searched'],
+    ]);
+    expect(clearAndTypeHuman).toHaveBeenCalledWith(page, '#sb_form_q, [name="q"]', 'banana bread');
+    expect(page.keyboard.press).toHaveBeenCalledWith('Enter');
+    // Only the first search needs to open Bing; the second reuses the results page
+    expect(browser.goto).toHaveBeenCalledTimes(1);
+    expect(browser.goto).toHaveBeenCalledWith('https://www.bing.com/');
+  });
+
+  it('should ask the generator for maxSearches queries', async () => {
+    const generator = fixedQueries('a', 'b', 'c');
+    const result = await new SearchHandler(browser, { maxSearches: 2 }, undefined, undefined, generator).run(page);
+
+    expect(generator.generate).toHaveBeenCalledWith(2);
+    expect(result.attempts).toBe(2);
+  });
+
+  it('should defer searches once the hourly budget is spent', async () => {
+    const limiter = new RateLimiter({ maxActionsPerHour: 1 });
+    const handler = new SearchHandler(browser, {}, limiter, undefined, fixedQueries('a', 'b'));
+
+    const result = await handler.run(page);
+
+    expect(result.status).toBe('ok');
+    expect((result.meta!.searches as any[]).map(s => s.status)).toEqual(['searched', 'deferred']);
+    expect(result.meta!.deferredByRateLimit).toBe(1);
+  });
+
+  it('should record a failed search and keep going', async () => {
+    clearAndTypeHuman.mockRejectedValueOnce(new Error('search box not found'));
+    const handler = new SearchHandler(browser, {}, undefined, undefined, fixedQueries('a', 'b'));
+
+    const result = await handler.run(page);
+
+    expect(result.status).toBe('ok');
+    expect(result.meta!.searches).toMatchObject([
+      { query: 'a', status: 'failed', error: 'search box not found' },
+      { query: 'b', status: 'searched' },
+    ]);
+  });
+
+  it('should mark only searched queries as used', async () => {
+    clearAndTypeHuman.mockRejectedValueOnce(new Error('search box not found'));
+    const generator = { ...fixedQueries('a', 'b'), markUsed: vi.fn() };
+
+    await new SearchHandler(browser, {}, undefined, undefined, generator).run(page);
+    await new SearchHandler(browser, { dryRun: true }, undefined, undefined, generator).run(page);
+
+    expect(generator.markUsed.mock.calls).toEqual([['b']]);
+  });
+
+  it('should engage with the results and keep the report in meta', async () => {
+    const report = { scrolls: 3, openedResult: 'https://example.com/', dwellMs: 12_000 };
+    (browser as any).engageWithResults = vi.fn().mockResolvedValue(report);
+    const engagement = {
+      enabled: true,
+      minScrolls: 2,
+      maxScrolls: 4,
+      openResultChance: 1,
+      minDwellSeconds: 10,
+      maxDwellSeconds: 20,
+    };
+    const handler = new SearchHandler(browser, { engagement }, undefined, undefined, fixedQueries('a'));
+
+    const result = await handler.run(page);
+
+    expect(browser.engageWithResults).toHaveBeenCalledWith(page, engagement, 'SearchHandler');
+    expect(result.meta!.searches).toMatchObject([{ query: 'a', status: 'searched', engagement: report }]);
+  });
+
+  it('should only log in dry-run mode', async () => {
+    const handler = new SearchHandler(browser, { dryRun: true }, undefined, undefined, fixedQueries('a'));
+
+    const result = await handler.run(page);
+
+    expect(result.status).toBe('ok');
+    expect(browser.goto).not.toHaveBeenCalled();
+    expect(clearAndTypeHuman).not.toHaveBeenCalled();
+  });
+
+  describe('with a quota', () => {
+    it('should search just enough for the points left', async () => {
+      const generator = fixedQueries('a', 'b', 'c', 'd', 'e');
+      const quota = quotaOf({ 'pc-search': { earned: 80, max: 90 } });
+
+      const result = await new SearchHandler(browser, { maxSearches: 2 }, undefined, undefined, generator, quota).run(page);
+
+      // 10 points at 3 per search
+      expect(generator.generate).toHaveBeenCalledWith(4);
+      expect(result.meta).toMatchObject({ totalSearched: 4, quota: { earned: 80, max: 90 } });
+    });
+
+    it('should skip once its category is maxed', async () => {
+      const generator = fixedQueries('a');
+      const quota = quotaOf({ 'pc-search': { earned: 90, max: 90 }, 'mobile-search': { earned: 0, max: 60 } });
+
+      const result = await new SearchHandler(browser, {}, undefined, undefined, generator, quota).run(page);
+
+      expect(result).toMatchObject({ status: 'skipped', attempts: 0 });
+      expect(result.meta).toMatchObject({ reason: 'Quota reached' });
+      expect(generator.generate).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to maxSearches when its category was not read', async () => {
+      const generator = fixedQueries('a', 'b', 'c');
+      const quota = quotaOf({ 'daily-set': { earned: 0, max: 30 } });
+
+      await new SearchHandler(browser, { maxSearches: 2 }, undefined, undefined, generator, quota).run(page);
+
+      expect(generator.generate).toHaveBeenCalledWith(2);
+    });
+  });
+
+  describe('mobile mode', () => {
+    let mobilePage: any;
+    let humanizer: any;
+
+    beforeEach(() => {
+      let mobileUrl = 'about:blank';
+      mobilePage = {
+        url: () => mobileUrl,
+        goto: vi.fn().mockImplementation(async (to: string) => {
+          mobileUrl = to;
+        }),
+        keyboard: { press: vi.fn().mockResolvedValue(undefined) },
+        waitForLoadState: vi.fn().mockResolvedValue(undefined),
+        close: vi.fn().mockResolvedValue(undefined),
+      };
+      humanizer = {
+        clearAndTypeHuman,
+        tapAndTypeHuman: vi.fn().mockResolvedValue(undefined),
+        swipeScroll: vi.fn().mockResolvedValue(undefined),
+      };
+      (browser as any).humanizer = humanizer;
+      (browser as any).openMobilePage = vi.fn().mockResolvedValue(mobilePage);
+    });
+
+    it('should search from an emulated phone page with taps and swipes', async () => {
+      const handler = new SearchHandler(browser, { device: 'Pixel 7' }, undefined, undefined, fixedQueries('a', 'b'));
+
+      const result = await handler.run(page);
+
+      expect(handler.name).toBe('MobileSearchHandler');
+      expect(result).toMatchObject({ status: 'ok', attempts: 2 });
+      expect(result.meta).toMatchObject({ device: 'Pixel 7', totalSearched: 2 });
+      expect(browser.openMobilePage).toHaveBeenCalledWith('Pixel 7');
+      expect(mobilePage.goto).toHaveBeenCalledWith('https://www.bing.com/', { waitUntil: 'domcontentloaded' });
+      expect(browser.goto).not.toHaveBeenCalled();
+      expect(humanizer.tapAndTypeHuman).toHaveBeenCalledWith(mobilePage, '#sb_form_q, [name="q"]', 'a');
+      expect(clearAndTypeHuman).not.toHaveBeenCalled();
+      expect(humanizer.swipeScroll).toHaveBeenCalled();
+      expect(mobilePage.close).toHaveBeenCalled();
+    });
+
+    it('should keep the search when a swipe fails', async () => {
+      humanizer.swipeScroll.mockRejectedValue(new Error('no CDP'));
+      const handler = new SearchHandler(browser, { device: 'Pixel 7' }, undefined, undefined, fixedQueries('a'));
+
+      const result = await handler.run(page);
+
+      expect(result.status).toBe('ok');
+      expect(result.meta!.searches).toMatchObject([{ query: 'a', status: 'searched' }]);
+    });
+
+    it('should follow the mobile search quota', async () => {
+      const quota = quotaOf({ 'pc-search': { earned: 0, max: 90 }, 'mobile-search': { earned: 60, max: 60 } });
+      const handler = new SearchHandler(browser, { device: 'Pixel 7' }, undefined, undefined, fixedQueries('a'), quota);
+
+      const result = await handler.run(page);
+
+      expect(result.status).toBe('skipped');
+      expect(browser.openMobilePage).not.toHaveBeenCalled();
+    });
+
+    it('should not open a mobile page in dry-run mode', async () => {
+      const handler = new SearchHandler(browser, { device: 'Pixel 7', dryRun: true }, undefined, undefined, fixedQueries('a'));
+
+      const result = await handler.run(page);
+
+      expect(result.status).toBe('ok');
+      expect(browser.openMobilePage).not.toHaveBeenCalled();
+    });
+  });
+});
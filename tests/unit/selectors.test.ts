@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  SELECTOR_CONCEPTS,
+  SelectorPackError,
+  builtInSelectors,
+  checkSelectors,
+  firstMatch,
+  firstText,
+  loadSelectorPack,
+} from '../../src/core/selectors';
+
+/** A scope whose locators match `counts[selector]` elements (0 when absent). */
+const scope = (counts: Record<string, number>, texts: Record<string, string> = {}): any => ({
+  locator: (selector: string) => ({
+    selector,
+    count: async () => counts[selector] ?? 0,
+    first: () => ({ textContent: async () => texts[selector] ?? null }),
+    filter: () => ({ first: () => scope(counts) }),
+    locator: (inner: string) => scope(counts).locator(inner),
+  }),
+});
+
+describe('loadSelectorPack', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'rewards-selectors-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const writeOverride = (content: unknown, name = 'rewards.selectors.json') => {
+    writeFileSync(join(dir, name), JSON.stringify(content));
+    return join(dir, name);
+  };
+
+  it('should load a built-in list for every concept', () => {
+    const pack = loadSelectorPack({ cwd: dir });
+
+    expect(pack.version).toBeGreaterThanOrEqual(1);
+    expect(pack.overrideFile).toBeUndefined();
+    for (const concept of SELECTOR_CONCEPTS) {
+      expect(pack.selectors[concept].length).toBeGreaterThan(0);
+      expect(pack.sources[concept]).toBe('built-in');
+    }
+    expect(pack.selectors.card).toEqual(builtInSelectors().card);
+  });
+
+  it('should replace only the concepts an override lists', () => {
+    const file = writeOverride({ version: 1, selectors: { card: ['div.offer-card', 'mee-card'] } });
+
+    const pack = loadSelectorPack({ cwd: dir });
+
+    expect(pack.overrideFile).toBe(file);
+    expect(pack.selectors.card).toEqual(['div.offer-card', 'mee-card']);
+    expect(pack.sources.card).toBe(file);
+    expect(pack.selectors.title).toEqual(builtInSelectors().title);
+    expect(pack.warnings).toEqual([]);
+  });
+
+  it('should prefer an explicit override path', () => {
+    writeOverride({ version: 1, selectors: { card: ['from-default'] } });
+    writeOverride({ version: 1, selectors: { card: ['from-flag'] } }, 'mine.json');
+
+    expect(loadSelectorPack({ cwd: dir, overridePath: 'mine.json' }).selectors.card).toEqual(['from-flag']);
+  });
+
+  it('should warn when an override targets an older pack version', () => {
+    const builtIn = join(dir, 'builtin.json');
+    writeFileSync(builtIn, JSON.stringify({ version: 3, selectors: builtInSelectors() }));
+    writeOverride({ version: 2, selectors: { points: ['.pts'] } });
+
+    const pack = loadSelectorPack({ cwd: dir, builtInPath: builtIn });
+
+    expect(pack.version).toBe(3);
+    expect(pack.warnings).toHaveLength(1);
+    expect(pack.warnings[0]).toMatch(/v2.*v3/);
+  });
+
+  it('should reject unknown concepts, empty lists and missing files', () => {
+    writeOverride({ version: 1, selectors: { cards: ['mee-card'] } });
+    expect(() => loadSelectorPack({ cwd: dir })).toThrow(SelectorPackError);
+
+    writeOverride({ version: 1, selectors: { card: [] } });
+    expect(() => loadSelectorPack({ cwd: dir })).toThrow(/selectors\.card/);
+
+    expect(() => loadSelectorPack({ cwd: dir, overridePath: 'nope.json' })).toThrow(/not found/);
+  });
+});
+
+describe('selector fallbacks', () => {
+  it('should use the first selector that matches', async () => {
+    const match = await firstMatch(scope({ 'div.new': 2, 'mee-card': 5 }), ['div.missing', 'div.new', 'mee-card']);
+    expect((match as any).selector).toBe('div.new');
+
+    expect(await firstMatch(scope({}), ['a', 'b'])).toBeNull();
+  });
+
+  it('should read text from the first matching selector with text', async () => {
+    const card = scope({ '.title': 1, h3: 1 }, { '.title': '', h3: 'Daily poll' });
+    expect(await firstText(card, ['.missing', '.title', 'h3'])).toBe('Daily poll');
+  });
+});
+
+describe('checkSelectors', () => {
+  it('should count every selector and mark the one in use', async () => {
+    const pack = loadSelectorPack({ cwd: tmpdir() });
+    const page = scope({
+      [pack.selectors.sectionHeading[0]!]: 3,
+      [pack.selectors.sectionContainer[0]!]: 1,
+      'mee-card': 12,
+      h3: 12,
+      '.c-glyph-check': 4,
+    });
+
+    const checks = await checkSelectors(page, pack);
+    const byConcept = Object.fromEntries(checks.map(c => [c.concept, c]));
+
+    expect(checks.map(c => c.concept)).toEqual([...SELECTOR_CONCEPTS]);
+    expect(byConcept.card).toMatchObject({ active: 'mee-card', required: true });
+    expect(byConcept.completed!.active).toBe('.c-glyph-check');
+    expect(byConcept.completed!.counts.map(c => c.matches)).toEqual([0, 0, 4]);
+    expect(byConcept.points).toMatchObject({ active: undefined, required: false });
+    expect(byConcept.punchCardTask!.counts).toEqual([]);
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Page } from 'playwright';
+import { ensureLoggedIn, isSignedOut, NotLoggedInError } from '../../src/core/session';
+
+function mockPage(url: string, signInVisible = false): Page {
+  return {
+    url: vi.fn().mockReturnValue(url),
+    goto: vi.fn().mockResolvedValue(null),
+    locator: vi.fn().mockReturnValue({
+      first: vi.fn().mockReturnValue({ isVisible: vi.fn().mockResolvedValue(signInVisible) }),
+    }),
+  } as unknown as Page;
+}
+
+describe('isSignedOut', () => {
+  it('should detect a redirect to the Microsoft login page', async () => {
+    expect(await isSignedOut(mockPage('https://login.live.com/oauth20_authorize.srf'))).toBe(true);
+  });
+
+  it('should detect the signed-out landing page', async () => {
+    expect(await isSignedOut(mockPage('https://rewards.bing.com/welcome', true))).toBe(true);
+  });
+
+  it('should accept a signed-in dashboard', async () => {
+    expect(await isSignedOut(mockPage('https://rewards.bing.com/'))).toBe(false);
+  });
+});
+
+describe('ensureLoggedIn', () => {
+  it('should throw NotLoggedInError when signed out', async () => {
+    const page = mockPage('https://login.live.com/');
+
+    await expect(ensureLoggedIn(page)).rejects.toBeInstanceOf(NotLoggedInError);
+    expect(page.goto).toHaveBeenCalledWith('https://rewards.bing.com/', expect.anything());
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  SnapshotError,
+  captureSnapshot,
+  readSnapshot,
+  replayResponse,
+  saveSnapshot,
+  snapshotKey,
+  stripSecrets,
+  stripUrlSecrets,
+} from '../../src/core/snapshot';
+import { builtInSelectors } from '../../src/core/selectors';
+import { RateLimiter } from '../../src/core/rate-limiter';
+
+describe('stripSecrets', () => {
+  it('should drop scripts, form values, token meta tags and emails', () => {
+    const html = [
+      '<meta name="csrf-token" content="abc123">',
+      '<script>window.token = "secret";</script>',
+      '<input type="hidden" name="__RequestVerificationToken" value="xyz">',
+      '<span id="id_n">jane.doe@outlook.com</span>',
+      '<mee-card><h3>Daily poll</h3></mee-card>',
+    ].join('');
+
+    const stripped = stripSecrets(html);
+
+    expect(stripped).not.toMatch(/abc123|secret|xyz|jane\.doe/);
+    expect(stripped).toContain('user@example.com');
+    expect(stripped).toContain('<mee-card><h3>Daily poll</h3></mee-card>');
+  });
+
+  it('should remove secret query parameters from links but keep the rest', () => {
+    const stripped = stripSecrets(
+      '<a href="https://www.bing.com/search?q=weather&amp;form=ML2&amp;sig=ABCDEF&amp;token=t0k">x</a>',
+    );
+
+    expect(stripped).toBe('<a href="https://www.bing.com/search?q=weather&amp;form=ML2">x</a>');
+  });
+});
+
+describe('snapshotKey', () => {
+  it('should ignore secrets, fragments and parameter order', () => {
+    expect(snapshotKey('https://www.bing.com/search?form=ML2&q=weather&sig=1#top')).toBe(
+      snapshotKey('https://www.bing.com/search?q=weather&form=ML2'),
+    );
+    expect(stripUrlSecrets('not a url')).toBe('not a url');
+  });
+});
+
+describe('snapshot files', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'rewards-snapshot-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should save stripped pages and serve them back by URL', () => {
+    const manifest = saveSnapshot(
+      dir,
+      [
+        { url: 'https://rewards.bing.com/', html: '<h1>Dashboard</h1><script>x()</script>', kind: 'dashboard' },
+        { url: 'https://www.bing.com/search?q=weather&sig=1', html: '<h1>Weather</h1>', kind: 'activity' },
+      ],
+      new Date('2026-03-01T09:30:00Z'),
+    );
+
+    expect(manifest.pages.map(p => [p.url, p.file])).toEqual([
+      ['https://rewards.bing.com/', 'pages/001-rewards-bing-com.html'],
+      ['https://www.bing.com/search?q=weather', 'pages/002-www-bing-com.html'],
+    ]);
+    expect(readFileSync(join(dir, 'pages/001-rewards-bing-com.html'), 'utf-8')).toBe('<h1>Dashboard</h1>');
+    expect(readSnapshot(dir)).toEqual(manifest);
+
+    const hit = replayResponse(dir, manifest, 'https://www.bing.com/search?q=weather&sig=other');
+    expect(hit).toMatchObject({ status: 200, body: '<h1>Weather</h1>' });
+    expect(replayResponse(dir, manifest, 'https://www.bing.com/favicon.ico').status).toBe(404);
+  });
+
+  it('should reject directories without a supported manifest', () => {
+    expect(() => readSnapshot(dir)).toThrow(SnapshotError);
+
+    writeFileSync(join(dir, 'manifest.json'), JSON.stringify({ version: 99, pages: [] }));
+    expect(() => readSnapshot(dir)).toThrow(/Unsupported snapshot format/);
+  });
+
+  // A signed-in dashboard whose cards link to `hrefs`; `opened` collects the activity tabs
+  const dashboardPage = (hrefs: string[]) => {
+    const tab = (url: string) => ({
+      goto: vi.fn().mockResolvedValue(undefined),
+      waitForLoadState: vi.fn().mockResolvedValue(undefined),
+      content: vi.fn().mockResolvedValue(`<h1>${url}</h1>`),
+      close: vi.fn().mockResolvedValue(undefined),
+    });
+    const opened: ReturnType<typeof tab>[] = [];
+    const page: any = {
+      goto: vi.fn().mockResolvedValue(undefined),
+      waitForLoadState: vi.fn().mockResolvedValue(undefined),
+      content: vi.fn().mockResolvedValue('<mee-card>Dashboard</mee-card>'),
+      locator: (selector: string) => ({
+        // Signed-in check looks for a sign-in button; cards are found by the pack
+        count: vi.fn().mockResolvedValue(selector === 'mee-card' ? 5 : 0),
+        first: () => ({ isVisible: vi.fn().mockResolvedValue(false) }),
+        locator: () => ({ evaluateAll: vi.fn().mockResolvedValue(hrefs) }),
+      }),
+      url: () => 'https://rewards.bing.com/',
+      context: () => ({
+        newPage: async () => {
+          const t = tab(`page ${opened.length + 1}`);
+          opened.push(t);
+          return t;
+        },
+      }),
+    };
+    return { page, opened };
+  };
+
+  const hrefs = [
+    'https://www.bing.com/search?q=one',
+    'https://rewards.bing.com/',
+    'https://www.bing.com/search?q=one',
+    'https://www.bing.com/search?q=two',
+    'https://www.bing.com/search?q=three',
+  ];
+
+  it('should capture the dashboard and a limited number of activity pages', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const { page, opened } = dashboardPage(hrefs);
+    const limiter = new RateLimiter({ maxActionsPerHour: 30 });
+
+    const manifest = await captureSnapshot(page, dir, { selectors: builtInSelectors(), maxActivities: 2, limiter });
+
+    expect(manifest.pages.map(p => [p.kind, p.url])).toEqual([
+      ['dashboard', 'https://rewards.bing.com/'],
+      ['activity', 'https://www.bing.com/search?q=one'],
+      ['activity', 'https://www.bing.com/search?q=two'],
+    ]);
+    expect(opened.every(t => t.close.mock.calls.length === 1)).toBe(true);
+    expect(limiter.remaining()).toBe(28);
+  });
+
+  it('should stop opening activity pages once the click budget is spent', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const { page, opened } = dashboardPage(hrefs);
+    const limiter = new RateLimiter({ maxActionsPerHour: 1 });
+
+    const manifest = await captureSnapshot(page, dir, { selectors: builtInSelectors(), maxActivities: 3, limiter });
+
+    expect(manifest.pages.map(p => p.url)).toEqual(['https://rewards.bing.com/', 'https://www.bing.com/search?q=one']);
+    expect(opened).toHaveLength(1);
+  });
+});
@@ -1,6 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { existsSync, unlinkSync, mkdirSync, rmdirSync, readFileSync } from 'fs';
-import { Storage, MetricsStore } from '../../src/utils/storage';
+import { Storage, MetricsStore, namespacedPath } from '../../src/utils/storage';
 
 describe('Storage', () => {
   const testFilePath = './test-data/test-storage.json';
@@ -56,6 +56,15 @@ describe('Storage', () => {
     expect(storage2.get()).toEqual({ name: 'test' });
   });
 
+  it('should pick up changes written by another instance on reload', () => {
+    const storage = new Storage<{ count: number }>(testFilePath, { count: 0 });
+    const other = new Storage<{ count: number }>(testFilePath, { count: 0 });
+    other.set({ count: 7 });
+
+    expect(storage.get().count).toBe(0);
+    expect(storage.reload().count).toBe(7);
+  });
+
   it('should create directory if it does not exist', () => {
     const nestedPath = './test-data/nested/deep/storage.json';
     const storage = new Storage<{ x: number }>(nestedPath, { x: 42 });
@@ -118,6 +127,23 @@ describe('MetricsStore', () => {
     expect(clickPoints[0]!.points).toBe(25);
   });
 
+  it('should break today\'s points down by source', () => {
+    const store = new MetricsStore(testMetricsPath);
+    store.recordPoints(10, 'click');
+    store.recordPoints(5, 'quiz');
+
+    expect(store.getTodayPointsBySource()).toEqual({ click: 10, quiz: 5 });
+  });
+
+  it('should total recorded run points per handler', () => {
+    const store = new MetricsStore(testMetricsPath);
+    store.recordRun('ClickHandler', 'ok', 100, 1, undefined, 30);
+    store.recordRun('ClickHandler', 'ok', 100, 1);
+
+    expect(store.export().runs[0]!.points).toBe(30);
+    expect(store.getSummary().handlerStats.ClickHandler!.points).toBe(30);
+  });
+
   it('should calculate success rate', () => {
     const store = new MetricsStore(testMetricsPath);
     store.recordRun('TestHandler', 'ok', 100, 1);
@@ -149,6 +175,35 @@ describe('MetricsStore', () => {
     expect(Object.keys(summary.handlerStats)).toContain('Handler2');
   });
 
+  it('should detect successful runs within a time range', () => {
+    const store = new MetricsStore(testMetricsPath);
+    const before = Date.now() - 1;
+    store.recordRun('TestHandler', 'failed', 100, 1);
+    expect(store.hasSuccessfulRunBetween(before, Date.now() + 1)).toBe(false);
+
+    store.recordRun('TestHandler', 'ok', 100, 1);
+    expect(store.hasSuccessfulRunBetween(before, Date.now() + 1)).toBe(true);
+    expect(store.hasSuccessfulRunBetween(0, before)).toBe(false);
+  });
+
+  it('should keep the first record of each card offered today', () => {
+    const store = new MetricsStore(testMetricsPath);
+    const offer = { section: 'daily-set', title: 'Daily poll', kind: 'poll' as const, completed: false, locked: false };
+    store.recordOffers([offer]);
+    store.recordOffers([
+      { ...offer, completed: true },
+      { ...offer, section: 'more-activities', title: 'Tour the Alps', kind: 'url-reward' },
+    ]);
+
+    const days = new MetricsStore(testMetricsPath).getOffers();
+    expect(days).toHaveLength(1);
+    expect(days[0]!.date).toBe(new Date().toISOString().split('T')[0]);
+    expect(days[0]!.activities.map(a => [a.title, a.completed])).toEqual([
+      ['Daily poll', false],
+      ['Tour the Alps', false],
+    ]);
+  });
+
   it('should limit stored runs to prevent unbounded growth', () => {
     const store = new MetricsStore(testMetricsPath);
 
@@ -161,3 +216,14 @@ describe('MetricsStore', () => {
     expect(data.runs.length).toBeLessThanOrEqual(1000);
   });
 });
+
+describe('namespacedPath', () => {
+  it('should insert a slug before the extension', () => {
+    expect(namespacedPath('./.rewards-metrics.json', 'Profile 1')).toBe('./.rewards-metrics.profile-1.json');
+    expect(namespacedPath('./.rewards.log', 'Default')).toBe('./.rewards.default.log');
+  });
+
+  it('should leave the path unchanged without a namespace', () => {
+    expect(namespacedPath('./.rewards-metrics.json')).toBe('./.rewards-metrics.json');
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { EventEmitter } from 'events';
+import { TabManager } from '../../src/core/tabs';
+
+describe('TabManager', () => {
+  let context: EventEmitter;
+
+  const fakePage = () => {
+    let closed = false;
+    const frame = {};
+    return Object.assign(new EventEmitter(), {
+      context: () => context,
+      mainFrame: () => frame,
+      isClosed: () => closed,
+      close: vi.fn().mockImplementation(async () => {
+        closed = true;
+      }),
+      bringToFront: vi.fn().mockResolvedValue(undefined),
+      waitForLoadState: vi.fn().mockResolvedValue(undefined),
+    });
+  };
+
+  beforeEach(() => {
+    context = new EventEmitter();
+  });
+
+  it('should follow the tab an action opens and close only that tab', async () => {
+    const dashboard = fakePage();
+    const existing = fakePage();
+    const opened = fakePage();
+
+    const tabs = await new TabManager({ openTimeoutMs: 1000 }).track(dashboard as any, async () => {
+      context.emit('page', opened);
+    });
+
+    expect(tabs.target).toBe(opened);
+    expect(tabs.navigated).toBe(false);
+    expect(opened.waitForLoadState).toHaveBeenCalledWith('domcontentloaded', expect.any(Object));
+
+    await tabs.close();
+    expect(opened.close).toHaveBeenCalled();
+    expect(existing.close).not.toHaveBeenCalled();
+    expect(dashboard.bringToFront).toHaveBeenCalled();
+    expect(context.listenerCount('page')).toBe(0);
+  });
+
+  it('should wait for a tab that opens after the click returns', async () => {
+    const dashboard = fakePage();
+    const slow = fakePage();
+
+    const tabs = await new TabManager({ openTimeoutMs: 1000 }).track(dashboard as any, async () => {
+      setTimeout(() => context.emit('page', slow), 20);
+    });
+
+    expect(tabs.target).toBe(slow);
+    await tabs.close();
+  });
+
+  it('should detect navigation in the source tab', async () => {
+    const dashboard = fakePage();
+
+    const tabs = await new TabManager({ openTimeoutMs: 1000 }).track(dashboard as any, async () => {
+      dashboard.emit('framenavigated', {});
+      dashboard.emit('framenavigated', dashboard.mainFrame());
+    });
+
+    expect(tabs.navigated).toBe(true);
+    expect(tabs.target).toBe(dashboard);
+    expect(dashboard.waitForLoadState).toHaveBeenCalled();
+    await tabs.close();
+    expect(dashboard.listenerCount('framenavigated')).toBe(0);
+  });
+
+  it('should give up waiting when nothing opens', async () => {
+    const dashboard = fakePage();
+
+    const tabs = await new TabManager({ openTimeoutMs: 10 }).track(dashboard as any, async () => {});
+
+    expect(tabs.opened).toEqual([]);
+    expect(tabs.target).toBe(dashboard);
+    expect(dashboard.waitForLoadState).not.toHaveBeenCalled();
+  });
+
+  it('should stop tracking and rethrow when the action fails', async () => {
+    const dashboard = fakePage();
+
+    await expect(
+      new TabManager().track(dashboard as any, async () => {
+        throw new Error('detached');
+      }),
+    ).rejects.toThrow('detached');
+    expect(context.listenerCount('page')).toBe(0);
+  });
+});